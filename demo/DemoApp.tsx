@@ -28,6 +28,7 @@ export const DemoApp: React.FC = () => {
   const [userCount, setUserCount] = useState<number | null>(null);
 
   useEffect(() => {
+    let stopLiveQuery: (() => void) | undefined;
     (async () => {
       try {
         await db.open('simple-idb-demo', 2, () => {
@@ -38,7 +39,15 @@ export const DemoApp: React.FC = () => {
         });
         setIsOpened(true);
         setStatus({ type: 'success', message: 'Database opened (simple-idb-demo, v2) with indexes' });
-        await refreshData();
+        // Re-runs after every write to "users", including writes from other tabs
+        stopLiveQuery = db.liveQuery(
+          async () => ({ count: await db.count('users'), all: await db.getAll<User>('users') }),
+          ({ count, all }) => {
+            setUserCount(count);
+            setAllUsers(all);
+          },
+          (error) => console.error('Failed to refresh data:', error)
+        );
       } catch (error: unknown) {
         setStatus({ 
           type: 'error', 
@@ -48,22 +57,11 @@ export const DemoApp: React.FC = () => {
     })();
 
     return () => {
+      stopLiveQuery?.();
       db.close();
     };
   }, []);
 
-  const refreshData = async () => {
-    if (!isOpened) return;
-    try {
-      const count = await db.count('users');
-      const all = await db.getAll<User>('users');
-      setUserCount(count);
-      setAllUsers(all);
-    } catch (error: unknown) {
-      console.error('Failed to refresh data:', error);
-    }
-  };
-
   const addUser = async () => {
     if (!isOpened) return;
     try {
@@ -76,7 +74,6 @@ export const DemoApp: React.FC = () => {
       };
       await db.add('users', user);
       setStatus({ type: 'success', message: `Added user: ${JSON.stringify(user)}` });
-      await refreshData();
     } catch (error: unknown) {
       setStatus({ 
         type: 'error', 
@@ -115,7 +112,6 @@ export const DemoApp: React.FC = () => {
       };
       await db.put('users', user);
       setStatus({ type: 'success', message: `Upserted user: ${JSON.stringify(user)}` });
-      await refreshData();
     } catch (error: unknown) {
       setStatus({ 
         type: 'error', 
@@ -133,7 +129,6 @@ export const DemoApp: React.FC = () => {
       if (loadedUser && loadedUser.id === id) {
         setLoadedUser(null);
       }
-      await refreshData();
     } catch (error: unknown) {
       setStatus({ 
         type: 'error', 
@@ -148,7 +143,6 @@ export const DemoApp: React.FC = () => {
       await db.clear('users');
       setStatus({ type: 'success', message: 'Cleared all users from the store' });
       setLoadedUser(null);
-      await refreshData();
     } catch (error: unknown) {
       setStatus({ 
         type: 'error', 
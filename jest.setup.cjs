@@ -0,0 +1,62 @@
+// jsdom does not expose structuredClone, which fake-indexeddb relies on. Node's v8 serializer would
+// create the clones in Node's own realm, where `instanceof Date` and `Map.prototype` checks made by the
+// tests fail, so clone within the test realm instead.
+if (typeof globalThis.structuredClone !== 'function') {
+  const clone = (value, seen) => {
+    if (typeof value !== 'object' || value === null) {
+      if (typeof value === 'function' || typeof value === 'symbol') {
+        throw new DOMException(`${String(value)} could not be cloned.`, 'DataCloneError');
+      }
+      return value;
+    }
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+    if (value instanceof Date) {
+      return new Date(value.getTime());
+    }
+    if (value instanceof RegExp) {
+      return new RegExp(value.source, value.flags);
+    }
+    if (value instanceof ArrayBuffer) {
+      return value.slice(0);
+    }
+    if (ArrayBuffer.isView(value)) {
+      const buffer = value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength);
+      return value instanceof DataView ? new DataView(buffer) : new value.constructor(buffer);
+    }
+    if (value instanceof Blob) {
+      return value;
+    }
+    if (value instanceof Map) {
+      const copy = new Map();
+      seen.set(value, copy);
+      value.forEach((entry, key) => copy.set(clone(key, seen), clone(entry, seen)));
+      return copy;
+    }
+    if (value instanceof Set) {
+      const copy = new Set();
+      seen.set(value, copy);
+      value.forEach((entry) => copy.add(clone(entry, seen)));
+      return copy;
+    }
+    const copy = Array.isArray(value) ? [] : {};
+    seen.set(value, copy);
+    for (const key of Object.keys(value)) {
+      copy[key] = clone(value[key], seen);
+    }
+    return copy;
+  };
+  globalThis.structuredClone = (value) => clone(value, new Map());
+}
+
+// jsdom has neither TextEncoder/TextDecoder nor crypto.subtle, which the encryption codec needs; borrow
+// Node's implementations.
+if (typeof globalThis.TextEncoder !== 'function') {
+  const { TextDecoder, TextEncoder } = require('util');
+  globalThis.TextEncoder = TextEncoder;
+  globalThis.TextDecoder = TextDecoder;
+}
+if (!globalThis.crypto || !globalThis.crypto.subtle) {
+  Object.defineProperty(globalThis, 'crypto', { value: require('crypto').webcrypto, configurable: true });
+}
@@ -0,0 +1,166 @@
+import { StorageDriver } from './driver';
+import { extractKey } from './keyPath';
+import { KeyQuery, isKeyRange, toKeyRange } from './keyRange';
+
+export type ChangeType = 'add' | 'put' | 'delete' | 'clear';
+
+export interface ChangeEvent {
+  storeName: string;
+  type: ChangeType;
+  /** Primary keys of the changed records; empty for `clear`. */
+  keys: IDBValidKey[];
+  /** True when the change was committed by another tab or SimpleIDB instance. */
+  remote: boolean;
+}
+
+export type ChangeCallback = (event: ChangeEvent) => void;
+
+export interface ObserveOptions {
+  /** Only report changes to records whose key (or index key, with `index`) falls in this range. */
+  range?: KeyQuery;
+  index?: string;
+}
+
+/** A committed change, as recorded by a write and relayed to other tabs. */
+export interface ChangeRecord {
+  storeName: string;
+  type: ChangeType;
+  keys: IDBValidKey[];
+  /** Index keys of the written records per index name. Missing for deletes, whose old values are unknown. */
+  indexKeys?: Record<string, IDBValidKey[]>;
+}
+
+interface Observer {
+  storeName: string | null;
+  callback: ChangeCallback;
+  options?: ObserveOptions;
+}
+
+/** Records a write on `store`. Must be called while the store's transaction is still active. */
+export function recordChange(store: IDBObjectStore, type: ChangeType, keys: IDBValidKey[], values?: unknown[]): ChangeRecord {
+  const record: ChangeRecord = { storeName: store.name, type, keys };
+  if (values) {
+    record.indexKeys = {};
+    for (const indexName of Array.from(store.indexNames)) {
+      const index = store.index(indexName);
+      record.indexKeys[indexName] = values.flatMap((value) => {
+        const key = extractKey(index.keyPath, value);
+        if (key === undefined) {
+          return [];
+        }
+        return index.multiEntry && Array.isArray(key) ? key : [key];
+      });
+    }
+  }
+  return record;
+}
+
+/** Folds consecutive changes of the same kind to the same store into one, so a transaction reports each batch once. */
+export function mergeChanges(records: ChangeRecord[]): ChangeRecord[] {
+  const merged: ChangeRecord[] = [];
+  for (const record of records) {
+    const last = merged[merged.length - 1];
+    if (!last || last.storeName !== record.storeName || last.type !== record.type || !last.indexKeys !== !record.indexKeys) {
+      merged.push({ ...record, keys: [...record.keys], indexKeys: record.indexKeys && { ...record.indexKeys } });
+      continue;
+    }
+    last.keys.push(...record.keys);
+    for (const [indexName, keys] of Object.entries(record.indexKeys ?? {})) {
+      last.indexKeys![indexName] = [...(last.indexKeys![indexName] ?? []), ...keys];
+    }
+  }
+  return merged;
+}
+
+function matches(record: ChangeRecord, options: ObserveOptions | undefined, driver: StorageDriver): boolean {
+  if (record.type === 'clear' || options?.range === undefined) {
+    return true;
+  }
+  let keys = record.keys;
+  if (options.index !== undefined) {
+    if (!record.indexKeys) {
+      // The deleted records' index keys are unknown, so any delete may have touched the range.
+      return true;
+    }
+    keys = record.indexKeys[options.index] ?? [];
+  }
+  const range = toKeyRange(options.range, driver);
+  return keys.some((key) => (isKeyRange(range) ? range.includes(key) : driver.indexedDB.cmp(key, range) === 0));
+}
+
+/**
+ * Delivers committed changes to local observers and relays them to the other tabs that opened the same
+ * database, over a BroadcastChannel named after it. Nothing is relayed for drivers whose databases other
+ * tabs cannot see.
+ */
+export class ChangeFeed {
+  private observers = new Set<Observer>();
+  private channel: BroadcastChannel | null = null;
+  private channelName: string | null = null;
+  private driver: StorageDriver | null = null;
+
+  connect(dbName: string, driver: StorageDriver): void {
+    const channelName = driver.shared ? dbName : null;
+    if (this.channelName !== channelName) {
+      this.disconnect();
+      this.channelName = channelName;
+    }
+    this.driver = driver;
+    if (this.observers.size > 0) {
+      this.openChannel();
+    }
+  }
+
+  disconnect(): void {
+    this.channel?.close();
+    this.channel = null;
+    this.channelName = null;
+  }
+
+  /** Pass a null store name to be told about changes to every store. */
+  observe(storeName: string | null, callback: ChangeCallback, options?: ObserveOptions): () => void {
+    const observer: Observer = { storeName, callback, options };
+    this.observers.add(observer);
+    this.openChannel();
+    return () => {
+      this.observers.delete(observer);
+    };
+  }
+
+  publish(records: ChangeRecord[]): void {
+    if (records.length === 0) {
+      return;
+    }
+    this.deliver(records, false);
+    this.openChannel()?.postMessage(records);
+  }
+
+  private openChannel(): BroadcastChannel | null {
+    if (!this.channel && this.channelName !== null && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(`simple-idb:${this.channelName}`);
+      this.channel.onmessage = (event: MessageEvent<ChangeRecord[]>) => this.deliver(event.data, true);
+    }
+    return this.channel;
+  }
+
+  private deliver(records: ChangeRecord[], remote: boolean): void {
+    for (const observer of Array.from(this.observers)) {
+      for (const record of records) {
+        if (observer.storeName !== null && observer.storeName !== record.storeName) {
+          continue;
+        }
+        if (!matches(record, observer.options, this.driver!)) {
+          continue;
+        }
+        try {
+          observer.callback({ storeName: record.storeName, type: record.type, keys: record.keys, remote });
+        } catch (error) {
+          // One failing observer must not keep the others from hearing about the change.
+          setTimeout(() => {
+            throw error;
+          });
+        }
+      }
+    }
+  }
+}
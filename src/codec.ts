@@ -0,0 +1,144 @@
+import { CodecError, ErrorDetails, SimpleIDBError } from './errors';
+import { KeyPath, extractKey, setKeyPath } from './keyPath';
+import { SEARCH_TOKENS } from './search';
+import { EXPIRES_AT } from './ttl';
+
+export interface CodecContext {
+  storeName: string;
+  /**
+   * Properties that must stay readable in the stored record: the parts of the store's keyPath and the
+   * hidden properties of TTL and search indexes.
+   */
+  preserve: string[];
+  /** Key paths of the store's indexes, apart from those of TTL and search indexes. */
+  indexed: string[];
+}
+
+/**
+ * Transforms records on their way into and out of an object store. Both directions may be async, so they
+ * run before a write's transaction starts and after a read's transaction ends.
+ */
+export interface ValueCodec {
+  encode(value: unknown, context: CodecContext): unknown | Promise<unknown>;
+  decode(stored: unknown, context: CodecContext): unknown | Promise<unknown>;
+  /**
+   * Maps a key looked up through an index on `keyPath` to the form the codec stores it in, so that
+   * equality lookups on transformed fields keep working. Keys pass through unchanged without it.
+   */
+  encodeKey?(keyPath: KeyPath, key: IDBValidKey, context: CodecContext): IDBValidKey | Promise<IDBValidKey>;
+  /**
+   * How the field at `path` appears in the stored record, so queries know what they can match on it:
+   * `'plain'` as it is, `'key'` as encodeKey() maps it (equality only), `'encoded'` not at all. Fields count
+   * as plain without it.
+   */
+  storedAs?(path: string, context: CodecContext): StoredField;
+}
+
+export type StoredField = 'plain' | 'key' | 'encoded';
+
+const STORED_FIELDS: StoredField[] = ['plain', 'key', 'encoded'];
+
+/** The least readable of `fields`. */
+export function leastReadable(fields: StoredField[]): StoredField {
+  return fields.reduce<StoredField>((least, field) => (STORED_FIELDS.indexOf(field) > STORED_FIELDS.indexOf(least) ? field : least), 'plain');
+}
+
+function keyPathParts(keyPath: KeyPath | null): string[] {
+  return keyPath === null || keyPath === '' ? [] : Array.isArray(keyPath) ? [...keyPath] : [keyPath];
+}
+
+/** Must be called while the transaction of `store` is active, since the store's indexes are read. */
+export function codecContext(store: IDBObjectStore): CodecContext {
+  const indexed = Array.from(store.indexNames)
+    .map((name) => store.index(name).keyPath)
+    .flatMap(keyPathParts)
+    .filter((path) => path !== EXPIRES_AT && !path.startsWith(`${SEARCH_TOKENS}.`));
+  return { storeName: store.name, preserve: [...keyPathParts(store.keyPath), EXPIRES_AT, SEARCH_TOKENS], indexed: Array.from(new Set(indexed)) };
+}
+
+/** Copies the fields at `paths` that `source` has over to `target`. */
+export function copyFields(source: unknown, target: Record<string, unknown>, paths: string[]): void {
+  for (const path of paths) {
+    const field = extractKey(path, source);
+    if (field !== undefined) {
+      setKeyPath(target, path, field);
+    }
+  }
+}
+
+/** Chains codecs: records are encoded by each in turn and decoded in reverse order. */
+export function pipeline(codecs: ValueCodec[]): ValueCodec {
+  return {
+    async encode(value, context) {
+      let encoded = value;
+      for (const codec of codecs) {
+        encoded = await codec.encode(encoded, context);
+      }
+      return encoded;
+    },
+    async decode(stored, context) {
+      let decoded = stored;
+      for (const codec of [...codecs].reverse()) {
+        decoded = await codec.decode(decoded, context);
+      }
+      return decoded;
+    },
+    async encodeKey(keyPath, key, context) {
+      let encoded = key;
+      for (const codec of codecs) {
+        encoded = codec.encodeKey ? await codec.encodeKey(keyPath, encoded, context) : encoded;
+      }
+      return encoded;
+    },
+    storedAs(path, context) {
+      return leastReadable(codecs.map((codec) => codec.storedAs?.(path, context) ?? 'plain'));
+    }
+  };
+}
+
+/** Runs a codec step, reporting any failure as a CodecError. */
+export async function runCodec<R>(step: () => R | Promise<R>, message: string, details: ErrorDetails): Promise<R> {
+  try {
+    return await step();
+  } catch (error) {
+    if (error instanceof SimpleIDBError) {
+      throw error;
+    }
+    throw new CodecError(`${message}: ${error instanceof Error ? error.message : String(error)}`, { ...details, cause: error });
+  }
+}
+
+function bytesOf(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+  return ArrayBuffer.isView(value) ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength) : new Uint8Array(value);
+}
+
+/**
+ * Structural equality of two stored records. Used to check that a record read in one transaction is still
+ * unchanged when it is written in another.
+ */
+export function sameStoredValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  const tag = Object.prototype.toString.call(a);
+  if (tag !== Object.prototype.toString.call(b)) {
+    return false;
+  }
+  if (ArrayBuffer.isView(a) || tag === '[object ArrayBuffer]') {
+    const left = bytesOf(a as ArrayBuffer | ArrayBufferView);
+    const right = bytesOf(b as ArrayBuffer | ArrayBufferView);
+    return left.length === right.length && left.every((byte, i) => byte === right[i]);
+  }
+  if (tag === '[object Date]') {
+    return Object.is((a as Date).getTime(), (b as Date).getTime());
+  }
+  if (tag === '[object Map]' || tag === '[object Set]') {
+    return sameStoredValue(Array.from(a as Iterable<unknown>), Array.from(b as Iterable<unknown>));
+  }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every((key) => key in b && sameStoredValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
@@ -0,0 +1,46 @@
+import { SimpleIDBError } from './errors';
+
+/**
+ * `'opening'` while open() or a lazy open runs, `'reconnecting'` while the connection is reopened after the
+ * browser closed it.
+ */
+export type ConnectionState = 'closed' | 'opening' | 'open' | 'reconnecting';
+
+/** Called on every change of connection state; `error` is set when an open or reconnect failed. */
+export type ConnectionListener = (state: ConnectionState, error?: SimpleIDBError) => void;
+
+export interface ReconnectOptions {
+  /** How many times to try reopening before giving up (default: 3). */
+  attempts?: number;
+  /** Milliseconds to wait before the second attempt, doubled before each later one (default: 200). */
+  delay?: number;
+}
+
+export function validateReconnect(options: boolean | ReconnectOptions | undefined): void {
+  if (typeof options !== 'object') {
+    return;
+  }
+  const { attempts, delay } = options;
+  if (attempts !== undefined && (!Number.isInteger(attempts) || attempts < 1)) {
+    throw new SimpleIDBError(`Invalid reconnect attempts ${attempts}: expected a positive integer.`, { operation: 'constructor' });
+  }
+  if (delay !== undefined && (!Number.isFinite(delay) || delay < 0)) {
+    throw new SimpleIDBError(`Invalid reconnect delay ${delay}: expected a non-negative number of milliseconds.`, { operation: 'constructor' });
+  }
+}
+
+/** Runs `attempt` until it succeeds or has run `attempts` times, backing off between runs. Rejects with the last error. */
+export async function retry<T>(attempt: () => Promise<T>, options: ReconnectOptions = {}): Promise<T> {
+  const attempts = options.attempts ?? 3;
+  const delay = options.delay ?? 200;
+  for (let i = 1; ; i++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (i >= attempts) {
+        throw error;
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, delay * 2 ** (i - 1)));
+  }
+}
@@ -0,0 +1,61 @@
+import { KeyQuery } from './keyRange';
+
+export interface CursorOptions {
+  limit?: number;
+  offset?: number;
+  direction?: IDBCursorDirection;
+}
+
+export interface QueryOptions extends CursorOptions {
+  range?: KeyQuery;
+}
+
+export function needsCursor(options?: CursorOptions): boolean {
+  const direction = options?.direction ?? 'next';
+  return (options?.offset ?? 0) > 0 || (direction !== 'next' && direction !== 'nextunique') || options?.limit === 0;
+}
+
+/**
+ * Visits the records of a cursor request, applying `offset` and `limit`. Records rejected by `accept`
+ * are passed over and do not count towards either.
+ */
+export function walkCursor<C extends IDBCursor>(
+  request: IDBRequest<C | null>,
+  options: CursorOptions | undefined,
+  visit: (cursor: C) => void,
+  done: () => void,
+  accept?: (cursor: C) => boolean
+): void {
+  const limit = options?.limit ?? Infinity;
+  let toSkip = options?.offset ?? 0;
+  let visited = 0;
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor || visited >= limit) {
+      done();
+      return;
+    }
+    if (accept && !accept(cursor)) {
+      cursor.continue();
+      return;
+    }
+    if (toSkip > 0) {
+      // advance() cannot check the skipped records, so with a filter they are skipped one by one.
+      if (accept) {
+        toSkip--;
+        cursor.continue();
+      } else {
+        cursor.advance(toSkip);
+        toSkip = 0;
+      }
+      return;
+    }
+    visit(cursor);
+    visited++;
+    if (visited >= limit) {
+      done();
+      return;
+    }
+    cursor.continue();
+  };
+}
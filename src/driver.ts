@@ -0,0 +1,47 @@
+import { UnsupportedEnvironmentError } from './errors';
+import { MemoryFactory, MemoryKeyRange } from './memory';
+
+/**
+ * A storage backend. SimpleIDB talks to it through the IndexedDB API, so a driver supplies an IDBFactory
+ * and the matching IDBKeyRange; ranges passed to a driver's stores must come from its own IDBKeyRange.
+ */
+export interface StorageDriver {
+  /** Shown in error messages, e.g. "indexeddb" or "memory". */
+  readonly name: string;
+  readonly indexedDB: IDBFactory;
+  readonly IDBKeyRange: typeof IDBKeyRange;
+  /** Whether other tabs and workers see the same databases, so committed changes are relayed to them. */
+  readonly shared: boolean;
+}
+
+/** The browser's IndexedDB. */
+export function indexedDBDriver(): StorageDriver {
+  if (typeof globalThis.indexedDB === 'undefined') {
+    throw new UnsupportedEnvironmentError('IndexedDB is not supported in this environment', { operation: 'indexedDBDriver' });
+  }
+  return { name: 'indexeddb', indexedDB: globalThis.indexedDB, IDBKeyRange: globalThis.IDBKeyRange, shared: true };
+}
+
+/**
+ * Keeps databases in memory, following IndexedDB semantics. Each driver is a separate origin: databases
+ * opened through it live as long as the driver and are not visible to other drivers.
+ */
+export function memoryDriver(): StorageDriver {
+  return {
+    name: 'memory',
+    indexedDB: new MemoryFactory() as unknown as IDBFactory,
+    IDBKeyRange: MemoryKeyRange as unknown as typeof IDBKeyRange,
+    shared: false
+  };
+}
+
+let fallbackDriver: StorageDriver | null = null;
+
+/** IndexedDB where available; otherwise (Node, SSR) one in-memory driver shared by every SimpleIDB instance. */
+export function defaultDriver(): StorageDriver {
+  if (typeof globalThis.indexedDB !== 'undefined') {
+    return indexedDBDriver();
+  }
+  fallbackDriver ??= memoryDriver();
+  return fallbackDriver;
+}
@@ -0,0 +1,323 @@
+import { DataError } from './errors';
+import { KeyPath } from './keyPath';
+
+export const DUMP_FORMAT = 'simple-idb-dump';
+export const DUMP_FORMAT_VERSION = 1;
+
+export interface IndexDump {
+  name: string;
+  keyPath: KeyPath;
+  unique: boolean;
+  multiEntry: boolean;
+}
+
+export interface StoreDump {
+  name: string;
+  keyPath: KeyPath | null;
+  autoIncrement: boolean;
+  indexes: IndexDump[];
+  /** Encoded records. `key` is only present for stores without a keyPath. */
+  records: Array<{ key?: unknown; value: unknown }>;
+}
+
+/**
+ * A whole database as plain JSON. Values JSON cannot represent (Date, Map, Set, BigInt, binary data, ...)
+ * are stored as `{ $type, ... }` objects; a record that has its own `$type` property is wrapped as
+ * `{ $type: 'Object', value }` so it is never mistaken for one.
+ */
+export interface DatabaseDump {
+  format: typeof DUMP_FORMAT;
+  formatVersion: number;
+  name: string;
+  version: number;
+  exportedAt: string;
+  stores: StoreDump[];
+}
+
+const typedArrays = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array
+};
+
+type TypedArrayName = keyof typeof typedArrays;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked, since String.fromCharCode() takes its bytes as arguments.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer as ArrayBuffer;
+}
+
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer();
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Encodes values into JSON-safe form. Async because Blob contents can only be read asynchronously; blobs
+ * are read in parallel and patched into the result.
+ */
+export async function encodeValues(values: unknown[]): Promise<unknown[]> {
+  const pending: Promise<void>[] = [];
+
+  const encode = (value: unknown): unknown => {
+    switch (typeof value) {
+      case 'undefined':
+        return { $type: 'undefined' };
+      case 'bigint':
+        return { $type: 'BigInt', value: value.toString() };
+      case 'number':
+        if (!Number.isFinite(value) || Object.is(value, -0)) {
+          return { $type: 'Number', value: String(Object.is(value, -0) ? '-0' : value) };
+        }
+        return value;
+      case 'string':
+      case 'boolean':
+        return value;
+      case 'object':
+        break;
+      default:
+        throw new DataError(`Cannot export a value of type ${typeof value}.`, { operation: 'exportDatabase' });
+    }
+    if (value === null) {
+      return null;
+    }
+    if (Array.isArray(value)) {
+      return value.map(encode);
+    }
+    if (ArrayBuffer.isView(value)) {
+      const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+      const type = value instanceof DataView ? 'DataView' : value.constructor.name;
+      return { $type: type, value: toBase64(bytes) };
+    }
+    // Checked by tag rather than instanceof, so values from other realms (iframes, workers) are recognized.
+    switch (Object.prototype.toString.call(value).slice(8, -1)) {
+      case 'Date': {
+        const time = (value as Date).getTime();
+        return { $type: 'Date', value: Number.isNaN(time) ? null : new Date(time).toISOString() };
+      }
+      case 'RegExp':
+        return { $type: 'RegExp', source: (value as RegExp).source, flags: (value as RegExp).flags };
+      case 'Map':
+        return { $type: 'Map', value: Array.from(value as Map<unknown, unknown>, ([key, entry]) => [encode(key), encode(entry)]) };
+      case 'Set':
+        return { $type: 'Set', value: Array.from(value as Set<unknown>, encode) };
+      case 'ArrayBuffer':
+        return { $type: 'ArrayBuffer', value: toBase64(new Uint8Array(value as ArrayBuffer)) };
+      case 'Blob':
+      case 'File': {
+        const blob = value as Blob;
+        const encoded: Record<string, unknown> = { $type: 'Blob', mimeType: blob.type, value: '' };
+        if ('name' in blob && 'lastModified' in blob) {
+          Object.assign(encoded, { $type: 'File', fileName: (blob as File).name, lastModified: (blob as File).lastModified });
+        }
+        pending.push(readBlob(blob).then((buffer) => {
+          encoded.value = toBase64(new Uint8Array(buffer));
+        }));
+        return encoded;
+      }
+    }
+    const entries: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+      entries[key] = encode(entry);
+    }
+    return '$type' in entries ? { $type: 'Object', value: entries } : entries;
+  };
+
+  const encoded = values.map(encode);
+  await Promise.all(pending);
+  return encoded;
+}
+
+/** Reverses encodeValues(). `path` names the value in error messages, e.g. `stores[0].records[3].value`. */
+export function decodeValue(value: unknown, path: string): unknown {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry, i) => decodeValue(entry, `${path}[${i}]`));
+  }
+  const tagged = value as { $type?: unknown; value?: unknown; [key: string]: unknown };
+  if (!('$type' in tagged)) {
+    const entries: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(tagged)) {
+      entries[key] = decodeValue(entry, `${path}.${key}`);
+    }
+    return entries;
+  }
+
+  const invalid = () => new DataError(`Invalid dump: ${path} is not a valid ${String(tagged.$type)} value.`, { operation: 'importDatabase' });
+  const string = (field: unknown): string => {
+    if (typeof field !== 'string') {
+      throw invalid();
+    }
+    return field;
+  };
+  const buffer = () => {
+    try {
+      return fromBase64(string(tagged.value));
+    } catch {
+      throw invalid();
+    }
+  };
+
+  switch (tagged.$type) {
+    case 'undefined':
+      return undefined;
+    case 'Object':
+      if (typeof tagged.value !== 'object' || tagged.value === null || Array.isArray(tagged.value)) {
+        throw invalid();
+      }
+      return Object.fromEntries(Object.entries(tagged.value).map(([key, entry]) => [key, decodeValue(entry, `${path}.${key}`)]));
+    case 'Number':
+      return string(tagged.value) === '-0' ? -0 : Number(tagged.value);
+    case 'BigInt':
+      try {
+        return BigInt(string(tagged.value));
+      } catch {
+        throw invalid();
+      }
+    case 'Date':
+      return new Date(tagged.value === null ? NaN : string(tagged.value));
+    case 'RegExp':
+      return new RegExp(string(tagged.source), string(tagged.flags));
+    case 'Map':
+      if (!Array.isArray(tagged.value)) {
+        throw invalid();
+      }
+      return new Map(tagged.value.map((entry, i) => {
+        if (!Array.isArray(entry) || entry.length !== 2) {
+          throw invalid();
+        }
+        return [decodeValue(entry[0], `${path}.value[${i}][0]`), decodeValue(entry[1], `${path}.value[${i}][1]`)];
+      }));
+    case 'Set':
+      if (!Array.isArray(tagged.value)) {
+        throw invalid();
+      }
+      return new Set(tagged.value.map((entry, i) => decodeValue(entry, `${path}.value[${i}]`)));
+    case 'ArrayBuffer':
+      return buffer();
+    case 'DataView':
+      return new DataView(buffer());
+    case 'Blob':
+      return new Blob([buffer()], { type: string(tagged.mimeType) });
+    case 'File':
+      if (typeof File === 'undefined') {
+        return new Blob([buffer()], { type: string(tagged.mimeType) });
+      }
+      return new File([buffer()], string(tagged.fileName), { type: string(tagged.mimeType), lastModified: Number(tagged.lastModified) });
+    default:
+      if (typeof tagged.$type === 'string' && Object.prototype.hasOwnProperty.call(typedArrays, tagged.$type)) {
+        const TypedArray = typedArrays[tagged.$type as TypedArrayName];
+        const bytes = buffer();
+        if (bytes.byteLength % TypedArray.BYTES_PER_ELEMENT !== 0) {
+          throw invalid();
+        }
+        return new TypedArray(bytes);
+      }
+      throw new DataError(`Invalid dump: ${path} has unknown type "${String(tagged.$type)}".`, { operation: 'importDatabase' });
+  }
+}
+
+function isKeyPath(value: unknown): value is KeyPath {
+  return typeof value === 'string' || (Array.isArray(value) && value.length > 0 && value.every((part) => typeof part === 'string'));
+}
+
+/** Checks the structure of a parsed dump, so that an import fails before it changes anything. */
+export function validateDump(dump: unknown): asserts dump is DatabaseDump {
+  const fail = (problem: string) => new DataError(`Invalid dump: ${problem}.`, { operation: 'importDatabase' });
+  const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (!isObject(dump) || dump.format !== DUMP_FORMAT) {
+    throw fail(`expected an object with format "${DUMP_FORMAT}"`);
+  }
+  if (typeof dump.formatVersion !== 'number' || dump.formatVersion > DUMP_FORMAT_VERSION || dump.formatVersion < 1) {
+    throw fail(`format version ${String(dump.formatVersion)} is not supported (supported: 1 to ${DUMP_FORMAT_VERSION})`);
+  }
+  if (!Number.isInteger(dump.version) || (dump.version as number) < 1) {
+    throw fail('version must be a positive integer');
+  }
+  if (!Array.isArray(dump.stores)) {
+    throw fail('stores must be an array');
+  }
+  const storeNames = new Set<string>();
+  dump.stores.forEach((store: unknown, i) => {
+    const path = `stores[${i}]`;
+    if (!isObject(store) || typeof store.name !== 'string') {
+      throw fail(`${path}.name must be a string`);
+    }
+    if (storeNames.has(store.name)) {
+      throw fail(`object store "${store.name}" appears twice`);
+    }
+    storeNames.add(store.name);
+    if (store.keyPath !== null && !isKeyPath(store.keyPath)) {
+      throw fail(`${path}.keyPath must be a string, an array of strings or null`);
+    }
+    if (typeof store.autoIncrement !== 'boolean') {
+      throw fail(`${path}.autoIncrement must be a boolean`);
+    }
+    if (!Array.isArray(store.indexes)) {
+      throw fail(`${path}.indexes must be an array`);
+    }
+    store.indexes.forEach((index: unknown, j) => {
+      const indexPath = `${path}.indexes[${j}]`;
+      if (!isObject(index) || typeof index.name !== 'string' || !isKeyPath(index.keyPath)) {
+        throw fail(`${indexPath} must have a name and a keyPath`);
+      }
+      if (typeof index.unique !== 'boolean' || typeof index.multiEntry !== 'boolean') {
+        throw fail(`${indexPath}.unique and .multiEntry must be booleans`);
+      }
+    });
+    if (!Array.isArray(store.records)) {
+      throw fail(`${path}.records must be an array`);
+    }
+    store.records.forEach((record: unknown, j) => {
+      if (!isObject(record) || !('value' in record)) {
+        throw fail(`${path}.records[${j}] must have a value`);
+      }
+      if (store.keyPath === null && !store.autoIncrement && !('key' in record)) {
+        throw fail(`${path}.records[${j}] needs a key, since the store has no keyPath`);
+      }
+    });
+  });
+}
+
+export function describeStore(store: IDBObjectStore): Omit<StoreDump, 'records'> {
+  return {
+    name: store.name,
+    keyPath: store.keyPath,
+    autoIncrement: store.autoIncrement,
+    indexes: Array.from(store.indexNames, (name) => {
+      const index = store.index(name);
+      return { name, keyPath: index.keyPath, unique: index.unique, multiEntry: index.multiEntry };
+    })
+  };
+}
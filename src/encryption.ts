@@ -0,0 +1,133 @@
+import { CodecContext, StoredField, ValueCodec, copyFields } from './codec';
+import { decodeValue, encodeValues } from './dump';
+import { CodecError, DataError, UnsupportedEnvironmentError } from './errors';
+import { KeyPath, extractKey, setKeyPath } from './keyPath';
+
+export interface AesGcmCodecOptions {
+  /** AES-GCM keys by id. Records name the key they were encrypted with, so older keys still decrypt after a rotation. */
+  keys: Record<string, CryptoKey>;
+  /** Id of the key in `keys` that new records are encrypted with. */
+  currentKeyId: string;
+  /** Fields stored unencrypted, e.g. fields with a range index. The store's keyPath is always kept. */
+  plaintext?: string[];
+  /** Fields stored as deterministic HMAC tokens instead of their values; indexes on them support equality lookups. */
+  hashed?: string[];
+  /** HMAC key (SHA-256) for the `hashed` fields. */
+  hmacKey?: CryptoKey;
+}
+
+/** Encrypted records keep their ciphertext, the id of the key and the IV under this property. */
+export const ENCRYPTED = '_encrypted';
+
+interface EncryptedPayload {
+  key: string;
+  iv: Uint8Array<ArrayBuffer>;
+  data: Uint8Array<ArrayBuffer>;
+}
+
+function subtleCrypto(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new UnsupportedEnvironmentError('WebCrypto is not available. Encryption needs crypto.subtle, which browsers only expose on secure (https) pages.');
+  }
+  return crypto.subtle;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * A codec that encrypts records with AES-GCM through WebCrypto. The fields of the store's keyPath and
+ * those listed in `plaintext` stay readable, `hashed` fields become HMAC tokens, and the whole record is
+ * encrypted into the `_encrypted` property. Records without that property, written before encryption was
+ * turned on, are read as they are.
+ */
+export function aesGcmCodec(options: AesGcmCodecOptions): ValueCodec {
+  const { keys, currentKeyId } = options;
+  const plaintext = options.plaintext ?? [];
+  const hashed = options.hashed ?? [];
+  if (!keys[currentKeyId]) {
+    throw new DataError(`The current key "${currentKeyId}" is not among the codec's keys.`);
+  }
+  if (hashed.length > 0 && !options.hmacKey) {
+    throw new DataError('Hashed fields need an hmacKey.');
+  }
+
+  const hash = async (key: IDBValidKey): Promise<string> => {
+    const [encoded] = await encodeValues([key]);
+    const signature = await subtleCrypto().sign('HMAC', options.hmacKey!, new TextEncoder().encode(JSON.stringify(encoded)));
+    return toBase64Url(new Uint8Array(signature));
+  };
+
+  return {
+    async encode(value: unknown, context: CodecContext): Promise<unknown> {
+      if (!isRecord(value)) {
+        throw new DataError(`Records in object store "${context.storeName}" must be objects, since the store is encrypted.`, {
+          storeName: context.storeName
+        });
+      }
+      const stored: Record<string, unknown> = {};
+      copyFields(value, stored, [...context.preserve, ...plaintext]);
+      for (const path of hashed) {
+        const field = extractKey(path, value);
+        if (field !== undefined) {
+          setKeyPath(stored, path, await hash(field));
+        }
+      }
+      const [encoded] = await encodeValues([value]);
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const data = await subtleCrypto().encrypt({ name: 'AES-GCM', iv }, keys[currentKeyId], new TextEncoder().encode(JSON.stringify(encoded)));
+      // Copied into fresh arrays, so the stored bytes do not share a buffer with WebCrypto's result.
+      const payload: EncryptedPayload = { key: currentKeyId, iv: Uint8Array.from(iv), data: Uint8Array.from(new Uint8Array(data)) };
+      stored[ENCRYPTED] = payload;
+      return stored;
+    },
+
+    async decode(stored: unknown, context: CodecContext): Promise<unknown> {
+      if (!isRecord(stored) || !isRecord(stored[ENCRYPTED])) {
+        return stored;
+      }
+      const payload = stored[ENCRYPTED] as unknown as EncryptedPayload;
+      const details = { storeName: context.storeName };
+      const key = keys[payload.key];
+      if (!key) {
+        throw new CodecError(`A record in object store "${context.storeName}" was encrypted with key "${payload.key}", which is not among the codec's keys.`, details);
+      }
+      let decrypted: ArrayBuffer;
+      try {
+        decrypted = await subtleCrypto().decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.data);
+      } catch (error) {
+        throw new CodecError(
+          `Cannot decrypt a record in object store "${context.storeName}" with key "${payload.key}": the key is wrong or the record was tampered with.`,
+          { ...details, cause: error }
+        );
+      }
+      const value = decodeValue(JSON.parse(new TextDecoder().decode(decrypted)), 'value') as Record<string, unknown>;
+      // Keys generated by autoIncrement are only set on the stored record, after it was encrypted.
+      copyFields(stored, value, context.preserve);
+      return value;
+    },
+
+    async encodeKey(keyPath: KeyPath, key: IDBValidKey): Promise<IDBValidKey> {
+      if (!Array.isArray(keyPath)) {
+        return hashed.includes(keyPath) ? hash(key) : key;
+      }
+      if (!Array.isArray(key)) {
+        return key;
+      }
+      return Promise.all(keyPath.map((path, i) => (hashed.includes(path) ? hash(key[i]) : key[i])));
+    },
+
+    storedAs(path: string, context: CodecContext): StoredField {
+      const within = (fields: string[]) => fields.some((field) => path === field || path.startsWith(`${field}.`));
+      if (within(hashed)) {
+        return 'key';
+      }
+      return within([...context.preserve, ...plaintext]) ? 'plain' : 'encoded';
+    }
+  };
+}
@@ -0,0 +1,99 @@
+export interface ErrorDetails {
+  /** The SimpleIDB method that failed, e.g. `'add'` or `'getAll'`. */
+  operation?: string;
+  storeName?: string;
+  key?: IDBValidKey;
+  /** The underlying error, usually the DOMException reported by IndexedDB. */
+  cause?: unknown;
+}
+
+/** Base class for every error thrown by SimpleIDB. */
+export class SimpleIDBError extends Error {
+  readonly operation?: string;
+  readonly storeName?: string;
+  readonly key?: IDBValidKey;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.operation = details.operation;
+    this.storeName = details.storeName;
+    this.key = details.key;
+    this.cause = details.cause;
+  }
+}
+
+/** A write broke a uniqueness constraint: a duplicate primary key on `add()` or a duplicate unique index key. */
+export class ConstraintError extends SimpleIDBError {}
+
+/** The object store or index does not exist. */
+export class NotFoundError extends SimpleIDBError {}
+
+/** The browser refused the write because the origin ran out of storage quota. */
+export class QuotaExceededError extends SimpleIDBError {}
+
+/** The requested version is lower than the stored one, or the upgrade path is incomplete. */
+export class VersionError extends SimpleIDBError {}
+
+/** A key, key range or key path was invalid, e.g. a record without a value at the store's keyPath. */
+export class DataError extends SimpleIDBError {}
+
+/** The database is not open, or the connection was closed. */
+export class DatabaseClosedError extends SimpleIDBError {}
+
+/** `open()` stayed blocked by connections in other tabs for longer than `blockedTimeout`. */
+export class DatabaseBlockedError extends SimpleIDBError {}
+
+/** IndexedDB is not available in this environment. */
+export class UnsupportedEnvironmentError extends SimpleIDBError {}
+
+/** A request was made on a transaction that already committed or aborted. */
+export class TransactionInactiveError extends SimpleIDBError {}
+
+/** A record could not be encoded or decoded by the store's codec, e.g. decrypted with the wrong key. */
+export class CodecError extends SimpleIDBError {}
+
+export interface ValidationIssue {
+  /** Dotted path of the failing field, e.g. `'tags.0'`; empty for the record itself. */
+  path: string;
+  message: string;
+}
+
+/** A record was rejected by its store's validator. */
+export class ValidationError extends DataError {
+  constructor(
+    message: string,
+    readonly issues: ValidationIssue[],
+    details: ErrorDetails = {}
+  ) {
+    super(message, details);
+  }
+}
+
+const errorClasses: Record<string, typeof SimpleIDBError> = {
+  ConstraintError,
+  NotFoundError,
+  QuotaExceededError,
+  VersionError,
+  DataError,
+  TransactionInactiveError
+};
+
+/**
+ * Wraps an error reported by IndexedDB in the matching SimpleIDB error class, keeping the original as
+ * `cause`. The message reads `<message>: <original message>`.
+ */
+export function toSimpleIDBError(error: unknown, message: string, details: ErrorDetails = {}): SimpleIDBError {
+  if (error instanceof SimpleIDBError) {
+    return error;
+  }
+  const name = (error as { name?: string } | null)?.name ?? '';
+  const ErrorClass = errorClasses[name] ?? SimpleIDBError;
+  const reason = (error as { message?: string } | null)?.message || 'Unknown error';
+  return new ErrorClass(`${message}: ${reason}`, { ...details, cause: error ?? undefined });
+}
+
+export function databaseNotOpen(details: ErrorDetails = {}): DatabaseClosedError {
+  return new DatabaseClosedError('Database not open. Call open() first.', details);
+}
@@ -1,4 +1,53 @@
-import SimpleIDB, { IDBKey, IndexOptions, StoreOptions } from './index';
+import { IDBFactory, IDBKeyRange as FakeIDBKeyRange, forceCloseDatabase } from 'fake-indexeddb';
+import SimpleIDB, {
+  ChangeEvent,
+  CodecError,
+  ConnectionState,
+  ConstraintError,
+  DataError,
+  DatabaseBlockedError,
+  DatabaseClosedError,
+  DELETE_RECORD,
+  ENCRYPTED,
+  IDBKey,
+  IndexOptions,
+  KeyValueStore,
+  LazyOpenOptions,
+  MigrationContext,
+  NotFoundError,
+  Page,
+  PageOptions,
+  SimpleIDBError,
+  SimpleIDBPlugin,
+  StoreOptions,
+  JSONSchema,
+  TransactionInactiveError,
+  UnsupportedEnvironmentError,
+  ValidationError,
+  VersionError,
+  aesGcmCodec,
+  indexedDBDriver,
+  kv,
+  memoryDriver
+} from './index';
+import { decodeValue, encodeValues } from './dump';
+
+interface User {
+  id: number;
+  name: string;
+  email: string;
+  age: number;
+}
+
+interface Post {
+  slug: string;
+  title: string;
+}
+
+interface AppSchema {
+  users: { value: User; key: number; indexes: { email: string; age: number } };
+  posts: { value: Post; key: string };
+}
 
 interface MockIndexInfo {
   keyPath: string;
@@ -30,8 +79,30 @@ interface MockObjectStore {
 
 interface MockUpgradeTransaction {
   objectStore: jest.Mock;
+  abort: jest.Mock;
+  aborted: boolean;
 }
 
+type Backend = 'fake-indexeddb' | 'memory';
+
+// The hand-written mock below only covers single-request store operations.
+// Features that need real key ordering, indexes or cursors run against fake-indexeddb, and most of them
+// run again against the memory driver installed as the global IndexedDB.
+const useFakeIndexedDB = (backend: Backend = 'fake-indexeddb') => {
+  beforeEach(() => {
+    const driver = backend === 'memory' ? memoryDriver() : { indexedDB: new IDBFactory(), IDBKeyRange: FakeIDBKeyRange };
+    (global as any).indexedDB = driver.indexedDB;
+    (global as any).IDBKeyRange = driver.IDBKeyRange;
+  });
+};
+
+const describeOnBackends = (name: string, suite: (backend: Backend) => void) => {
+  describe.each<Backend>(['fake-indexeddb', 'memory'])(`${name} (%s)`, (backend) => {
+    useFakeIndexedDB(backend);
+    suite(backend);
+  });
+};
+
 describe('SimpleIDB', () => {
   let idb: SimpleIDB;
   let mockStores: Map<string, Map<IDBKey, unknown>>;
@@ -49,6 +120,10 @@ describe('SimpleIDB', () => {
 
     // Create mock upgrade transaction
     mockUpgradeTransaction = {
+      aborted: false,
+      abort: jest.fn(() => {
+        mockUpgradeTransaction.aborted = true;
+      }),
       objectStore: jest.fn((storeName: string) => {
         const store = mockStores.get(storeName) || new Map();
         if (!mockIndexes.has(storeName)) {
@@ -59,6 +134,10 @@ describe('SimpleIDB', () => {
           indexNames: {
             contains: (indexName: string) => indexes.has(indexName)
           },
+          index: jest.fn((indexName: string) => {
+            const info = indexes.get(indexName)!;
+            return { name: indexName, keyPath: info.keyPath, unique: !!info.unique, multiEntry: !!info.multiEntry };
+          }),
           createIndex: jest.fn((indexName: string, keyPath: string, options?: IndexOptions) => {
             if (!indexes.has(indexName)) {
               indexes.set(indexName, { keyPath, ...options });
@@ -74,6 +153,7 @@ describe('SimpleIDB', () => {
         const db: any = {
           name,
           version: version || 1,
+          addEventListener: jest.fn(),
           objectStoreNames: {
             contains: (storeName: string) => mockObjectStoreNames.has(storeName),
             length: mockObjectStoreNames.size,
@@ -91,11 +171,15 @@ describe('SimpleIDB', () => {
             return { name: storeName };
           }),
           transaction: jest.fn((storeNames: string[], mode: 'readonly' | 'readwrite') => {
-            return {
+            const transaction: any = {
+              addEventListener: jest.fn(),
               objectStore: jest.fn((storeName: string) => {
                 const store = mockStores.get(storeName) || new Map();
                 const opts = storeOptions.get(storeName) || {};
                 return {
+                  name: storeName,
+                  transaction,
+                  indexNames: [],
                   add: jest.fn((data: unknown) => {
                     const key: IDBKey = opts.keyPath && typeof data === 'object' && data !== null
                       ? (data as Record<string, IDBKey>)[opts.keyPath]
@@ -148,6 +232,7 @@ describe('SimpleIDB', () => {
                 };
               })
             };
+            return transaction;
           }),
           close: jest.fn()
         };
@@ -180,9 +265,13 @@ describe('SimpleIDB', () => {
           });
         }
         
-        // Call onsuccess asynchronously
+        // Call onsuccess asynchronously, or onerror if the upgrade was aborted
+        mockUpgradeTransaction.aborted = false;
         Promise.resolve().then(() => {
-          if (request.onsuccess) {
+          if (mockUpgradeTransaction.aborted) {
+            request.error = new Error('Version change transaction was aborted');
+            request.onerror?.({ target: request });
+          } else if (request.onsuccess) {
             request.onsuccess({ target: request });
           }
         });
@@ -211,9 +300,15 @@ describe('SimpleIDB', () => {
       expect(upgradeCallback).toHaveBeenCalled();
     });
 
-    it('should reject if IndexedDB is not available', async () => {
+    it('should fall back to the in-memory driver if IndexedDB is not available', async () => {
       delete (global as any).indexedDB;
-      await expect(idb.open('test-db', 1)).rejects.toThrow('IndexedDB is not supported');
+      await idb.open('fallback-db', 1, () => idb.createStore('items', { keyPath: 'id' }));
+      await idb.put('items', { id: 1 });
+      // Instances without a driver share one in-memory origin, like tabs share IndexedDB.
+      const other = new SimpleIDB();
+      await other.open('fallback-db', 1);
+      await expect(other.get('items', 1)).resolves.toEqual({ id: 1 });
+      other.close();
       (global as any).indexedDB = { open: jest.fn() };
     });
   });
@@ -422,6 +517,14 @@ describe('SimpleIDB', () => {
       expect(mockIndexes.get('users')?.has('email')).toBe(true);
     });
 
+    it('should report an existing index with different options', async () => {
+      await expect(idb.open('test-db', 1, () => {
+        idb.createStore('users', { keyPath: 'id' });
+        idb.createIndex('users', 'email', 'email');
+        idb.createIndex('users', 'email', 'email', { unique: true });
+      })).rejects.toThrow('Index "email" on object store "users" already exists with different options (unique: false, requested true)');
+    });
+
     it('should throw if database is not open', () => {
       expect(() => idb.createIndex('users', 'email', 'email')).toThrow('Database not open');
     });
@@ -439,5 +542,2807 @@ describe('SimpleIDB', () => {
       expect(() => idb.createIndex('users', 'email', 'email')).toThrow('createIndex must be called within the upgradeCallback');
     });
   });
-});
 
+  describeOnBackends('index queries', () => {
+
+    beforeEach(async () => {
+      await idb.open('test-db', 1, () => {
+        idb.createStore('users', { keyPath: 'id' });
+        idb.createIndex('users', 'email', 'email', { unique: true });
+        idb.createIndex('users', 'age', 'age');
+      });
+      await idb.add('users', { id: 1, name: 'John', email: 'john@example.com', age: 30 });
+      await idb.add('users', { id: 2, name: 'Jane', email: 'jane@example.com', age: 25 });
+      await idb.add('users', { id: 3, name: 'Jack', email: 'jack@example.com', age: 30 });
+    });
+
+    it('should get a record by index key', async () => {
+      const user = await idb.getByIndex<{ id: number; name: string }>('users', 'email', 'jane@example.com');
+      expect(user?.name).toBe('Jane');
+    });
+
+    it('should return undefined when no record matches', async () => {
+      await expect(idb.getByIndex('users', 'email', 'nobody@example.com')).resolves.toBeUndefined();
+    });
+
+    it('should get all records by index key', async () => {
+      const users = await idb.getAllByIndex<{ id: number }>('users', 'age', 30);
+      expect(users.map((u) => u.id)).toEqual([1, 3]);
+    });
+
+    it('should get all records by index key range with a count', async () => {
+      const users = await idb.getAllByIndex<{ id: number }>('users', 'age', IDBKeyRange.lowerBound(25), 2);
+      expect(users.map((u) => u.id)).toEqual([2, 1]);
+    });
+
+    it('should get all records ordered by index when no query is given', async () => {
+      const users = await idb.getAllByIndex<{ id: number }>('users', 'email');
+      expect(users.map((u) => u.id)).toEqual([3, 2, 1]);
+    });
+
+    it('should get the primary key by index key', async () => {
+      await expect(idb.getKeyByIndex('users', 'email', 'jack@example.com')).resolves.toBe(3);
+    });
+
+    it('should count records by index', async () => {
+      await expect(idb.countByIndex('users', 'age', 30)).resolves.toBe(2);
+      await expect(idb.countByIndex('users', 'age')).resolves.toBe(3);
+    });
+
+    it('should throw if index does not exist', async () => {
+      await expect(idb.getByIndex('users', 'name', 'John')).rejects.toThrow('Index "name" does not exist on object store "users"');
+      await expect(idb.getAllByIndex('users', 'name')).rejects.toThrow('Index "name" does not exist');
+      await expect(idb.getKeyByIndex('users', 'name', 'John')).rejects.toThrow('Index "name" does not exist');
+      await expect(idb.countByIndex('users', 'name')).rejects.toThrow('Index "name" does not exist');
+    });
+
+    it('should throw if database is not open', async () => {
+      idb.close();
+      await expect(idb.getByIndex('users', 'email', 'john@example.com')).rejects.toThrow('Database not open');
+      await expect(idb.getAllByIndex('users', 'age')).rejects.toThrow('Database not open');
+      await expect(idb.getKeyByIndex('users', 'email', 'john@example.com')).rejects.toThrow('Database not open');
+      await expect(idb.countByIndex('users', 'age')).rejects.toThrow('Database not open');
+    });
+  });
+
+  describeOnBackends('range queries', () => {
+
+    beforeEach(async () => {
+      await idb.open('test-db', 1, () => {
+        idb.createStore('items', { keyPath: 'id' });
+        idb.createStore('words', { keyPath: 'word' });
+        idb.createIndex('items', 'group', 'group');
+      });
+      for (let id = 1; id <= 10; id++) {
+        await idb.add('items', { id, group: id % 2 === 0 ? 'even' : 'odd' });
+      }
+      for (const word of ['apple', 'apricot', 'banana', 'ap']) {
+        await idb.add('words', { word });
+      }
+    });
+
+    const ids = (records: { id: number }[]) => records.map((r) => r.id);
+
+    it('should get records above a key', async () => {
+      expect(ids(await idb.getAll('items', { range: { type: 'above', lower: 8 } }))).toEqual([8, 9, 10]);
+      expect(ids(await idb.getAll('items', { range: { type: 'above', lower: 8, open: true } }))).toEqual([9, 10]);
+    });
+
+    it('should get records below a key', async () => {
+      expect(ids(await idb.getAll('items', { range: { type: 'below', upper: 3 } }))).toEqual([1, 2, 3]);
+      expect(ids(await idb.getAll('items', { range: { type: 'below', upper: 3, open: true } }))).toEqual([1, 2]);
+    });
+
+    it('should get records between two keys', async () => {
+      const range = { type: 'between', lower: 3, upper: 6, lowerOpen: true } as const;
+      expect(ids(await idb.getAll('items', { range }))).toEqual([4, 5, 6]);
+    });
+
+    it('should get records matching a single key', async () => {
+      expect(ids(await idb.getAll('items', { range: { type: 'only', value: 4 } }))).toEqual([4]);
+    });
+
+    it('should get records by string prefix', async () => {
+      const words = await idb.getAll<{ word: string }>('words', { range: { type: 'prefix', prefix: 'ap' } });
+      expect(words.map((w) => w.word)).toEqual(['ap', 'apple', 'apricot']);
+    });
+
+    it('should accept a native IDBKeyRange', async () => {
+      expect(ids(await idb.getAll('items', { range: IDBKeyRange.bound(2, 3) }))).toEqual([2, 3]);
+    });
+
+    it('should apply limit, offset and direction', async () => {
+      expect(ids(await idb.getAll('items', { limit: 3 }))).toEqual([1, 2, 3]);
+      expect(ids(await idb.getAll('items', { offset: 2, limit: 3 }))).toEqual([3, 4, 5]);
+      expect(ids(await idb.getAll('items', { direction: 'prev', limit: 2 }))).toEqual([10, 9]);
+      expect(ids(await idb.getAll('items', { direction: 'prev', offset: 8 }))).toEqual([2, 1]);
+      expect(ids(await idb.getAll('items', { offset: 20 }))).toEqual([]);
+      expect(await idb.getAll('items', { limit: 0 })).toEqual([]);
+    });
+
+    it('should get keys with range and options', async () => {
+      expect(await idb.getAllKeys('items', { range: { type: 'above', lower: 7 } })).toEqual([7, 8, 9, 10]);
+      expect(await idb.getAllKeys('items', { direction: 'prev', offset: 1, limit: 2 })).toEqual([9, 8]);
+    });
+
+    it('should count records in a range', async () => {
+      await expect(idb.count('items', { type: 'between', lower: 2, upper: 5 })).resolves.toBe(4);
+      await expect(idb.count('items')).resolves.toBe(10);
+    });
+
+    it('should delete a range of records', async () => {
+      await expect(idb.deleteRange('items', { type: 'above', lower: 6 })).resolves.toBe(5);
+      expect(await idb.getAllKeys('items')).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should delete a limited range of records through a cursor', async () => {
+      await expect(idb.deleteRange('items', { type: 'above', lower: 1 }, { direction: 'prev', limit: 3 })).resolves.toBe(3);
+      expect(await idb.getAllKeys('items')).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      await expect(idb.deleteRange('items', { type: 'above', lower: 1 }, { offset: 1, limit: 2 })).resolves.toBe(2);
+      expect(await idb.getAllKeys('items')).toEqual([1, 4, 5, 6, 7]);
+    });
+
+    it('should reject an unknown range type', async () => {
+      await expect(idb.getAll('items', { range: { type: 'around' } as never })).rejects.toThrow('Unknown key range type "around"');
+    });
+
+    it('should accept range descriptors in index queries', async () => {
+      expect(await idb.countByIndex('items', 'group', { type: 'only', value: 'even' })).toBe(5);
+      const odd = await idb.getAllByIndex<{ id: number }>('items', 'group', { type: 'prefix', prefix: 'o' });
+      expect(ids(odd)).toEqual([1, 3, 5, 7, 9]);
+    });
+
+    it('should throw if database is not open', async () => {
+      idb.close();
+      await expect(idb.getAllKeys('items')).rejects.toThrow('Database not open');
+      await expect(idb.deleteRange('items', { type: 'above', lower: 1 })).rejects.toThrow('Database not open');
+    });
+  });
+
+  describeOnBackends('compound keys', () => {
+
+    interface Member {
+      tenantId: string;
+      id: number;
+      firstName: string;
+      lastName: string;
+      address: { city: string };
+    }
+
+    interface TenantSchema {
+      members: { value: Member; keyPath: ['tenantId', 'id']; indexes: { name: [string, string]; city: string } };
+    }
+
+    let db: SimpleIDB<TenantSchema>;
+
+    const member = (tenantId: string, id: number, firstName: string, lastName: string, city: string): Member =>
+      ({ tenantId, id, firstName, lastName, address: { city } });
+
+    beforeEach(async () => {
+      db = new SimpleIDB<TenantSchema>();
+      await db.open('compound-db', 1, () => {
+        db.createStore('members', { keyPath: ['tenantId', 'id'] });
+        db.createIndex('members', 'name', ['lastName', 'firstName']);
+        db.createIndex('members', 'city', 'address.city');
+      });
+      await db.putMany('members', [
+        member('acme', 2, 'Ann', 'Smith', 'Oslo'),
+        member('acme', 1, 'Bob', 'Jones', 'Rome'),
+        member('beta', 1, 'Cid', 'Smith', 'Oslo'),
+        member('beta', 3, 'Ann', 'Adams', 'Lima')
+      ]);
+    });
+
+    afterEach(() => db.close());
+
+    const ids = (members: Member[]) => members.map((m) => `${m.tenantId}/${m.id}`);
+
+    it('should read and delete records by tuple key', async () => {
+      await expect(db.get('members', ['acme', 2])).resolves.toMatchObject({ firstName: 'Ann' });
+      await expect(db.getAllKeys('members')).resolves.toEqual([['acme', 1], ['acme', 2], ['beta', 1], ['beta', 3]]);
+      await db.delete('members', ['acme', 2]);
+      await db.deleteMany('members', [['beta', 1]]);
+      await expect(db.getAllKeys('members')).resolves.toEqual([['acme', 1], ['beta', 3]]);
+    });
+
+    it('should query ranges and prefixes of compound keys', async () => {
+      expect(ids(await db.getAll('members', { range: { type: 'prefix', prefix: ['beta'] } }))).toEqual(['beta/1', 'beta/3']);
+      expect(ids(await db.getAll('members', { range: { type: 'between', lower: ['acme', 2], upper: ['beta', 1] } }))).toEqual(['acme/2', 'beta/1']);
+      await expect(db.count('members', { type: 'prefix', prefix: ['acme'] })).resolves.toBe(2);
+      await expect(db.deleteRange('members', { type: 'prefix', prefix: ['acme'] })).resolves.toBe(2);
+      await expect(db.count('members')).resolves.toBe(2);
+    });
+
+    it('should query compound and nested indexes', async () => {
+      await expect(db.getKeyByIndex('members', 'name', ['Smith', 'Cid'])).resolves.toEqual(['beta', 1]);
+      expect(ids(await db.getAllByIndex('members', 'name', { type: 'prefix', prefix: ['Smith'] }))).toEqual(['acme/2', 'beta/1']);
+      await expect(db.countByIndex('members', 'city', 'Oslo')).resolves.toBe(2);
+    });
+
+    it('should page and iterate over compound keys', async () => {
+      const first = await db.page('members', { index: 'name', pageSize: 3 });
+      const second = await db.page('members', { index: 'name', pageSize: 3, after: first.nextToken });
+      expect(ids([...first.items, ...second.items])).toEqual(['beta/3', 'acme/1', 'acme/2', 'beta/1']);
+      const keys: IDBKey[] = [];
+      for await (const entry of db.iterate('members', { direction: 'prev', batchSize: 1 })) {
+        keys.push(entry.primaryKey);
+      }
+      expect(keys).toEqual([['beta', 3], ['beta', 1], ['acme', 2], ['acme', 1]]);
+    });
+
+    it('should infer tuple keys from the schema', async () => {
+      const keys: [string, number][] = await db.getAllKeys('members');
+      expect(keys).toHaveLength(4);
+      const typeErrors = async () => {
+        // @ts-expect-error members are keyed by [tenantId, id]
+        await db.get('members', 'acme');
+        // @ts-expect-error the id part is a number
+        await db.delete('members', ['acme', '1']);
+      };
+      expect(typeErrors).toBeDefined();
+    });
+
+    it('should reject autoIncrement and multiEntry on compound key paths', async () => {
+      db.close();
+      await expect(db.open('compound-db', 2, () => {
+        db.recreateStore('members', { keyPath: ['tenantId', 'id'], autoIncrement: true });
+      })).rejects.toThrow(DataError);
+      await expect(db.open('compound-db', 2, () => {
+        db.recreateIndex('members', 'name', ['firstName', 'lastName'], { multiEntry: true });
+      })).rejects.toThrow(DataError);
+    });
+
+    it('should work with compound key paths on the memory driver', async () => {
+      const memory = new SimpleIDB({ driver: memoryDriver() });
+      await memory.open('memory-db', 1, () => {
+        memory.createStore('members', { keyPath: ['tenantId', 'id'] });
+        memory.createIndex('members', 'name', ['lastName', 'firstName']);
+      });
+      await memory.putMany('members', [member('acme', 1, 'Bob', 'Jones', 'Rome'), member('acme', 2, 'Ann', 'Smith', 'Oslo')]);
+      await expect(memory.get('members', ['acme', 1])).resolves.toMatchObject({ firstName: 'Bob' });
+      await expect(memory.getKeyByIndex('members', 'name', ['Smith', 'Ann'])).resolves.toEqual(['acme', 2]);
+      await expect(memory.getAllKeys('members', { range: { type: 'prefix', prefix: ['acme'] } })).resolves.toHaveLength(2);
+      memory.close();
+    });
+  });
+
+  describeOnBackends('iterate', () => {
+
+    interface Person {
+      id: number;
+      age: number;
+    }
+
+    beforeEach(async () => {
+      await idb.open('test-db', 1, () => {
+        idb.createStore('people', { keyPath: 'id' });
+        idb.createStore('notes');
+        idb.createIndex('people', 'age', 'age');
+      });
+      for (let id = 1; id <= 12; id++) {
+        await idb.add('people', { id, age: 20 + (id % 3) });
+      }
+    });
+
+    const collect = async <T>(iterator: AsyncIterable<{ value: T }>): Promise<T[]> => {
+      const values: T[] = [];
+      for await (const entry of iterator) {
+        values.push(entry.value);
+      }
+      return values;
+    };
+
+    it('should iterate over a store in key order across batches', async () => {
+      const people = await collect(idb.iterate<Person>('people', { batchSize: 5 }));
+      expect(people.map((p) => p.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    });
+
+    it('should iterate in reverse within a range', async () => {
+      const people = await collect(idb.iterate<Person>('people', {
+        range: { type: 'between', lower: 3, upper: 8 },
+        direction: 'prev',
+        batchSize: 2
+      }));
+      expect(people.map((p) => p.id)).toEqual([8, 7, 6, 5, 4, 3]);
+    });
+
+    it('should iterate over an index with duplicate keys across batches', async () => {
+      const people = await collect(idb.iterate<Person>('people', { index: 'age', batchSize: 3 }));
+      expect(people.map((p) => [p.age, p.id])).toEqual([
+        [20, 3], [20, 6], [20, 9], [20, 12],
+        [21, 1], [21, 4], [21, 7], [21, 10],
+        [22, 2], [22, 5], [22, 8], [22, 11]
+      ]);
+    });
+
+    it('should iterate over an index in reverse and unique directions', async () => {
+      const reversed = await collect(idb.iterate<Person>('people', { index: 'age', direction: 'prev', batchSize: 5, range: { type: 'only', value: 21 } }));
+      expect(reversed.map((p) => p.id)).toEqual([10, 7, 4, 1]);
+      const unique = await collect(idb.iterate<Person>('people', { index: 'age', direction: 'nextunique', batchSize: 1 }));
+      expect(unique.map((p) => p.id)).toEqual([3, 1, 2]);
+    });
+
+    it('should expose index and primary keys', async () => {
+      const iterator = idb.iterate<Person>('people', { index: 'age' });
+      const { value: entry } = await iterator.next();
+      expect(entry).toMatchObject({ key: 20, primaryKey: 3 });
+      await iterator.return();
+    });
+
+    it('should survive awaiting non-IndexedDB work inside the loop', async () => {
+      const ids: number[] = [];
+      for await (const entry of idb.iterate<Person>('people', { batchSize: 4 })) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        ids.push(entry.value.id);
+      }
+      expect(ids).toHaveLength(12);
+    });
+
+    it('should stop early when the loop breaks', async () => {
+      const ids: number[] = [];
+      for await (const entry of idb.iterate<Person>('people')) {
+        ids.push(entry.value.id);
+        if (ids.length === 2) break;
+      }
+      expect(ids).toEqual([1, 2]);
+    });
+
+    it('should update and delete the current record in readwrite mode', async () => {
+      for await (const entry of idb.iterate<Person>('people', { mode: 'readwrite', batchSize: 5 })) {
+        if (entry.value.id % 2 === 0) {
+          await entry.delete();
+        } else {
+          await entry.update({ ...entry.value, age: 99 });
+        }
+      }
+      const remaining = await idb.getAll<Person>('people');
+      expect(remaining.map((p) => p.id)).toEqual([1, 3, 5, 7, 9, 11]);
+      expect(remaining.every((p) => p.age === 99)).toBe(true);
+    });
+
+    it('should update records in stores with out-of-line keys', async () => {
+      const store = (idb as any).db.transaction(['notes'], 'readwrite').objectStore('notes');
+      store.put('first', 'a');
+      await new Promise((resolve) => { store.transaction.oncomplete = resolve; });
+      for await (const entry of idb.iterate<string>('notes', { mode: 'readwrite' })) {
+        await entry.update(entry.value.toUpperCase());
+      }
+      await expect(idb.get('notes', 'a')).resolves.toBe('FIRST');
+    });
+
+    it('should reject writes in readonly mode', async () => {
+      const iterator = idb.iterate<Person>('people');
+      const { value: entry } = await iterator.next();
+      await expect(entry!.delete()).rejects.toThrow('Cannot delete records while iterating in readonly mode');
+      await iterator.return();
+    });
+
+    it('should reject an invalid batch size', async () => {
+      await expect(idb.iterate('people', { batchSize: 0 }).next()).rejects.toThrow('Invalid batchSize 0');
+    });
+
+    it('should reject if the index does not exist', async () => {
+      await expect(idb.iterate('people', { index: 'name' }).next()).rejects.toThrow('Index "name" does not exist');
+    });
+
+    it('should throw if database is not open', async () => {
+      idb.close();
+      await expect(idb.iterate('people').next()).rejects.toThrow('Database not open');
+    });
+  });
+
+  describeOnBackends('page', () => {
+
+    interface Person {
+      id: number;
+      age: number;
+    }
+
+    beforeEach(async () => {
+      await idb.open('test-db', 1, () => {
+        idb.createStore('people', { keyPath: 'id' });
+        idb.createIndex('people', 'age', 'age');
+      });
+      for (let id = 1; id <= 12; id++) {
+        await idb.add('people', { id, age: 20 + (id % 3) });
+      }
+    });
+
+    const readAll = async (options: PageOptions): Promise<number[][]> => {
+      const pages: number[][] = [];
+      let after: string | null = null;
+      do {
+        const page: Page<Person> = await idb.page<Person>('people', { ...options, after });
+        pages.push(page.items.map((p) => p.id));
+        after = page.nextToken;
+      } while (after);
+      return pages;
+    };
+
+    it('should read a store page by page', async () => {
+      await expect(readAll({ pageSize: 5 })).resolves.toEqual([[1, 2, 3, 4, 5], [6, 7, 8, 9, 10], [11, 12]]);
+    });
+
+    it('should return no token when the last page is full', async () => {
+      const page = await idb.page<Person>('people', { pageSize: 4, range: { type: 'below', upper: 4 } });
+      expect(page.items.map((p) => p.id)).toEqual([1, 2, 3, 4]);
+      expect(page.nextToken).toBeNull();
+    });
+
+    it('should page through duplicate index keys without skipping or repeating records', async () => {
+      await expect(readAll({ index: 'age', pageSize: 3 })).resolves.toEqual([[3, 6, 9], [12, 1, 4], [7, 10, 2], [5, 8, 11]]);
+      await expect(readAll({ index: 'age', pageSize: 5, direction: 'prev' })).resolves.toEqual([[11, 8, 5, 2, 10], [7, 4, 1, 12, 9], [6, 3]]);
+    });
+
+    it('should resume after the last record even when records were added in between', async () => {
+      const first = await idb.page<Person>('people', { index: 'age', pageSize: 2, range: { type: 'only', value: 21 } });
+      expect(first.items.map((p) => p.id)).toEqual([1, 4]);
+      await idb.putMany('people', [{ id: 0, age: 21 }, { id: 5, age: 21 }, { id: 13, age: 21 }]);
+      const second = await idb.page<Person>('people', { index: 'age', pageSize: 10, range: { type: 'only', value: 21 }, after: first.nextToken });
+      expect(second.items.map((p) => p.id)).toEqual([5, 7, 10, 13]);
+      expect(second.nextToken).toBeNull();
+    });
+
+    it('should encode keys JSON cannot hold in the token', async () => {
+      await idb.clear('people');
+      await idb.putMany('people', [{ id: 1, age: new Date(2020, 0, 1) }, { id: 2, age: new Date(2021, 0, 1) }] as any[]);
+      const first = await idb.page<Person>('people', { index: 'age', pageSize: 1 });
+      expect(typeof first.nextToken).toBe('string');
+      const second = await idb.page<Person>('people', { index: 'age', pageSize: 1, after: first.nextToken });
+      expect(second.items.map((p) => p.id)).toEqual([2]);
+    });
+
+    it('should reject tokens from another query and malformed tokens', async () => {
+      const { nextToken } = await idb.page('people', { pageSize: 2 });
+      await expect(idb.page('people', { index: 'age', after: nextToken })).rejects.toThrow(
+        'Page token was created for the store in direction "next", not index "age" in direction "next"'
+      );
+      await expect(idb.page('people', { after: 'not a token' })).rejects.toThrow(DataError);
+      await expect(idb.page('people', { pageSize: 0 })).rejects.toThrow('Invalid pageSize 0');
+    });
+  });
+
+  describeOnBackends('query builder', () => {
+
+    interface Person {
+      id: number;
+      name: string;
+      age?: number;
+      active: boolean;
+    }
+
+    beforeEach(async () => {
+      await idb.open('test-db', 1, () => {
+        idb.createStore('people', { keyPath: 'id' });
+        idb.createIndex('people', 'age', 'age');
+      });
+      await idb.putMany('people', Array.from({ length: 10 }, (_, i): Person => ({
+        id: i + 1,
+        name: `person ${10 - i}`,
+        age: 15 + ((i * 7) % 20),
+        active: i % 3 !== 0
+      })));
+      await idb.put('people', { id: 11, name: 'ageless', active: true });
+    });
+
+    const ids = (people: Person[]) => people.map((p) => p.id);
+
+    it('should run a filtered, ordered and limited query through an index', async () => {
+      const query = idb.query<Person>('people').where('age').between(18, 30).filter((p) => p.active).orderBy('age', 'desc').offset(1).limit(2);
+      expect(ids(await query.toArray())).toEqual([3, 8]);
+      await expect(query.explain()).resolves.toEqual({
+        storeName: 'people',
+        strategy: 'index',
+        index: 'age',
+        range: { type: 'between', lower: 18, upper: 30 },
+        direction: 'prev',
+        filters: ['filter #1'],
+        sortInMemory: false
+      });
+    });
+
+    it('should return the first match, keys and counts', async () => {
+      const adults = () => idb.query<Person>('people').where('age').aboveOrEqual(18);
+      await expect(adults().orderBy('age').first()).resolves.toMatchObject({ id: 10, age: 18 });
+      await expect(adults().keys()).resolves.toEqual([10, 2, 5, 8, 3, 6, 9]);
+      await expect(adults().count()).resolves.toBe(7);
+      await expect(adults().filter((p) => !p.active).count()).resolves.toBe(1);
+      await expect(idb.query('people').where('age').equals(99).first()).resolves.toBeUndefined();
+    });
+
+    it('should use the primary key and fall back to a scan', async () => {
+      const byId = idb.query<Person>('people').where('id').below(4);
+      expect(ids(await byId.toArray())).toEqual([1, 2, 3]);
+      await expect(byId.explain()).resolves.toMatchObject({ strategy: 'primaryKey', index: null, range: { type: 'below', upper: 4, open: true } });
+
+      const byName = idb.query<Person>('people').where('name').startsWith('person 1').orderBy('name');
+      expect((await byName.toArray()).map((p) => p.name)).toEqual(['person 1', 'person 10']);
+      await expect(byName.explain()).resolves.toMatchObject({
+        strategy: 'scan',
+        range: null,
+        filters: ['where("name") starts with "person 1"', 'has key at "name"'],
+        sortInMemory: true
+      });
+    });
+
+    it('should sort in memory before applying offset and limit', async () => {
+      const query = idb.query<Person>('people').where('id').above(5).orderBy('name', 'desc').offset(1).limit(3);
+      expect((await query.toArray()).map((p) => p.name)).toEqual(['person 4', 'person 3', 'person 2']);
+      expect(ids(await idb.query<Person>('people').orderBy('age').limit(3).toArray())).toEqual([1, 4, 7]);
+    });
+
+    it('should delete the matching records', async () => {
+      const changes: ChangeEvent[] = [];
+      idb.observe('people', (event) => changes.push(event));
+      await expect(idb.query<Person>('people').where('age').below(18).filter((p) => p.id > 1).delete()).resolves.toBe(2);
+      await expect(idb.query('people').orderBy('name').limit(2).delete()).resolves.toBe(2);
+      expect(ids(await idb.getAll('people'))).toEqual([1, 2, 3, 5, 6, 8, 9]);
+      expect(changes.filter((event) => event.type === 'delete').map((event) => event.keys)).toEqual([[4, 7], [11, 10]]);
+    });
+
+    it('should report errors from filters and invalid limits', async () => {
+      await expect(idb.query('people').filter(() => {
+        throw new Error('bad filter');
+      }).toArray()).rejects.toThrow('bad filter');
+      expect(() => idb.query('people').limit(-1)).toThrow('Invalid limit -1');
+      idb.close();
+      await expect(idb.query('people').toArray()).rejects.toThrow('Database not open');
+    });
+  });
+
+  describeOnBackends('full-text search', () => {
+
+    interface Product {
+      id: number;
+      name: string;
+      details?: { description: string };
+      tags?: string[];
+    }
+
+    const products: Product[] = [
+      { id: 1, name: 'Crème Brûlée Torch', details: { description: 'Kitchen torch for desserts' } },
+      { id: 2, name: 'Running Shoes', tags: ['sport', 'shoes'] },
+      { id: 3, name: 'Kitchen Scale', details: { description: 'Digital scale' } },
+      { id: 4, name: 'Trail runner shoe', tags: ['sport'] }
+    ];
+
+    beforeEach(async () => {
+      await idb.open('test-db', 1, () => {
+        idb.createStore('products', { keyPath: 'id' });
+        idb.createSearchIndex('products', 'text', ['name', 'details.description', 'tags']);
+        idb.createSearchIndex('products', 'stemmed', 'name', { stem: true });
+      });
+      await idb.putMany('products', products);
+    });
+
+    const ids = (found: Product[]) => found.map((p) => p.id);
+
+    it('should find records by lowercased, diacritic-folded words of every field', async () => {
+      expect(ids(await idb.search('products', 'text', 'creme BRULEE'))).toEqual([1]);
+      expect(ids(await idb.search('products', 'text', 'kitchen'))).toEqual([1, 3]);
+      expect(ids(await idb.search('products', 'text', 'sport'))).toEqual([2, 4]);
+      expect(await idb.search('products', 'text', 'kitchen shoes')).toEqual([]);
+      expect(await idb.search('products', 'text', '  ')).toEqual([]);
+    });
+
+    it('should rank records by matched terms in any mode and match prefixes', async () => {
+      expect(ids(await idb.search('products', 'text', 'digital kitchen scale', { mode: 'any' }))).toEqual([3, 1]);
+      expect(ids(await idb.search('products', 'text', 'sho', { prefix: true }))).toEqual([2, 4]);
+      expect(ids(await idb.search('products', 'text', 'kitchen torch', { mode: 'any', limit: 1 }))).toEqual([1]);
+    });
+
+    it('should stem words when asked to', async () => {
+      expect(ids(await idb.search('products', 'stemmed', 'run shoe'))).toEqual([2]);
+      expect(ids(await idb.search('products', 'stemmed', 'runner'))).toEqual([4]);
+      expect(ids(await idb.search('products', 'text', 'run'))).toEqual([]);
+    });
+
+    it('should keep the index up to date on every write', async () => {
+      await idb.patch('products', 3, { name: 'Bathroom Scale' });
+      await idb.transaction('products', 'readwrite', (tx) => tx.put('products', { id: 5, name: 'Kitchen Knife' }));
+      for await (const entry of idb.iterate<Product>('products', { mode: 'readwrite', range: 1 })) {
+        await entry.update({ ...entry.value, name: 'Blow Torch' });
+      }
+      await idb.delete('products', 2);
+      expect(ids(await idb.search('products', 'text', 'kitchen'))).toEqual([1, 5]);
+      expect(ids(await idb.search('products', 'text', 'bathroom'))).toEqual([3]);
+      expect(ids(await idb.search('products', 'stemmed', 'blow'))).toEqual([1]);
+      expect(ids(await idb.search('products', 'text', 'shoe shoes', { mode: 'any' }))).toEqual([4]);
+    });
+
+    it('should index existing records and drop the index by name', async () => {
+      idb.close();
+      await idb.open('test-db', 2, () => {
+        idb.deleteIndex('products', 'stemmed');
+        idb.createSearchIndex('products', 'names', 'name');
+      });
+      expect(ids(await idb.search('products', 'names', 'scale'))).toEqual([3]);
+      await expect(idb.search('products', 'stemmed', 'run')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should index records copied by recreateStore() in the same upgrade', async () => {
+      idb.close();
+      await idb.open('test-db', 2, () => {
+        idb.recreateStore('products', { keyPath: 'id', autoIncrement: true });
+        idb.createSearchIndex('products', 'names', 'name');
+      });
+      expect(ids(await idb.search('products', 'names', 'scale'))).toEqual([3]);
+      expect(ids(await idb.search('products', 'text', 'sport'))).toEqual([2, 4]);
+    });
+
+    it('should reject conflicting declarations and non-object records', async () => {
+      idb.close();
+      await expect(idb.open('test-db', 2, () => idb.createSearchIndex('products', 'text', 'name'))).rejects.toThrow(ConstraintError);
+      await expect(idb.open('test-db', 2, () => idb.createSearchIndex('products', 'bad-name', 'name'))).rejects.toThrow(DataError);
+      await idb.open('test-db', 2, () => idb.createSearchIndex('products', 'text', ['name', 'details.description', 'tags']));
+      await expect(idb.put('products', 'plain text' as never)).rejects.toThrow(DataError);
+    });
+  });
+
+  describeOnBackends('transaction', () => {
+
+    beforeEach(async () => {
+      await idb.open('test-db', 1, () => {
+        idb.createStore('cart', { keyPath: 'id' });
+        idb.createStore('orders', { keyPath: 'id', autoIncrement: true });
+      });
+      await idb.add('cart', { id: 1, item: 'book' });
+    });
+
+    it('should commit writes across stores together', async () => {
+      const orderId = await idb.transaction(['cart', 'orders'], 'readwrite', async (tx) => {
+        const entry = await tx.get<{ id: number; item: string }>('cart', 1);
+        await tx.delete('cart', 1);
+        return tx.add('orders', { item: entry!.item });
+      });
+      expect(orderId).toBe(1);
+      await expect(idb.count('cart')).resolves.toBe(0);
+      await expect(idb.get('orders', 1)).resolves.toEqual({ id: 1, item: 'book' });
+    });
+
+    it('should expose put, getAll, count and clear', async () => {
+      const result = await idb.transaction('cart', 'readwrite', async (tx) => {
+        await tx.put('cart', { id: 2, item: 'pen' });
+        await tx.put('cart', { id: 3, item: 'ink' });
+        const all = await tx.getAll<{ id: number }>('cart', { direction: 'prev', limit: 2 });
+        const count = await tx.count('cart', { type: 'above', lower: 2 });
+        await tx.clear('cart');
+        return { ids: all.map((r) => r.id), count };
+      });
+      expect(result).toEqual({ ids: [3, 2], count: 2 });
+      await expect(idb.count('cart')).resolves.toBe(0);
+    });
+
+    it('should abort all writes if the callback throws', async () => {
+      await expect(idb.transaction(['cart', 'orders'], 'readwrite', async (tx) => {
+        await tx.delete('cart', 1);
+        await tx.add('orders', { item: 'book' });
+        throw new Error('payment failed');
+      })).rejects.toThrow('payment failed');
+      await expect(idb.count('cart')).resolves.toBe(1);
+      await expect(idb.count('orders')).resolves.toBe(0);
+    });
+
+    it('should abort all writes if a request fails', async () => {
+      await expect(idb.transaction(['cart', 'orders'], 'readwrite', async (tx) => {
+        await tx.add('orders', { item: 'book' });
+        await tx.add('cart', { id: 1, item: 'duplicate' });
+      })).rejects.toThrow('Failed to add record');
+      await expect(idb.count('orders')).resolves.toBe(0);
+    });
+
+    it('should abort if a failed request is swallowed by the callback', async () => {
+      await expect(idb.transaction(['cart', 'orders'], 'readwrite', async (tx) => {
+        await tx.add('orders', { item: 'book' });
+        await tx.add('cart', { id: 1, item: 'duplicate' }).catch(() => undefined);
+      })).rejects.toThrow('Transaction aborted');
+      await expect(idb.count('orders')).resolves.toBe(0);
+    });
+
+    it('should report a transaction that auto-committed while awaiting other work', async () => {
+      await expect(idb.transaction('cart', 'readwrite', async (tx) => {
+        await tx.get('cart', 1);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        await tx.put('cart', { id: 1, item: 'late' });
+      })).rejects.toThrow('Transaction is no longer active');
+    });
+
+    it('should reject stores outside the transaction scope', async () => {
+      // @ts-expect-error 'orders' is outside the store names the transaction was opened with
+      await expect(idb.transaction('cart', 'readonly', (tx) => tx.get('orders', 1)))
+        .rejects.toThrow('Object store "orders" is not part of this transaction');
+    });
+
+    it('should throw if database is not open', async () => {
+      idb.close();
+      await expect(idb.transaction('cart', 'readonly', () => undefined)).rejects.toThrow('Database not open');
+    });
+  });
+
+  describeOnBackends('bulk writes', () => {
+
+    beforeEach(async () => {
+      await idb.open('test-db', 1, () => {
+        idb.createStore('users', { keyPath: 'id' });
+        idb.createStore('logs', { autoIncrement: true });
+        idb.createIndex('users', 'email', 'email', { unique: true });
+      });
+    });
+
+    it('should add many records and return keys in input order', async () => {
+      const keys = await idb.addMany('users', [{ id: 3 }, { id: 1 }, { id: 2 }]);
+      expect(keys).toEqual([3, 1, 2]);
+      await expect(idb.count('users')).resolves.toBe(3);
+    });
+
+    it('should return generated keys for autoIncrement stores', async () => {
+      await expect(idb.addMany('logs', ['a', 'b', 'c'])).resolves.toEqual([1, 2, 3]);
+    });
+
+    it('should roll back every item when one fails', async () => {
+      await idb.add('users', { id: 2 });
+      await expect(idb.addMany('users', [{ id: 1 }, { id: 2 }, { id: 3 }]))
+        .rejects.toThrow('Failed to add record at index 1');
+      expect(await idb.getAllKeys('users')).toEqual([2]);
+    });
+
+    it('should roll back when an item cannot be keyed', async () => {
+      await expect(idb.addMany('users', [{ id: 1 }, { name: 'no key' }]))
+        .rejects.toThrow('Failed to add record at index 1');
+      await expect(idb.count('users')).resolves.toBe(0);
+    });
+
+    it('should continue on error and report failures per item', async () => {
+      await idb.add('users', { id: 2 });
+      const report = await idb.addMany('users', [
+        { id: 1, email: 'a@example.com' },
+        { id: 2 },
+        { id: 3, email: 'a@example.com' },
+        { name: 'no key' },
+        { id: 4 }
+      ], { continueOnError: true });
+      expect(report.results.map((r) => r.key)).toEqual([1, 2, 3, undefined, 4]);
+      expect(report.failures.map((f) => [f.index, f.error?.name])).toEqual([
+        [1, 'ConstraintError'],
+        [2, 'ConstraintError'],
+        [3, 'DataError']
+      ]);
+      expect(await idb.getAllKeys('users')).toEqual([1, 2, 4]);
+    });
+
+    it('should put many records', async () => {
+      await idb.add('users', { id: 1, name: 'old' });
+      await expect(idb.putMany('users', [{ id: 1, name: 'new' }, { id: 2, name: 'other' }])).resolves.toEqual([1, 2]);
+      await expect(idb.get('users', 1)).resolves.toEqual({ id: 1, name: 'new' });
+    });
+
+    it('should put many records and report failures', async () => {
+      await idb.add('users', { id: 1, email: 'taken@example.com' });
+      const report = await idb.putMany('users', [{ id: 2, email: 'taken@example.com' }, { id: 3 }], { continueOnError: true });
+      expect(report.failures).toEqual([
+        { index: 0, key: 2, error: { name: 'ConstraintError', message: expect.any(String) } }
+      ]);
+      await expect(idb.count('users')).resolves.toBe(2);
+    });
+
+    it('should delete many records', async () => {
+      await idb.addMany('users', [{ id: 1 }, { id: 2 }, { id: 3 }]);
+      await expect(idb.deleteMany('users', [1, 3])).resolves.toBeUndefined();
+      expect(await idb.getAllKeys('users')).toEqual([2]);
+    });
+
+    it('should delete many records and report invalid keys', async () => {
+      await idb.addMany('users', [{ id: 1 }, { id: 2 }]);
+      const report = await idb.deleteMany('users', [1, {} as IDBKey, 2], { continueOnError: true });
+      expect(report.failures.map((f) => [f.index, f.error?.name])).toEqual([[1, 'DataError']]);
+      await expect(idb.count('users')).resolves.toBe(0);
+    });
+
+    it('should throw if database is not open', async () => {
+      idb.close();
+      await expect(idb.addMany('users', [{ id: 1 }])).rejects.toThrow('Database not open');
+      await expect(idb.putMany('users', [{ id: 1 }])).rejects.toThrow('Database not open');
+      await expect(idb.deleteMany('users', [1])).rejects.toThrow('Database not open');
+    });
+  });
+
+  describeOnBackends('update and patch', () => {
+
+    beforeEach(async () => {
+      await idb.open('test-db', 1, () => {
+        idb.createStore('users', { keyPath: 'id' });
+        idb.createStore('counters');
+        idb.createIndex('users', 'email', 'email', { unique: true });
+      });
+      await idb.put('users', { id: 1, name: 'Ann', email: 'ann@example.com', settings: { theme: 'dark', lang: 'en' } });
+      await idb.transaction('counters', 'readwrite', (tx) => tx.objectStore('counters').put(0, 'visits'));
+    });
+
+    it('should update a record in one transaction and return it', async () => {
+      await expect(idb.update<{ id: number; name: string }>('users', 1, (user) => ({ ...user, name: 'Anna' })))
+        .resolves.toMatchObject({ id: 1, name: 'Anna' });
+      await expect(idb.get('users', 1)).resolves.toMatchObject({ name: 'Anna', email: 'ann@example.com' });
+    });
+
+    it('should not lose concurrent updates', async () => {
+      await Promise.all(Array.from({ length: 5 }, () => idb.update<number>('counters', 'visits', (count) => count + 1)));
+      await expect(idb.get('counters', 'visits')).resolves.toBe(5);
+    });
+
+    it('should delete the record when the updater returns DELETE_RECORD', async () => {
+      const changes: ChangeEvent[] = [];
+      idb.observe('users', (event) => changes.push(event));
+      await expect(idb.update('users', 1, () => DELETE_RECORD)).resolves.toBeUndefined();
+      await expect(idb.count('users')).resolves.toBe(0);
+      expect(changes).toEqual([expect.objectContaining({ type: 'delete', keys: [1] })]);
+    });
+
+    it('should reject missing records, key changes and failed writes without writing', async () => {
+      const updater = jest.fn((user) => user);
+      await expect(idb.update('users', 2, updater)).rejects.toThrow(NotFoundError);
+      expect(updater).not.toHaveBeenCalled();
+      await expect(idb.update<{ id: number }>('users', 1, (user) => ({ ...user, id: 2 }))).rejects.toThrow(DataError);
+      await idb.put('users', { id: 2, email: 'bob@example.com' });
+      await expect(idb.patch('users', 2, { email: 'ann@example.com' })).rejects.toThrow(ConstraintError);
+      await expect(idb.update('users', 1, () => {
+        throw new Error('stop');
+      })).rejects.toThrow('stop');
+      await expect(idb.update('users', 1, async (user) => user)).rejects.toThrow('synchronously');
+      await expect(idb.get('users', 2)).resolves.toEqual({ id: 2, email: 'bob@example.com' });
+    });
+
+    it('should patch records shallowly or deeply', async () => {
+      await expect(idb.patch('users', 1, { settings: { theme: 'light' } })).resolves.toEqual({
+        id: 1,
+        name: 'Ann',
+        email: 'ann@example.com',
+        settings: { theme: 'light' }
+      });
+      await idb.patch('users', 1, { settings: { lang: 'de' } }, { deep: true });
+      await expect(idb.get('users', 1)).resolves.toMatchObject({ settings: { theme: 'light', lang: 'de' } });
+      await expect(idb.getByIndex('users', 'email', 'ann@example.com')).resolves.toMatchObject({ id: 1 });
+    });
+
+    it('should only patch objects', async () => {
+      await expect(idb.patch('counters', 'visits', { count: 1 })).rejects.toThrow(DataError);
+      await expect(idb.patch('users', 1, null as never)).rejects.toThrow(DataError);
+    });
+
+    it('should throw if database is not open', async () => {
+      idb.close();
+      await expect(idb.update('users', 1, (user) => user)).rejects.toThrow('Database not open');
+      await expect(idb.patch('users', 1, {})).rejects.toThrow('Database not open');
+    });
+  });
+
+  describeOnBackends('typed schema', () => {
+
+    let db: SimpleIDB<AppSchema>;
+
+    beforeEach(async () => {
+      db = new SimpleIDB<AppSchema>();
+      await db.open('typed-db', 1, () => {
+        db.createStore('users', { keyPath: 'id' });
+        db.createStore('posts', { keyPath: 'slug' });
+        db.createIndex('users', 'email', 'email', { unique: true });
+        db.createIndex('users', 'age', 'age');
+        // @ts-expect-error posts declares no indexes
+        expect(() => db.createIndex('posts', 'title', 'title')).not.toThrow();
+      });
+    });
+
+    afterEach(() => db.close());
+
+    it('should infer value and key types from the schema', async () => {
+      await db.add('users', { id: 1, name: 'John', email: 'john@example.com', age: 30 });
+      await db.put('posts', { slug: 'hello', title: 'Hello' });
+
+      const user = await db.get('users', 1);
+      const name: string | undefined = user?.name;
+      const posts: Post[] = await db.getAll('posts');
+      const keys: number[] = await db.getAllKeys('users');
+      const byEmail: User | undefined = await db.getByIndex('users', 'email', 'john@example.com');
+      const idByEmail: number | undefined = await db.getKeyByIndex('users', 'email', 'john@example.com');
+
+      expect(name).toBe('John');
+      expect(posts).toEqual([{ slug: 'hello', title: 'Hello' }]);
+      expect(keys).toEqual([1]);
+      expect(byEmail?.id).toBe(1);
+      expect(idByEmail).toBe(1);
+    });
+
+    it('should type transaction handles and iteration', async () => {
+      await db.addMany('users', [{ id: 1, name: 'John', email: 'john@example.com', age: 30 }]);
+      const title = await db.transaction(['users', 'posts'], 'readwrite', async (tx) => {
+        const user = await tx.get('users', 1);
+        await tx.put('posts', { slug: 'by-john', title: `By ${user!.name}` });
+        return (await tx.get('posts', 'by-john'))!.title;
+      });
+      expect(title).toBe('By John');
+
+      for await (const entry of db.iterate('users', { index: 'age' })) {
+        const age: number = entry.value.age;
+        expect(age).toBe(30);
+      }
+    });
+
+    it('should reject mismatched store names, keys and values at compile time', async () => {
+      const typeErrors = async () => {
+        // @ts-expect-error unknown store name
+        await db.get('comments', 1);
+        // @ts-expect-error users are keyed by number
+        await db.get('users', 'john');
+        // @ts-expect-error posts do not have a name
+        await db.put('posts', { slug: 'x', name: 'y' });
+        // @ts-expect-error explicit value types are only allowed on untyped databases
+        await db.get<User>('posts', 'hello');
+        // @ts-expect-error unknown index name
+        await db.getAllByIndex('users', 'name');
+        // @ts-expect-error age index is keyed by number
+        await db.countByIndex('users', 'age', 'thirty');
+        // @ts-expect-error unknown store name
+        db.createStore('comments');
+      };
+      expect(typeErrors).toBeDefined();
+    });
+
+    it('should keep accepting explicit value types on untyped databases', async () => {
+      await idb.open('untyped-db', 1, () => idb.createStore('users', { keyPath: 'id' }));
+      await idb.put<User>('users', { id: 1, name: 'John', email: 'john@example.com', age: 30 });
+      const user = await idb.get<User>('users', 1);
+      const value: unknown = await idb.get('users', 1);
+      expect(user?.email).toBe('john@example.com');
+      expect(value).toEqual(user);
+    });
+  });
+
+  describeOnBackends('migrations', () => {
+
+    const migrations = (log: number[]) => ({
+      1: ({ createStore }: MigrationContext) => {
+        log.push(1);
+        createStore('users', { keyPath: 'id' });
+      },
+      2: ({ createIndex }: MigrationContext) => {
+        log.push(2);
+        createIndex('users', 'email', 'email', { unique: true });
+      },
+      3: ({ store }: MigrationContext) => {
+        log.push(3);
+        const users = store('users');
+        const request = users.openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            cursor.update({ ...cursor.value, active: true });
+            cursor.continue();
+          }
+        };
+      }
+    });
+
+    it('should run every migration on a fresh install', async () => {
+      const log: number[] = [];
+      await idb.open('migrated-db', 3, { migrations: migrations(log) });
+      expect(log).toEqual([1, 2, 3]);
+      await expect(idb.getByIndex('users', 'email', 'none')).resolves.toBeUndefined();
+    });
+
+    it('should run only the migrations after the stored version', async () => {
+      await idb.open('migrated-db', 1, { migrations: migrations([]) });
+      await idb.add('users', { id: 1, email: 'john@example.com' });
+      idb.close();
+
+      const log: number[] = [];
+      await idb.open('migrated-db', 3, { migrations: migrations(log) });
+      expect(log).toEqual([2, 3]);
+      await expect(idb.get('users', 1)).resolves.toEqual({ id: 1, email: 'john@example.com', active: true });
+    });
+
+    it('should pass versions and the upgrade transaction to each step', async () => {
+      const contexts: Array<[number, number, number]> = [];
+      const record = (context: MigrationContext) => {
+        expect(context.transaction.mode).toBe('versionchange');
+        contexts.push([context.oldVersion, context.newVersion, context.version]);
+      };
+      await idb.open('migrated-db', 2, { migrations: { 1: record, 2: record } });
+      expect(contexts).toEqual([[0, 2, 1], [0, 2, 2]]);
+    });
+
+    it('should await async migrations in order', async () => {
+      const log: string[] = [];
+      await idb.open('migrated-db', 2, {
+        migrations: {
+          1: async ({ createStore, store }) => {
+            createStore('settings');
+            await new Promise<void>((resolve) => {
+              store('settings').put('dark', 'theme').onsuccess = () => resolve();
+            });
+            log.push('one');
+          },
+          2: () => {
+            log.push('two');
+          }
+        },
+        upgrade: () => log.push('upgrade')
+      });
+      expect(log).toEqual(['one', 'two', 'upgrade']);
+      await expect(idb.get('settings', 'theme')).resolves.toBe('dark');
+    });
+
+    it('should reject an upgrade that committed while a migration awaited other work', async () => {
+      const error = await idb.open('migrated-db', 1, {
+        migrations: {
+          1: async ({ createStore }) => {
+            createStore('a');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            createStore('b');
+          }
+        }
+      }).catch((e) => e);
+      expect(error).toBeInstanceOf(SimpleIDBError);
+      expect(error.message).toContain('committed before its migrations finished');
+      expect(idb.connectionState).toBe('closed');
+      await expect(idb.get('a', 1)).rejects.toThrow(DatabaseClosedError);
+    });
+
+    it('should refuse to open when a migration is missing', async () => {
+      await expect(idb.open('migrated-db', 3, { migrations: { 1: () => undefined, 3: () => undefined } }))
+        .rejects.toThrow('Missing migration for version 2 (upgrading from version 0 to 3)');
+      await expect(idb.count('users')).rejects.toThrow('Database not open');
+
+      await idb.open('migrated-db', 1, { migrations: { 1: () => undefined } });
+      expect((idb as any).db.version).toBe(1);
+    });
+
+    it('should reject invalid migration versions', async () => {
+      await expect(idb.open('migrated-db', 1, { migrations: { 0: () => undefined, 1: () => undefined } }))
+        .rejects.toThrow('Invalid migration version "0"');
+    });
+
+    it('should roll back the upgrade when a migration throws', async () => {
+      await expect(idb.open('migrated-db', 2, {
+        migrations: {
+          1: ({ createStore }) => createStore('users'),
+          2: () => {
+            throw new Error('bad data');
+          }
+        }
+      })).rejects.toThrow('Migration to version 2 failed: bad data');
+
+      await idb.open('migrated-db', 1, { migrations: { 1: () => undefined } });
+      expect(Array.from((idb as any).db.objectStoreNames)).toEqual([]);
+    });
+
+    it('should roll back the upgrade when an async migration rejects', async () => {
+      await expect(idb.open('migrated-db', 1, {
+        migrations: { 1: async () => Promise.reject(new Error('nope')) }
+      })).rejects.toThrow('Migration to version 1 failed: nope');
+    });
+
+    it('should pass an upgrade context to the upgrade callback', async () => {
+      const upgrade = jest.fn();
+      await idb.open('migrated-db', 4, upgrade);
+      expect(upgrade).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ oldVersion: 0, newVersion: 4 }));
+    });
+  });
+
+  describeOnBackends('schema changes', () => {
+
+    const indexInfo = (storeName: string) => {
+      const store = (idb as any).db.transaction([storeName], 'readonly').objectStore(storeName) as IDBObjectStore;
+      return Array.from(store.indexNames, (name) => {
+        const index = store.index(name);
+        return { name, keyPath: index.keyPath, unique: index.unique };
+      });
+    };
+
+    beforeEach(async () => {
+      await idb.open('schema-db', 1, () => {
+        idb.createStore('users', { keyPath: 'id' });
+        idb.createStore('legacy');
+        idb.createIndex('users', 'email', 'email');
+        idb.createIndex('users', 'age', 'age');
+      });
+      await idb.add('users', { id: 1, uid: 'u-1', email: 'john@example.com', age: 30 });
+      await idb.add('users', { id: 2, uid: 'u-2', email: 'jane@example.com', age: 25 });
+      idb.close();
+    });
+
+    it('should delete stores and indexes', async () => {
+      await idb.open('schema-db', 2, () => {
+        idb.deleteStore('legacy');
+        idb.deleteStore('missing');
+        idb.deleteIndex('users', 'age');
+        idb.deleteIndex('users', 'missing');
+      });
+      expect(Array.from((idb as any).db.objectStoreNames)).toEqual(['users']);
+      expect(indexInfo('users').map((i) => i.name)).toEqual(['email']);
+    });
+
+    it('should rename stores and indexes', async () => {
+      await idb.open('schema-db', 2, () => {
+        idb.renameStore('users', 'people');
+        idb.renameIndex('people', 'age', 'years');
+      });
+      await expect(idb.getAllByIndex('people', 'years', 30)).resolves.toEqual([
+        { id: 1, uid: 'u-1', email: 'john@example.com', age: 30 }
+      ]);
+    });
+
+    it('should refuse renames onto existing names', async () => {
+      await expect(idb.open('schema-db', 2, () => idb.renameStore('users', 'legacy')))
+        .rejects.toThrow('an object store named "legacy" already exists');
+      await expect(idb.open('schema-db', 2, () => idb.renameIndex('users', 'age', 'email')))
+        .rejects.toThrow('an index named "email" already exists on object store "users"');
+      await expect(idb.open('schema-db', 2, () => idb.renameIndex('users', 'name', 'fullName')))
+        .rejects.toThrow('Index "name" does not exist on object store "users"');
+    });
+
+    it('should recreate an index with new options', async () => {
+      await idb.open('schema-db', 2, () => {
+        idb.recreateIndex('users', 'email', 'email', { unique: true });
+      });
+      expect(indexInfo('users')).toContainEqual({ name: 'email', keyPath: 'email', unique: true });
+      await expect(idb.add('users', { id: 3, email: 'john@example.com' })).rejects.toThrow('Failed to add record');
+    });
+
+    it('should recreate a store with a new keyPath and keep its records and indexes', async () => {
+      await idb.open('schema-db', 2, () => {
+        idb.recreateStore('users', { keyPath: 'uid' });
+      });
+      expect(Array.from((idb as any).db.objectStoreNames)).toEqual(['legacy', 'users']);
+      await expect(idb.getAllKeys('users')).resolves.toEqual(['u-1', 'u-2']);
+      await expect(idb.getKeyByIndex('users', 'email', 'jane@example.com')).resolves.toBe('u-2');
+    });
+
+    it('should roll back a store recreation when records cannot be keyed', async () => {
+      await expect(idb.open('schema-db', 2, () => {
+        idb.recreateStore('users', { keyPath: 'missing' });
+      })).rejects.toThrow();
+      await idb.open('schema-db', 1);
+      await expect(idb.count('users')).resolves.toBe(2);
+    });
+
+    it('should report an existing store with different options', async () => {
+      await expect(idb.open('schema-db', 2, () => idb.createStore('users', { keyPath: 'uid' })))
+        .rejects.toThrow('Object store "users" already exists with different options (keyPath: "id", requested "uid")');
+    });
+
+    it('should expose schema changes to migrations', async () => {
+      await idb.open('schema-db', 2, {
+        migrations: {
+          2: ({ deleteStore, recreateIndex }) => {
+            deleteStore('legacy');
+            recreateIndex('users', 'age', 'age', { unique: true });
+          }
+        }
+      });
+      expect(Array.from((idb as any).db.objectStoreNames)).toEqual(['users']);
+      expect(indexInfo('users')).toContainEqual({ name: 'age', keyPath: 'age', unique: true });
+    });
+
+    it('should only allow schema changes during upgrades', async () => {
+      await idb.open('schema-db', 1);
+      expect(() => idb.deleteStore('legacy')).toThrow('deleteStore must be called within the upgradeCallback');
+      expect(() => idb.deleteIndex('users', 'age')).toThrow('deleteIndex must be called within the upgradeCallback');
+      expect(() => idb.renameStore('legacy', 'old')).toThrow('renameStore must be called within the upgradeCallback');
+      expect(() => idb.renameIndex('users', 'age', 'years')).toThrow('renameIndex must be called within the upgradeCallback');
+      expect(() => idb.recreateIndex('users', 'age', 'age')).toThrow('recreateIndex must be called within the upgradeCallback');
+      expect(() => idb.recreateStore('users')).toThrow('recreateStore must be called within the upgradeCallback');
+    });
+
+    it('should throw if database is not open', () => {
+      expect(() => idb.deleteStore('legacy')).toThrow('Database not open');
+      expect(() => idb.deleteIndex('users', 'age')).toThrow('Database not open');
+    });
+  });
+
+  describeOnBackends('errors', () => {
+
+    beforeEach(async () => {
+      await idb.open('errors-db', 1, () => {
+        idb.createStore('users', { keyPath: 'id' });
+        idb.createIndex('users', 'email', 'email', { unique: true });
+      });
+      await idb.add('users', { id: 1, email: 'john@example.com' });
+    });
+
+    it('should report constraint violations with the failing key and the original error', async () => {
+      const error = await idb.add('users', { id: 1, email: 'other@example.com' }).catch((e) => e);
+      expect(error).toBeInstanceOf(ConstraintError);
+      expect(error).toBeInstanceOf(SimpleIDBError);
+      expect(error).toMatchObject({ name: 'ConstraintError', operation: 'add', storeName: 'users', key: 1 });
+      expect(error.message).toMatch(/^Failed to add record: /);
+      expect(error.cause).toMatchObject({ name: 'ConstraintError' });
+    });
+
+    it('should report missing stores and indexes as NotFoundError', async () => {
+      await expect(idb.get('missing', 1)).rejects.toThrow(NotFoundError);
+      await expect(idb.get('missing', 1)).rejects.toMatchObject({ storeName: 'missing', operation: 'get' });
+      await expect(idb.getByIndex('users', 'name', 'John')).rejects.toThrow(NotFoundError);
+      await expect(idb.transaction('users', 'readonly', (tx) => tx.objectStore('posts'))).rejects.toThrow(NotFoundError);
+    });
+
+    it('should report invalid keys as DataError', async () => {
+      await expect(idb.put('users', { email: 'nokey@example.com' })).rejects.toThrow(DataError);
+      await expect(idb.getAll('users', { range: { type: 'nope' } as any })).rejects.toThrow(DataError);
+    });
+
+    it('should report a closed database as DatabaseClosedError', async () => {
+      idb.close();
+      await expect(idb.get('users', 1)).rejects.toThrow(DatabaseClosedError);
+      expect(() => idb.createStore('posts')).toThrow(DatabaseClosedError);
+    });
+
+    it('should report version problems as VersionError', async () => {
+      idb.close();
+      await expect(idb.open('errors-db', 2, { migrations: { 3: () => undefined } })).rejects.toThrow(VersionError);
+      await idb.open('errors-db', 2, () => undefined);
+      idb.close();
+      await expect(idb.open('errors-db', 1)).rejects.toThrow(VersionError);
+    });
+
+    it('should report work after a transaction finished as TransactionInactiveError', async () => {
+      let handle: any;
+      await idb.transaction('users', 'readonly', (tx) => {
+        handle = tx;
+      });
+      await expect(handle.get('users', 1)).rejects.toThrow(TransactionInactiveError);
+    });
+
+    it('should report a missing IndexedDB as UnsupportedEnvironmentError', () => {
+      const original = global.indexedDB;
+      delete (global as any).indexedDB;
+      try {
+        expect(() => indexedDBDriver()).toThrow(UnsupportedEnvironmentError);
+      } finally {
+        global.indexedDB = original;
+      }
+    });
+
+    it('should keep the original error on failed bulk writes', async () => {
+      const error = await idb.addMany('users', [{ id: 2, email: 'jane@example.com' }, { id: 3, email: 'john@example.com' }]).catch((e) => e);
+      expect(error).toBeInstanceOf(ConstraintError);
+      expect(error).toMatchObject({ operation: 'addMany', storeName: 'users', key: 3 });
+    });
+  });
+
+  describe('connection events', () => {
+    useFakeIndexedDB();
+
+    const createUsers = () => idb.createStore('users', { keyPath: 'id' });
+
+    it('should close the outdated connection when another one upgrades', async () => {
+      await idb.open('events-db', 1, createUsers);
+      const other = new SimpleIDB();
+      await other.open('events-db', 2, () => other.createStore('posts'));
+      await expect(idb.get('users', 1)).rejects.toThrow(DatabaseClosedError);
+      other.close();
+    });
+
+    it('should call onVersionChange instead of closing', async () => {
+      const onVersionChange = jest.fn(() => idb.close());
+      await idb.open('events-db', 1, { upgrade: createUsers, onVersionChange });
+      const other = new SimpleIDB();
+      await other.open('events-db', 2);
+      expect(onVersionChange).toHaveBeenCalledWith(expect.objectContaining({ oldVersion: 1, newVersion: 2 }));
+      other.close();
+    });
+
+    it('should report blocked opens and continue once the other connection closes', async () => {
+      await idb.open('events-db', 1, { upgrade: createUsers, onVersionChange: () => undefined });
+      const other = new SimpleIDB();
+      const onBlocked = jest.fn(() => idb.close());
+      await other.open('events-db', 2, { onBlocked });
+      expect(onBlocked).toHaveBeenCalledTimes(1);
+      other.close();
+    });
+
+    it('should reject an open that stays blocked past blockedTimeout', async () => {
+      await idb.open('events-db', 1, { upgrade: createUsers, onVersionChange: () => undefined });
+      const other = new SimpleIDB();
+      const upgrade = jest.fn();
+      const error = await other.open('events-db', 2, { upgrade, blockedTimeout: 20 }).catch((e) => e);
+      expect(error).toBeInstanceOf(DatabaseBlockedError);
+      expect(error.message).toContain('blocked by other open connections');
+
+      // The abandoned request must not upgrade the database once it unblocks.
+      idb.close();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(upgrade).not.toHaveBeenCalled();
+      await idb.open('events-db', 2, () => idb.createStore('posts'));
+      expect(Array.from((idb as any).db.objectStoreNames)).toEqual(['posts', 'users']);
+    });
+
+    it('should report a connection closed by the browser', async () => {
+      const onClose = jest.fn();
+      await idb.open('events-db', 1, { upgrade: createUsers, onClose });
+      forceCloseDatabase((idb as any).db);
+      expect(onClose).toHaveBeenCalledTimes(1);
+      await expect(idb.get('users', 1)).rejects.toThrow(DatabaseClosedError);
+    });
+
+    it('should stop relaying changes once the browser closes the connection', async () => {
+      const close = jest.fn();
+      (global as any).BroadcastChannel = jest.fn(() => ({ close, postMessage: jest.fn(), onmessage: null }));
+      try {
+        await idb.open('events-db', 1, createUsers);
+        idb.observe('users', jest.fn());
+        forceCloseDatabase((idb as any).db);
+        expect(close).toHaveBeenCalledTimes(1);
+      } finally {
+        delete (global as any).BroadcastChannel;
+      }
+    });
+
+    it('should report every failed request except those collected by continueOnError', async () => {
+      const onError = jest.fn();
+      await idb.open('events-db', 1, { upgrade: createUsers, onError });
+      await idb.add('users', { id: 1 });
+      await expect(idb.add('users', { id: 1 })).rejects.toThrow(ConstraintError);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(expect.any(ConstraintError));
+
+      await expect(idb.addMany('users', [{ id: 1 }, { id: 2 }], { continueOnError: true })).resolves.toMatchObject({ failures: [{ index: 0 }] });
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describeOnBackends('observe and liveQuery', () => {
+
+    // Stands in for BroadcastChannel, which jsdom does not provide. Delivers to every other channel of the same name.
+    class FakeBroadcastChannel {
+      static open = new Set<FakeBroadcastChannel>();
+      onmessage: ((event: { data: unknown }) => void) | null = null;
+
+      constructor(readonly name: string) {
+        FakeBroadcastChannel.open.add(this);
+      }
+
+      postMessage(data: unknown) {
+        for (const channel of FakeBroadcastChannel.open) {
+          if (channel !== this && channel.name === this.name) {
+            setTimeout(() => channel.onmessage?.({ data: structuredClone(data) }));
+          }
+        }
+      }
+
+      close() {
+        FakeBroadcastChannel.open.delete(this);
+      }
+    }
+
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+    beforeEach(async () => {
+      (global as any).BroadcastChannel = FakeBroadcastChannel;
+      await idb.open('observe-db', 1, () => {
+        idb.createStore('users', { keyPath: 'id' });
+        idb.createStore('posts', { keyPath: 'slug' });
+        idb.createIndex('users', 'age', 'age');
+      });
+    });
+
+    afterEach(() => {
+      delete (global as any).BroadcastChannel;
+    });
+
+    it('should report committed writes with their type and keys', async () => {
+      const events: ChangeEvent[] = [];
+      idb.observe('users', (event) => events.push(event));
+      await idb.add('users', { id: 1, age: 30 });
+      await idb.put('users', { id: 1, age: 31 });
+      await idb.delete('users', 1);
+      await idb.clear('users');
+      await idb.add('posts', { slug: 'hello' });
+      await settle();
+      expect(events).toEqual([
+        { storeName: 'users', type: 'add', keys: [1], remote: false },
+        { storeName: 'users', type: 'put', keys: [1], remote: false },
+        { storeName: 'users', type: 'delete', keys: [1], remote: false },
+        { storeName: 'users', type: 'clear', keys: [], remote: false }
+      ]);
+    });
+
+    it('should report bulk writes, range deletes and transactions once per batch', async () => {
+      const events: ChangeEvent[] = [];
+      idb.observe('users', (event) => events.push(event));
+      await idb.addMany('users', [{ id: 1 }, { id: 2 }, { id: 3 }]);
+      await idb.deleteRange('users', { type: 'above', lower: 2 });
+      await idb.transaction(['users', 'posts'], 'readwrite', async (tx) => {
+        await tx.put('users', { id: 4 });
+        await tx.put('users', { id: 5 });
+        await tx.add('posts', { slug: 'hello' });
+      });
+      await settle();
+      expect(events.map(({ type, keys }) => ({ type, keys }))).toEqual([
+        { type: 'add', keys: [1, 2, 3] },
+        { type: 'delete', keys: [2, 3] },
+        { type: 'put', keys: [4, 5] }
+      ]);
+    });
+
+    it('should not report writes that were rolled back', async () => {
+      const callback = jest.fn();
+      idb.observe('users', callback);
+      await idb.add('users', { id: 1 });
+      await expect(idb.addMany('users', [{ id: 2 }, { id: 1 }])).rejects.toThrow(ConstraintError);
+      await settle();
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should filter by key range and index range', async () => {
+      const byKey = jest.fn();
+      const byAge = jest.fn();
+      idb.observe('users', byKey, { range: { type: 'between', lower: 10, upper: 20 } });
+      idb.observe('users', byAge, { index: 'age', range: { type: 'above', lower: 65 } });
+      await idb.put('users', { id: 1, age: 70 });
+      await idb.put('users', { id: 15, age: 30 });
+      await idb.delete('users', 2);
+      await settle();
+      expect(byKey.mock.calls.map(([event]) => event.keys)).toEqual([[15]]);
+      // Deletes always reach index observers: the deleted record's index key is no longer known.
+      expect(byAge.mock.calls.map(([event]) => event.type)).toEqual(['put', 'delete']);
+    });
+
+    it('should stop observing when unsubscribed', async () => {
+      const callback = jest.fn();
+      const unobserve = idb.observe('users', callback);
+      unobserve();
+      await idb.add('users', { id: 1 });
+      await settle();
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should relay changes to other connections on the same database', async () => {
+      const other = new SimpleIDB();
+      await other.open('observe-db', 1);
+      const events: ChangeEvent[] = [];
+      other.observe('users', (event) => events.push(event));
+      await idb.put('users', { id: 1, age: 40 });
+      await settle();
+      expect(events).toEqual([{ storeName: 'users', type: 'put', keys: [1], remote: true }]);
+      other.close();
+    });
+
+    it('should re-run live queries when a store they read changes', async () => {
+      const results: number[] = [];
+      const stop = idb.liveQuery(() => idb.count('users'), (count) => results.push(count));
+      await settle();
+      await idb.add('users', { id: 1 });
+      await settle();
+      await idb.add('posts', { slug: 'hello' });
+      await settle();
+      stop();
+      await idb.add('users', { id: 2 });
+      await settle();
+      expect(results).toEqual([0, 1]);
+    });
+
+    it('should report live query errors', async () => {
+      const onError = jest.fn();
+      const stop = idb.liveQuery(() => idb.get('missing', 1), jest.fn(), onError);
+      await settle();
+      stop();
+      expect(onError).toHaveBeenCalledWith(expect.any(NotFoundError));
+    });
+  });
+
+  describeOnBackends('export and import', () => {
+
+    const profile = {
+      id: 1,
+      joined: new Date('2024-01-02T03:04:05.000Z'),
+      tags: new Set(['a', 'b']),
+      prefs: new Map<string, unknown>([['theme', 'dark'], ['since', new Date(0)]]),
+      balance: BigInt('12345678901234567890'),
+      avatar: new Uint8Array([1, 2, 250]),
+      raw: new Uint16Array([1, 65535]).buffer,
+      ratio: NaN,
+      offset: -0,
+      missing: undefined,
+      meta: { $type: 'user-defined', nested: [Infinity] }
+    };
+
+    beforeEach(async () => {
+      await idb.open('dump-source', 3, () => {
+        idb.createStore('users', { keyPath: 'id' });
+        idb.createStore('settings');
+        idb.createIndex('users', 'joined', 'joined', { unique: true });
+      });
+      await idb.put('users', profile);
+      await idb.put('users', { id: 2, joined: new Date(1) });
+      await (idb as any).db.transaction(['settings'], 'readwrite').objectStore('settings').put('dark', new Date(5));
+    });
+
+    const exportJSON = async () => JSON.parse(JSON.stringify(await idb.exportDatabase()));
+
+    it('should export schema and records as JSON-safe data', async () => {
+      const dump = await exportJSON();
+      expect(dump).toMatchObject({ format: 'simple-idb-dump', formatVersion: 1, name: 'dump-source', version: 3 });
+      expect(dump.stores.map((store: any) => ({ ...store, records: store.records.length }))).toEqual([
+        { name: 'settings', keyPath: null, autoIncrement: false, indexes: [], records: 1 },
+        {
+          name: 'users',
+          keyPath: 'id',
+          autoIncrement: false,
+          indexes: [{ name: 'joined', keyPath: 'joined', unique: true, multiEntry: false }],
+          records: 2
+        }
+      ]);
+      expect(dump.stores[0].records[0]).toEqual({ key: { $type: 'Date', value: '1970-01-01T00:00:00.005Z' }, value: 'dark' });
+    });
+
+    it('should restore schema, records and structured-clone types into another database', async () => {
+      const dump = await exportJSON();
+      const target = new SimpleIDB();
+      await target.open('dump-target', 1);
+      await expect(target.importDatabase(dump, { mode: 'replace' })).rejects.toThrow(
+        'the dump needs schema changes (create object store "settings"; create object store "users"). Make them in a migration'
+      );
+      expect((target as any).db.version).toBe(1);
+      await expect(target.importDatabase(dump, { mode: 'replace', upgrade: true })).resolves.toBe(2);
+
+      expect((target as any).db.version).toBe(2);
+      const restored: any = await target.get('users', 1);
+      expect(restored).toEqual(profile);
+      expect(Object.is(restored.offset, -0)).toBe(true);
+      expect('missing' in restored).toBe(true);
+      await expect(target.get('settings', new Date(5))).resolves.toBe('dark');
+      await expect(target.getByIndex('users', 'joined', new Date(1))).resolves.toEqual({ id: 2, joined: new Date(1) });
+      target.close();
+    });
+
+    it('should replace or merge into existing stores', async () => {
+      const dump = await exportJSON();
+      await idb.put('users', { id: 1, joined: new Date(2) });
+      await idb.put('users', { id: 3, joined: new Date(3) });
+
+      await expect(idb.importDatabase(dump, { mode: 'merge' })).resolves.toBe(3);
+      await expect(idb.getAllKeys('users')).resolves.toEqual([1, 2, 3]);
+      await expect(idb.get('users', 1)).resolves.toEqual(profile);
+
+      await idb.importDatabase(dump, { mode: 'replace' });
+      await expect(idb.getAllKeys('users')).resolves.toEqual([1, 2]);
+    });
+
+    it('should refuse to merge into stores with different options', async () => {
+      const dump = await exportJSON();
+      dump.stores[1].keyPath = 'uid';
+      await expect(idb.importDatabase(dump, { mode: 'merge' })).rejects.toThrow(ConstraintError);
+      dump.stores[1].keyPath = 'id';
+      dump.stores[1].indexes[0].unique = false;
+      await expect(idb.importDatabase(dump, { mode: 'merge' })).rejects.toThrow('index "joined" on object store "users"');
+      expect((idb as any).db.version).toBe(3);
+    });
+
+    it('should replace stores and indexes with different options', async () => {
+      const dump = await exportJSON();
+      dump.stores[1].indexes[0].unique = false;
+      dump.stores[1].indexes.push({ name: 'ratio', keyPath: 'ratio', unique: false, multiEntry: false });
+      await expect(idb.importDatabase(dump, { mode: 'replace' })).rejects.toThrow(
+        '(delete index "joined" on object store "users"; create index "joined" on object store "users"; create index "ratio" on object store "users")'
+      );
+      await expect(idb.importDatabase(dump, { mode: 'replace', upgrade: true })).resolves.toBe(4);
+      expect((idb as any).db.version).toBe(4);
+      const store = (idb as any).db.transaction(['users'], 'readonly').objectStore('users');
+      expect(Array.from(store.indexNames)).toEqual(['joined', 'ratio']);
+      expect(store.index('joined').unique).toBe(false);
+    });
+
+    it('should validate the whole dump before writing anything', async () => {
+      const dump = await exportJSON();
+      await idb.clear('users');
+
+      await expect(idb.importDatabase({ ...dump, format: 'other' }, { mode: 'merge' })).rejects.toThrow(DataError);
+      await expect(idb.importDatabase({ ...dump, formatVersion: 2 }, { mode: 'merge' })).rejects.toThrow('format version 2 is not supported');
+      dump.stores[1].records[1].value = { $type: 'Nope' };
+      await expect(idb.importDatabase(dump, { mode: 'replace' })).rejects.toThrow('Invalid dump: stores[1].records[1].value has unknown type "Nope"');
+      await expect(idb.count('users')).resolves.toBe(0);
+    });
+
+    it('should encode blobs and files', async () => {
+      const [blob, file] = await encodeValues([
+        new Blob(['hello'], { type: 'text/plain' }),
+        new File(['data'], 'notes.txt', { type: 'text/plain', lastModified: 42 })
+      ]);
+      expect(blob).toEqual({ $type: 'Blob', mimeType: 'text/plain', value: btoa('hello') });
+      const decoded = decodeValue(JSON.parse(JSON.stringify(file)), 'file') as File;
+      expect(decoded).toBeInstanceOf(File);
+      expect(decoded).toMatchObject({ name: 'notes.txt', type: 'text/plain', lastModified: 42, size: 4 });
+    });
+  });
+
+  describeOnBackends('ttl', () => {
+
+    let now: number;
+
+    beforeEach(async () => {
+      now = 1_000_000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+      await idb.open('ttl-db', 1, () => {
+        idb.createStore('cache', { keyPath: 'url', ttl: 1000 });
+        idb.createStore('sessions', { keyPath: 'id', ttl: Infinity });
+        idb.createStore('users', { keyPath: 'id' });
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should stamp records with the store default and hide them once expired', async () => {
+      const entry = { url: '/a', body: 'A' };
+      await idb.put('cache', entry);
+      expect(entry).toEqual({ url: '/a', body: 'A' });
+      await expect(idb.get('cache', '/a')).resolves.toEqual({ url: '/a', body: 'A', _expiresAt: 1_001_000 });
+
+      now += 1000;
+      await expect(idb.get('cache', '/a')).resolves.toBeUndefined();
+      await expect(idb.getAll('cache')).resolves.toEqual([]);
+      await expect(idb.count('cache')).resolves.toBe(0);
+      await expect(idb.getAllKeys('cache')).resolves.toEqual(['/a']);
+    });
+
+    it('should skip expired records in index reads, iterate and count', async () => {
+      idb.close();
+      await idb.open('ttl-db', 2, () => idb.createIndex('cache', 'byKind', 'kind'));
+      await idb.put('cache', { url: '/a', kind: 'page' }, { ttl: 10 });
+      await idb.put('cache', { url: '/b', kind: 'page' });
+      await idb.put('cache', { url: '/c', kind: 'page' }, { ttl: 10 });
+      await idb.put('cache', { url: '/d', kind: 'page' });
+      now += 100;
+      const urls = (records: any[]) => records.map((record) => record.url);
+
+      await expect(idb.getByIndex('cache', 'byKind', 'page')).resolves.toMatchObject({ url: '/b' });
+      await expect(idb.getKeyByIndex('cache', 'byKind', 'page')).resolves.toBe('/b');
+      expect(urls(await idb.getAllByIndex('cache', 'byKind', 'page'))).toEqual(['/b', '/d']);
+      expect(urls(await idb.getAllByIndex('cache', 'byKind', 'page', 2))).toEqual(['/b', '/d']);
+      await expect(idb.countByIndex('cache', 'byKind', 'page')).resolves.toBe(2);
+      await expect(idb.count('cache', { type: 'between', lower: '/a', upper: '/c' })).resolves.toBe(1);
+
+      const iterated: string[] = [];
+      for await (const entry of idb.iterate<{ url: string }>('cache', { batchSize: 1 })) {
+        iterated.push(entry.value.url);
+      }
+      expect(iterated).toEqual(['/b', '/d']);
+
+      now += 2000;
+      await expect(idb.getByIndex('cache', 'byKind', 'page')).resolves.toBeUndefined();
+      await expect(idb.getKeyByIndex('cache', 'byKind', 'page')).resolves.toBeUndefined();
+    });
+
+    it('should let writes override the default TTL', async () => {
+      await idb.add('cache', { url: '/short' }, { ttl: 10 });
+      await idb.putMany('cache', [{ url: '/long' }], { ttl: 5000 });
+      await idb.transaction('sessions', 'readwrite', (tx) => tx.put('sessions', { id: 1 }, { ttl: 100 }));
+      await idb.put('sessions', { id: 2 });
+
+      now += 1000;
+      await expect(idb.getAllKeys('cache')).resolves.toEqual(['/long', '/short']);
+      await expect(idb.getAll('cache')).resolves.toEqual([{ url: '/long', _expiresAt: 1_005_000 }]);
+      await expect(idb.getAll('sessions')).resolves.toEqual([{ id: 2 }]);
+    });
+
+    it('should reject TTLs on stores without one and records that are not objects', async () => {
+      await expect(idb.put('users', { id: 1 }, { ttl: 10 })).rejects.toThrow('Object store "users" has no TTL');
+      await expect(idb.put('cache', { url: '/a' }, { ttl: -1 })).rejects.toThrow('Invalid ttl -1');
+      await expect(idb.put('sessions', 'token' as any)).rejects.toThrow(DataError);
+    });
+
+    it('should keep records with a past _expiresAt in stores without a TTL', async () => {
+      const user = { id: 1, _expiresAt: 5 };
+      await idb.put('users', user);
+      await expect(idb.get('users', 1)).resolves.toEqual(user);
+      await expect(idb.getAll('users', { limit: 1 })).resolves.toEqual([user]);
+      await expect(idb.query('users').toArray()).resolves.toEqual([user]);
+      await expect(idb.page('users')).resolves.toMatchObject({ items: [user] });
+      await expect(idb.count('users')).resolves.toBe(1);
+      await idb.update('users', 1, (current: any) => ({ ...current, name: 'Ann' }));
+      await expect(idb.get('users', 1)).resolves.toEqual({ ...user, name: 'Ann' });
+    });
+
+    it('should apply limit and offset to unexpired records only', async () => {
+      await idb.put('cache', { url: '/a' }, { ttl: 10 });
+      await idb.put('cache', { url: '/b' });
+      await idb.put('cache', { url: '/c' }, { ttl: 10 });
+      await idb.put('cache', { url: '/d' });
+      await idb.put('cache', { url: '/e' });
+      now += 100;
+      const urls = (records: any[]) => records.map((record) => record.url);
+      expect(urls(await idb.getAll('cache', { limit: 2 }))).toEqual(['/b', '/d']);
+      expect(urls(await idb.getAll('cache', { offset: 1, limit: 1 }))).toEqual(['/d']);
+      expect(urls(await idb.getAll('cache', { direction: 'prev', limit: 3 }))).toEqual(['/e', '/d', '/b']);
+    });
+
+    it('should purge expired records through the expiry index', async () => {
+      const events: ChangeEvent[] = [];
+      idb.observe('cache', (event) => events.push(event));
+      await idb.putMany('cache', [{ url: '/a' }, { url: '/b' }]);
+      await idb.put('cache', { url: '/c' }, { ttl: 5000 });
+      now += 2000;
+      await expect(idb.purgeExpired('cache')).resolves.toBe(2);
+      await expect(idb.getAllKeys('cache')).resolves.toEqual(['/c']);
+      expect(events[events.length - 1]).toMatchObject({ type: 'delete', keys: ['/a', '/b'] });
+      await expect(idb.purgeExpired('users')).rejects.toThrow('has no TTL');
+    });
+
+    it('should compare and change the TTL of existing stores', async () => {
+      await idb.put('cache', { url: '/a' });
+      idb.close();
+      await expect(idb.open('ttl-db', 2, () => idb.createStore('cache', { keyPath: 'url', ttl: 50 })))
+        .rejects.toThrow('ttl: 1000, requested 50');
+      await idb.open('ttl-db', 2, () => idb.recreateStore('cache', { keyPath: 'url', ttl: 50 }));
+      await expect(idb.get('cache', '/a')).resolves.toEqual({ url: '/a', _expiresAt: 1_001_000 });
+      await idb.put('cache', { url: '/b' });
+      await expect(idb.get('cache', '/b')).resolves.toEqual({ url: '/b', _expiresAt: 1_000_050 });
+    });
+
+    it('should purge in the background while the connection is open', async () => {
+      idb.close();
+      await idb.open('ttl-db', 1, { purgeInterval: 10 });
+      await idb.put('cache', { url: '/a' });
+      now += 2000;
+      // count() skips expired records, so count what is stored. Each sweep runs its own transactions, so
+      // poll rather than wait for a fixed number of intervals.
+      const stored = () =>
+        new Promise<number>((resolve) => {
+          const request = (idb as any).db.transaction(['cache'], 'readonly').objectStore('cache').count();
+          request.onsuccess = () => resolve(request.result);
+        });
+      for (let attempt = 0; attempt < 100 && (await stored()) > 0; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      await expect(stored()).resolves.toBe(0);
+    });
+
+    it('should stop a running sweep when the connection closes', async () => {
+      idb.close();
+      const onError = jest.fn();
+      const lazy = new SimpleIDB({ open: { name: 'ttl-db', version: 1, purgeInterval: 10, onError } });
+      const states: ConnectionState[] = [];
+      lazy.onConnectionChange((state) => states.push(state));
+      await lazy.put('cache', { url: '/a' });
+      now += 2000;
+      // Closes the connection once the sweep has purged "cache", before it moves on to "sessions".
+      const purged = new Promise<void>((resolve) => {
+        lazy.observe('cache', (event) => {
+          if (event.type === 'delete') {
+            lazy.close();
+            resolve();
+          }
+        });
+      });
+      await purged;
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(states).toEqual(['opening', 'open', 'closed']);
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
+  describeOnBackends('encryption', () => {
+
+    interface Patient {
+      id: number;
+      name: string;
+      email: string;
+      age: number;
+      notes: { diagnosis: string };
+    }
+
+    const patients: Patient[] = [
+      { id: 1, name: 'Ada', email: 'ada@example.com', age: 36, notes: { diagnosis: 'flu' } },
+      { id: 2, name: 'Grace', email: 'grace@example.com', age: 45, notes: { diagnosis: 'none' } }
+    ];
+
+    let keys: Record<string, CryptoKey>;
+    let hmacKey: CryptoKey;
+    let db: SimpleIDB;
+
+    const aesKey = () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']) as Promise<CryptoKey>;
+    const codecs = (codecKeys: Record<string, CryptoKey>, currentKeyId: string) => ({
+      patients: aesGcmCodec({ keys: codecKeys, currentKeyId, plaintext: ['age'], hashed: ['email'], hmacKey })
+    });
+    const openWith = async (codecKeys: Record<string, CryptoKey>, currentKeyId: string) => {
+      const next = new SimpleIDB({ codecs: codecs(codecKeys, currentKeyId) });
+      await next.open('health-db', 1);
+      return next;
+    };
+    const raw = (from: SimpleIDB) => from.transaction('patients', 'readonly', (tx) => new Promise<any[]>((resolve) => {
+      const request = tx.objectStore('patients').getAll();
+      request.onsuccess = () => resolve(request.result);
+    }));
+
+    beforeEach(async () => {
+      keys = { k1: await aesKey() };
+      hmacKey = (await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])) as CryptoKey;
+      db = new SimpleIDB({ codecs: codecs(keys, 'k1') });
+      await db.open('health-db', 1, () => {
+        db.createStore('patients', { keyPath: 'id' });
+        db.createIndex('patients', 'age', 'age');
+        db.createIndex('patients', 'email', 'email', { unique: true });
+      });
+      await db.putMany('patients', patients);
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('should store only the key and plaintext fields readable and decrypt on every read', async () => {
+      const stored = await raw(db);
+      expect(stored[0]).toEqual({ id: 1, age: 36, email: expect.any(String), [ENCRYPTED]: { key: 'k1', iv: expect.any(Uint8Array), data: expect.any(Uint8Array) } });
+      expect(stored[0].email).not.toContain('ada');
+      expect(JSON.stringify(stored)).not.toContain('flu');
+
+      await expect(db.get('patients', 1)).resolves.toEqual(patients[0]);
+      await expect(db.getAll('patients')).resolves.toEqual(patients);
+      await expect(db.getAllByIndex('patients', 'age', { type: 'above', lower: 40 })).resolves.toEqual([patients[1]]);
+      await expect(db.page('patients', { pageSize: 1 })).resolves.toMatchObject({ items: [patients[0]] });
+      await expect(db.query('patients').where('age').below(40).toArray()).resolves.toEqual([patients[0]]);
+      const iterated: unknown[] = [];
+      for await (const entry of db.iterate('patients')) {
+        iterated.push(entry.value);
+      }
+      expect(iterated).toEqual(patients);
+    });
+
+    it('should look up hashed fields by equality', async () => {
+      await expect(db.getByIndex('patients', 'email', 'grace@example.com')).resolves.toEqual(patients[1]);
+      await expect(db.getKeyByIndex('patients', 'email', { type: 'only', value: 'ada@example.com' })).resolves.toBe(1);
+      await expect(db.countByIndex('patients', 'email', 'nobody@example.com')).resolves.toBe(0);
+      await expect(db.add('patients', { ...patients[0], id: 3 })).rejects.toThrow(ConstraintError);
+    });
+
+    it('should reject indexes on encrypted fields and ranges on hashed ones', async () => {
+      db.close();
+      await expect(db.open('health-db', 2, () => db.createIndex('patients', 'diagnosis', 'notes.diagnosis'))).rejects.toThrow(
+        'Cannot use index "diagnosis" on object store "patients"'
+      );
+      // An index created without the codec holds no entries for encrypted records.
+      const plain = new SimpleIDB();
+      await plain.open('health-db', 2, () => plain.createIndex('patients', 'name', 'name'));
+      plain.close();
+      db = new SimpleIDB({ codecs: codecs(keys, 'k1') });
+      await db.open('health-db', 2);
+      await expect(db.getAllByIndex('patients', 'name', 'Ada')).rejects.toThrow('does not keep its fields readable');
+      await expect(db.countByIndex('patients', 'name')).rejects.toThrow('does not keep its fields readable');
+
+      await expect(db.getAllByIndex('patients', 'email', { type: 'above', lower: 'a' })).rejects.toThrow('Cannot read a range of index "email"');
+      await expect(db.page('patients', { index: 'email', range: { type: 'above', lower: 'a' } })).rejects.toThrow('Cannot read a range');
+      await expect(db.page('patients', { index: 'email', range: 'grace@example.com' })).resolves.toMatchObject({ items: [patients[1]] });
+      const iterated: unknown[] = [];
+      for await (const entry of db.iterate('patients', { index: 'email', range: 'ada@example.com' })) {
+        iterated.push(entry.value);
+      }
+      expect(iterated).toEqual([patients[0]]);
+    });
+
+    it('should match query conditions against the stored fields', async () => {
+      await expect(db.query('patients').where('email').equals('ada@example.com').toArray()).resolves.toEqual([patients[0]]);
+      await expect(db.query('patients').where('email').equals('ada@example.com').count()).resolves.toBe(1);
+      await expect(db.query('patients').where('age').above(40).where('email').equals('grace@example.com').keys()).resolves.toEqual([2]);
+      await expect(db.query('patients').where('id').equals(2).first()).resolves.toEqual(patients[1]);
+      await expect(db.query('patients').where('name').equals('Ada').toArray()).rejects.toThrow(
+        'Cannot use where("name") on object store "patients", since the store\'s codec does not keep that field readable'
+      );
+      await expect(db.query('patients').orderBy('notes.diagnosis').toArray()).rejects.toThrow(SimpleIDBError);
+      await expect(db.query('patients').where('email').startsWith('ada').count()).rejects.toThrow(/Use equals\(\) instead/);
+    });
+
+    it('should update and patch encrypted records', async () => {
+      await expect(db.patch('patients', 1, { notes: { diagnosis: 'recovered' } })).resolves.toEqual({ ...patients[0], notes: { diagnosis: 'recovered' } });
+      await db.update('patients', 2, (patient: Patient) => ({ ...patient, age: patient.age + 1 }));
+      await expect(db.get('patients', 1)).resolves.toMatchObject({ notes: { diagnosis: 'recovered' } });
+      await expect(db.getAllByIndex('patients', 'age', 46)).resolves.toEqual([{ ...patients[1], age: 46 }]);
+      await expect(db.update('patients', 9, (patient) => patient)).rejects.toThrow(NotFoundError);
+      // Both updates read age 46; the one that loses the race retries on the other's result.
+      const older = (patient: Patient) => ({ ...patient, age: patient.age + 1 });
+      await Promise.all([db.update('patients', 2, older), db.update('patients', 2, older)]);
+      await expect(db.get('patients', 2)).resolves.toMatchObject({ age: 48 });
+      await db.update('patients', 2, () => DELETE_RECORD);
+      await expect(db.count('patients')).resolves.toBe(1);
+    });
+
+    it('should fail with a CodecError when the key is wrong or unknown', async () => {
+      db.close();
+      const wrong = await openWith({ k1: await aesKey() }, 'k1');
+      await expect(wrong.get('patients', 1)).rejects.toThrow(CodecError);
+      await expect(wrong.getAll('patients')).rejects.toThrow(/the key is wrong or the record was tampered with/);
+      wrong.close();
+
+      const unknown = await openWith({ k2: await aesKey() }, 'k2');
+      await expect(unknown.get('patients', 1)).rejects.toThrow(/encrypted with key "k1", which is not among the codec's keys/);
+      unknown.close();
+    });
+
+    it('should re-encrypt a store under a new key', async () => {
+      db.close();
+      const k2 = await aesKey();
+      const rotating = await openWith({ ...keys, k2 }, 'k2');
+      await expect(rotating.reencodeStore('patients', { batchSize: 1 })).resolves.toBe(2);
+      expect((await raw(rotating)).map((record) => record[ENCRYPTED].key)).toEqual(['k2', 'k2']);
+      rotating.close();
+
+      const rotated = await openWith({ k2 }, 'k2');
+      await expect(rotated.getAll('patients')).resolves.toEqual(patients);
+      await expect(rotated.getByIndex('patients', 'email', 'ada@example.com')).resolves.toEqual(patients[0]);
+      rotated.close();
+    });
+
+    it('should refuse what cannot decode records', async () => {
+      await expect(db.transaction('patients', 'readonly', (tx) => tx.get('patients', 1))).rejects.toThrow(/inside transaction\(\), since the store has a codec/);
+      expect(() => db.query('patients').filter(() => true)).toThrow(SimpleIDBError);
+      await expect(db.reencodeStore('other')).rejects.toThrow(/has no codec/);
+      expect(() => aesGcmCodec({ keys, currentKeyId: 'missing' })).toThrow(DataError);
+    });
+
+    it('should not store search tokens of encrypted records', async () => {
+      db.close();
+      const upgrading = new SimpleIDB({ codecs: codecs(keys, 'k1') });
+      await expect(upgrading.open('health-db', 2, () => upgrading.createSearchIndex('patients', 'notes', 'notes.diagnosis'))).rejects.toThrow(
+        /cannot have both a codec and a search index/
+      );
+
+      // A search index created without the codec keeps encrypted writes out.
+      const plain = new SimpleIDB();
+      await plain.open('health-db', 2, () => plain.createSearchIndex('patients', 'notes', 'notes.diagnosis'));
+      plain.close();
+      db = new SimpleIDB({ codecs: codecs(keys, 'k1') });
+      await db.open('health-db', 2);
+      await expect(db.put('patients', { ...patients[0], notes: { diagnosis: 'severe depression' } })).rejects.toThrow(/cannot have both a codec and a search index/);
+      const stored = await raw(db);
+      expect(JSON.stringify(stored)).not.toContain('severe');
+      expect(stored[0]._search).toEqual({ notes: [] });
+    });
+
+    it('should restore keys generated by autoIncrement', async () => {
+      db.close();
+      const auto = new SimpleIDB({ codecs: { notes: aesGcmCodec({ keys, currentKeyId: 'k1' }) } });
+      await auto.open('notes-db', 1, () => auto.createStore('notes', { keyPath: 'id', autoIncrement: true }));
+      await expect(auto.addMany('notes', [{ text: 'first' }, { text: 'second' }])).resolves.toEqual([1, 2]);
+      await expect(auto.get('notes', 2)).resolves.toEqual({ id: 2, text: 'second' });
+      auto.close();
+    });
+  });
+
+  describeOnBackends('serialize hooks', () => {
+
+    interface Doc {
+      id: number;
+      title: string;
+      body: string;
+      draft?: boolean;
+    }
+
+    const docs: Doc[] = [
+      { id: 1, title: 'alpha', body: 'a'.repeat(50) },
+      { id: 2, title: 'beta', body: 'b'.repeat(50) }
+    ];
+
+    const dropDraft = ({ draft, ...rest }: Doc) => rest;
+    // Stands in for CompressionStream, which jsdom lacks; async like it.
+    const pack = async (value: Doc) => ({ packed: new TextEncoder().encode(JSON.stringify(value)) });
+    const unpack = async (stored: { packed: Uint8Array }) => JSON.parse(new TextDecoder().decode(stored.packed));
+    let db: SimpleIDB;
+
+    beforeEach(async () => {
+      db = new SimpleIDB({ stores: { docs: { serialize: [dropDraft, pack], deserialize: unpack } } });
+      await db.open('docs-db', 1, () => {
+        db.createStore('docs', { keyPath: 'id' });
+        db.createIndex('docs', 'title', 'title');
+      });
+      await db.putMany('docs', docs.map((doc) => ({ ...doc, draft: true })));
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('should run the pipeline on every write and read and keep key and index fields readable', async () => {
+      const stored = await db.transaction('docs', 'readonly', (tx) => new Promise<any>((resolve) => {
+        const request = tx.objectStore('docs').get(1);
+        request.onsuccess = () => resolve(request.result);
+      }));
+      expect(stored).toEqual({ id: 1, title: 'alpha', packed: expect.anything() });
+      expect(ArrayBuffer.isView(stored.packed)).toBe(true);
+
+      await expect(db.get('docs', 1)).resolves.toEqual(docs[0]);
+      await expect(db.getAll('docs', { limit: 1, offset: 1 })).resolves.toEqual([docs[1]]);
+      await expect(db.getByIndex('docs', 'title', 'beta')).resolves.toEqual(docs[1]);
+      await expect(db.page('docs', { index: 'title', direction: 'prev' })).resolves.toEqual({ items: [docs[1], docs[0]], nextToken: null });
+      await expect(db.query('docs').where('title').startsWith('al').first()).resolves.toEqual(docs[0]);
+      for await (const entry of db.iterate<Doc>('docs', { mode: 'readwrite' })) {
+        await entry.update({ ...entry.value, body: 'short', draft: true });
+      }
+      await expect(db.getAll('docs')).resolves.toEqual(docs.map((doc) => ({ ...doc, body: 'short' })));
+      await expect(db.patch('docs', 2, { title: 'gamma' })).resolves.toEqual({ ...docs[1], body: 'short', title: 'gamma' });
+      await expect(db.getKeyByIndex('docs', 'title', 'gamma')).resolves.toBe(2);
+    });
+
+    it('should take hooks for every open from the constructor', async () => {
+      class Money {
+        constructor(readonly cents: number) {}
+        format() {
+          return `$${(this.cents / 100).toFixed(2)}`;
+        }
+      }
+      db.close();
+      const ledger = new SimpleIDB({
+        stores: {
+          prices: {
+            serialize: (price: { sku: string; amount: Money }) => ({ ...price, amount: price.amount.cents }),
+            deserialize: (stored: { sku: string; amount: number }) => ({ ...stored, amount: new Money(stored.amount) })
+          }
+        }
+      });
+      await ledger.open('ledger-db', 1, () => ledger.createStore('prices', { keyPath: 'sku' }));
+      await ledger.add('prices', { sku: 'tea', amount: new Money(450) });
+      ledger.close();
+      await ledger.open('ledger-db', 1);
+      const price = await ledger.get<{ sku: string; amount: Money }>('prices', 'tea');
+      expect(price?.amount).toBeInstanceOf(Money);
+      expect(price?.amount.format()).toBe('$4.50');
+      ledger.close();
+    });
+
+    it('should run before a codec', async () => {
+      db.close();
+      const key = (await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])) as CryptoKey;
+      const secure = new SimpleIDB({
+        codecs: { docs: aesGcmCodec({ keys: { k1: key }, currentKeyId: 'k1', plaintext: ['title'] }) },
+        stores: { docs: { serialize: dropDraft } }
+      });
+      await secure.open('secure-db', 1, () => secure.createStore('docs', { keyPath: 'id' }));
+      await secure.put('docs', { ...docs[0], draft: true });
+      await expect(secure.get('docs', 1)).resolves.toEqual(docs[0]);
+      secure.close();
+    });
+
+    it('should only take hooks in createStore() that the constructor declares too', async () => {
+      db.close();
+      const local = new SimpleIDB();
+      await expect(local.open('local-db', 1, () => local.createStore('docs', { keyPath: 'id', serialize: pack, deserialize: unpack }))).rejects.toThrow(
+        'Cannot pass serialize, deserialize to createStore() for object store "docs" unless new SimpleIDB({ stores }) declares the same for it.'
+      );
+      const declared = new SimpleIDB({ stores: { docs: { serialize: [dropDraft, pack], deserialize: unpack } } });
+      await expect(declared.open('declared-db', 1, () => declared.createStore('docs', { keyPath: 'id', serialize: [pack] }))).rejects.toThrow(
+        'Cannot pass serialize to createStore()'
+      );
+      await declared.open('declared-db', 2, () => declared.createStore('docs', { keyPath: 'id', serialize: [dropDraft, pack], deserialize: unpack }));
+      await declared.put('docs', { ...docs[0], draft: true });
+      await expect(declared.get('docs', 1)).resolves.toEqual(docs[0]);
+      declared.close();
+    });
+
+    it('should reject invalid hooks and serialized records that lose their key', async () => {
+      db.close();
+      expect(() => new SimpleIDB({ stores: { docs: { serialize: 'gzip' as any } } })).toThrow(DataError);
+      const broken = new SimpleIDB({ stores: { docs: { serialize: (doc: Doc) => JSON.stringify(doc) } } });
+      await broken.open('broken-db', 1, () => broken.createStore('docs', { keyPath: 'id' }));
+      await expect(broken.put('docs', docs[0])).rejects.toThrow(/must return an object/);
+      broken.close();
+    });
+  });
+
+  describeOnBackends('validation', () => {
+
+    const userSchema: JSONSchema = {
+      type: 'object',
+      required: ['id', 'name', 'email'],
+      additionalProperties: false,
+      properties: {
+        id: { type: 'integer', minimum: 1 },
+        name: { type: 'string', minLength: 1 },
+        email: { type: 'string', pattern: '^[^@]+@[^@]+$' },
+        age: { type: 'integer', minimum: 0 },
+        tags: { type: 'array', items: { enum: ['admin', 'staff'] } }
+      }
+    };
+    const ada = { id: 1, name: 'Ada', email: 'ada@example.com', age: 36 };
+    let db: SimpleIDB;
+
+    const issuesOf = async (promise: Promise<unknown>) => {
+      const error = await promise.then(() => null, (caught) => caught);
+      expect(error).toBeInstanceOf(ValidationError);
+      return (error as ValidationError).issues;
+    };
+
+    beforeEach(async () => {
+      db = new SimpleIDB({ stores: { users: { validate: userSchema } } });
+      await db.open('valid-db', 1, () => db.createStore('users', { keyPath: 'id' }));
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('should reject invalid writes with the failing paths', async () => {
+      await db.add('users', ada);
+      await expect(issuesOf(db.put('users', { id: 2, name: '', email: 'nope', tags: ['admin', 'guest'], extra: true }))).resolves.toEqual([
+        { path: 'name', message: 'expected at least 1 character' },
+        { path: 'email', message: 'expected to match /^[^@]+@[^@]+$/' },
+        { path: 'tags.1', message: 'expected one of "admin", "staff"' },
+        { path: 'extra', message: 'is not allowed' }
+      ]);
+      await expect(issuesOf(db.add('users', { id: 3, name: 'Bob', age: 1.5 }))).resolves.toEqual([
+        { path: 'email', message: 'is required' },
+        { path: 'age', message: 'expected integer, got number' }
+      ]);
+      await expect(db.put('users', { ...ada, age: -1 })).rejects.toThrow('Invalid record for object store "users": age: expected >= 0');
+      await expect(db.put('users', { ...ada, age: -1 })).rejects.toThrow(DataError);
+      await expect(db.getAll('users')).resolves.toEqual([ada]);
+    });
+
+    it('should check bulk writes, updates and transactions', async () => {
+      const invalid = { id: 5, name: 'Eve' };
+      await expect(db.putMany('users', [ada, invalid])).rejects.toMatchObject({ name: 'ValidationError', key: 5 });
+      await expect(db.count('users')).resolves.toBe(0);
+      const report = await db.putMany('users', [ada, invalid], { continueOnError: true });
+      expect(report.failures).toEqual([{ index: 1, key: 5, error: { name: 'ValidationError', message: expect.stringContaining('email: is required') } }]);
+
+      await expect(db.patch('users', 1, { age: -5 })).rejects.toThrow(ValidationError);
+      await expect(db.update('users', 1, (user: any) => ({ ...user, name: 7 }))).rejects.toThrow(/name: expected string, got integer/);
+      await expect(db.transaction('users', 'readwrite', (tx) => tx.put('users', invalid))).rejects.toThrow(ValidationError);
+      for await (const entry of db.iterate<typeof ada>('users', { mode: 'readwrite' })) {
+        await expect(entry.update({ ...entry.value, email: '' })).rejects.toThrow(ValidationError);
+      }
+      await expect(db.get('users', 1)).resolves.toEqual(ada);
+    });
+
+    it('should accept predicates and Standard Schemas', async () => {
+      db.close();
+      const standard = {
+        '~standard': {
+          version: 1 as const,
+          vendor: 'test',
+          validate: async (value: any) =>
+            typeof value.sku === 'string' ? { value } : { issues: [{ message: 'Expected a string', path: [{ key: 'sku' }] }] }
+        }
+      };
+      const typed = new SimpleIDB({ stores: { notes: { validate: (note: { text?: unknown }) => typeof note.text === 'string' }, items: { validate: standard } } });
+      await typed.open('typed-db', 1, () => {
+        typed.createStore('notes', { autoIncrement: true });
+        typed.createStore('items', { keyPath: 'id' });
+      });
+      await expect(issuesOf(typed.add('notes', { text: 1 }))).resolves.toEqual([{ path: '', message: 'rejected by the validator' }]);
+      await expect(issuesOf(typed.put('items', { id: 1, sku: 2 }))).resolves.toEqual([{ path: 'sku', message: 'Expected a string' }]);
+      await typed.put('items', { id: 1, sku: 'a' });
+      await expect(typed.patch('items', 1, { sku: 'b' })).rejects.toThrow(/validator of object store "items" is async/);
+      expect(() => new SimpleIDB({ stores: { items: { validate: 'strict' as any } } })).toThrow(DataError);
+      typed.close();
+    });
+
+    it('should read the store once to validate and encode a write', async () => {
+      db.close();
+      const packed = new SimpleIDB({
+        stores: { users: { validate: userSchema, serialize: (user: typeof ada) => ({ ...user, packed: true }), deserialize: ({ packed: _packed, ...user }: any) => user } }
+      });
+      await packed.open('packed-db', 1, () => packed.createStore('users', { keyPath: 'id' }));
+      const transaction = jest.spyOn((packed as any).db as IDBDatabase, 'transaction');
+      await packed.put('users', ada);
+      expect(transaction.mock.calls.map(([, mode]) => mode)).toEqual(['readonly', 'readwrite']);
+      await expect(packed.get('users', 1)).resolves.toEqual(ada);
+      packed.close();
+    });
+
+    it('should leave out the properties the store adds', async () => {
+      db.close();
+      const cache = new SimpleIDB({ stores: { pages: { validate: { additionalProperties: false, properties: { url: {}, body: {} } }, validateOnRead: true } } });
+      await cache.open('cache-db', 1, () => {
+        cache.createStore('pages', { keyPath: 'url', ttl: 60_000 });
+        cache.createSearchIndex('pages', 'text', 'body');
+      });
+      await cache.put('pages', { url: '/a', body: 'hello world' });
+      await expect(cache.patch('pages', '/a', { body: 'hello again' })).resolves.toMatchObject({ body: 'hello again' });
+      await expect(cache.search('pages', 'text', 'again')).resolves.toHaveLength(1);
+      cache.close();
+    });
+
+    it('should validate reads when asked to', async () => {
+      await db.put('users', ada);
+      await db.transaction('users', 'readwrite', (tx) => tx.objectStore('users').put({ id: 2, name: 'Legacy' }));
+      await expect(db.getAll('users')).resolves.toHaveLength(2);
+      db.close();
+
+      const strict = new SimpleIDB({ stores: { users: { validate: userSchema, validateOnRead: true } } });
+      await strict.open('valid-db', 1);
+      await expect(strict.get('users', 1)).resolves.toEqual(ada);
+      await expect(strict.get('users', 2)).rejects.toMatchObject({ name: 'ValidationError', operation: 'get', key: 2 });
+      await expect(strict.query('users').toArray()).rejects.toThrow(ValidationError);
+      strict.close();
+    });
+  });
+
+  describeOnBackends('plugins', () => {
+
+    let db: SimpleIDB;
+
+    beforeEach(async () => {
+      db = new SimpleIDB();
+      await db.open('plugin-db', 1, () => db.createStore('users', { keyPath: 'id' }));
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('should run before() in order and after() in reverse', async () => {
+      const calls: string[] = [];
+      const tracing = (name: string): SimpleIDBPlugin => ({
+        name,
+        before: (context) => {
+          calls.push(`${name} before ${context.operation} ${context.storeName} ${JSON.stringify(context.key)}`);
+        },
+        after: () => {
+          calls.push(`${name} after`);
+        }
+      });
+      db.use(tracing('outer'));
+      db.use(tracing('inner'));
+      await db.get('users', 1);
+      expect(calls).toEqual(['outer before get users 1', 'inner before get users 1', 'inner after', 'outer after']);
+    });
+
+    it('should let before() change the arguments and after() the result', async () => {
+      db.use({
+        name: 'audit',
+        before: (context) => {
+          if (context.operation === 'put' || context.operation === 'add') {
+            context.value = { ...(context.value as object), updatedBy: 'ada' };
+          }
+        }
+      });
+      db.use({
+        name: 'redact',
+        after: (context, result) => (context.operation === 'get' && result ? { result: { ...(result as object), secret: undefined } } : undefined)
+      });
+      await db.put('users', { id: 1, name: 'Ada', secret: 'x' });
+      await expect(db.get('users', 1)).resolves.toEqual({ id: 1, name: 'Ada', secret: undefined, updatedBy: 'ada' });
+      await expect(db.getAll('users')).resolves.toEqual([{ id: 1, name: 'Ada', secret: 'x', updatedBy: 'ada' }]);
+    });
+
+    it('should skip the operation when before() returns a result', async () => {
+      const cache = new Map<string, unknown>([['users:1', { id: 1, name: 'Cached' }]]);
+      const timings: number[] = [];
+      db.use({
+        name: 'timing',
+        before: (context) => {
+          context.state.start = Date.now();
+        },
+        after: (context) => {
+          timings.push(Date.now() - (context.state.start as number));
+        }
+      });
+      db.use({
+        name: 'cache',
+        before: (context) => {
+          const key = `${context.storeName}:${String(context.key)}`;
+          return context.operation === 'get' && cache.has(key) ? { result: cache.get(key) } : undefined;
+        }
+      });
+      await db.put('users', { id: 1, name: 'Stored' });
+      await expect(db.get('users', 1)).resolves.toEqual({ id: 1, name: 'Cached' });
+      await expect(db.count('users')).resolves.toBe(1);
+      expect(timings).toHaveLength(3);
+    });
+
+    it('should call onError() and still reject', async () => {
+      const errors: Array<[string, unknown]> = [];
+      db.use({ name: 'errors', onError: (context, error) => void errors.push([context.operation, error]) });
+      await db.add('users', { id: 1 });
+      await expect(db.add('users', { id: 1 })).rejects.toThrow(ConstraintError);
+      db.use({
+        name: 'readonly',
+        before: (context) => {
+          if (context.operation !== 'get') {
+            throw new Error('read-only');
+          }
+        }
+      });
+      await expect(db.delete('users', 1)).rejects.toThrow('read-only');
+      expect(errors.map(([operation, error]) => [operation, (error as Error).name])).toEqual([
+        ['add', 'ConstraintError'],
+        ['delete', 'Error']
+      ]);
+      await expect(db.get('users', 1)).resolves.toEqual({ id: 1 });
+    });
+
+    it('should stop running a plugin once it is removed', async () => {
+      const seen: string[] = [];
+      const remove = db.use({ name: 'log', before: (context) => void seen.push(context.operation) });
+      expect(() => db.use({ name: 'log' })).toThrow(ConstraintError);
+      expect(() => db.use({ name: '' })).toThrow(DataError);
+      await db.count('users');
+      remove();
+      await db.count('users');
+      expect(seen).toEqual(['count']);
+      expect(() => db.use({ name: 'log' })).not.toThrow();
+    });
+
+    it('should run around queries, iterate() writes, transactions and maintenance calls', async () => {
+      const seen: string[] = [];
+      db.use({
+        name: 'log',
+        before: (context) => {
+          seen.push(`${context.operation} ${context.storeName ?? context.storeNames?.join(',')}`);
+          if (context.operation === 'put') {
+            context.value = { ...(context.value as object), updatedBy: 'ada' };
+          }
+        },
+        onError: (context) => void seen.push(`${context.operation} failed`)
+      });
+      await db.transaction('users', 'readwrite', (tx) => tx.put('users', { id: 1 }));
+      await expect(db.query('users').toArray()).resolves.toEqual([{ id: 1 }]);
+      await db.query('users').first();
+      await db.query('users').keys();
+      await db.query('users').count();
+      for await (const entry of db.iterate('users', { mode: 'readwrite' })) {
+        await entry.update({ ...(entry.value as object), name: 'Ada' });
+      }
+      await expect(db.get('users', 1)).resolves.toEqual({ id: 1, name: 'Ada', updatedBy: 'ada' });
+      await expect(db.purgeExpired('users')).rejects.toThrow('has no TTL');
+      await expect(db.reencodeStore('users')).rejects.toThrow('has no codec');
+      await db.importDatabase(await db.exportDatabase(), { mode: 'merge' });
+      for await (const entry of db.iterate('users', { mode: 'readwrite' })) {
+        await entry.delete();
+      }
+      await expect(db.query('users').delete()).resolves.toBe(0);
+      expect(seen).toEqual([
+        'transaction users',
+        'query users',
+        'queryFirst users',
+        'queryKeys users',
+        'queryCount users',
+        'put users',
+        'get users',
+        'purgeExpired users',
+        'purgeExpired failed',
+        'reencodeStore users',
+        'reencodeStore failed',
+        'importDatabase undefined',
+        'delete users',
+        'queryDelete users'
+      ]);
+    });
+
+    it('should let plugins change the schema on upgrade', async () => {
+      db.close();
+      const versions: number[] = [];
+      const plugin: SimpleIDBPlugin = {
+        name: 'audit-log',
+        upgrade: (context) => {
+          versions.push(context.version);
+          context.createStore('auditLog', { autoIncrement: true });
+          context.createIndex('auditLog', 'byStore', 'storeName');
+        },
+        after: async (context) => {
+          if (context.operation === 'put') {
+            await plugged.add('auditLog', { storeName: context.storeName, key: (context.value as { id: number }).id });
+          }
+        }
+      };
+      const plugged = new SimpleIDB();
+      plugged.use(plugin);
+      await plugged.open('plugin-db', 2, { migrations: { 2: (context) => context.createIndex('users', 'byName', 'name') } });
+      await plugged.put('users', { id: 1, name: 'Ada' });
+      await expect(plugged.getAllByIndex('auditLog', 'byStore', 'users')).resolves.toEqual([{ storeName: 'users', key: 1 }]);
+      expect(versions).toEqual([2]);
+      plugged.close();
+
+      const failing = new SimpleIDB();
+      failing.use({ name: 'broken', upgrade: () => { throw new Error('no space'); } });
+      await expect(failing.open('plugin-db', 3, { migrations: { 3: () => undefined } })).rejects.toThrow('Plugin "broken" failed to upgrade the database: no space');
+    });
+  });
+
+  describe('lazy open', () => {
+    useFakeIndexedDB();
+
+    let lazy: SimpleIDB;
+    let states: Array<[ConnectionState, string | undefined]>;
+
+    const createLazy = (options?: Partial<LazyOpenOptions>) => {
+      const db: SimpleIDB = new SimpleIDB({
+        open: { name: 'lazy-db', version: 1, upgrade: () => db.createStore('users', { keyPath: 'id' }), ...options }
+      });
+      states = [];
+      db.onConnectionChange((state, error) => states.push([state, error?.message]));
+      return db;
+    };
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+    beforeEach(() => {
+      lazy = createLazy();
+    });
+
+    afterEach(() => {
+      lazy.close();
+    });
+
+    it('should open on first use and queue the calls made meanwhile', async () => {
+      expect(lazy.connectionState).toBe('closed');
+      await expect(Promise.all([lazy.get('users', 1), lazy.getAll('users'), lazy.query('users').count()])).resolves.toEqual([undefined, [], 0]);
+      await lazy.put('users', { id: 1, name: 'Ada' });
+      await expect(lazy.ready).resolves.toBeUndefined();
+      expect(lazy.connectionState).toBe('open');
+      expect(states).toEqual([['opening', undefined], ['open', undefined]]);
+    });
+
+    it('should reopen on the next call after close()', async () => {
+      await lazy.put('users', { id: 1 });
+      lazy.close();
+      expect(lazy.connectionState).toBe('closed');
+      await expect(lazy.transaction('users', 'readonly', (tx) => tx.get('users', 1))).resolves.toEqual({ id: 1 });
+      expect(states.map(([state]) => state)).toEqual(['opening', 'open', 'closed', 'opening', 'open']);
+    });
+
+    it('should reopen at the version importDatabase() upgraded to', async () => {
+      await lazy.put('users', { id: 1 });
+      const dump = await lazy.exportDatabase();
+      dump.stores.push({ name: 'posts', keyPath: 'slug', autoIncrement: false, indexes: [], records: [] });
+      await expect(lazy.importDatabase(dump, { mode: 'merge', upgrade: true })).resolves.toBe(2);
+      lazy.close();
+      await expect(lazy.count('posts')).resolves.toBe(0);
+      await expect(lazy.count('users')).resolves.toBe(1);
+      expect(lazy.connectionState).toBe('open');
+    });
+
+    it('should reconnect when the browser closes the connection', async () => {
+      await lazy.put('users', { id: 1 });
+      forceCloseDatabase((lazy as any).db);
+      await settle();
+      await expect(lazy.get('users', 1)).resolves.toEqual({ id: 1 });
+      expect(states.map(([state]) => state)).toEqual(['opening', 'open', 'closed', 'reconnecting', 'open']);
+    });
+
+    it('should give up reconnecting after the configured attempts', async () => {
+      lazy = createLazy({ reconnect: { attempts: 2, delay: 1 } });
+      await lazy.put('users', { id: 1 });
+      const open = jest.spyOn((global as any).indexedDB, 'open').mockImplementation(() => {
+        throw new Error('Storage is unavailable');
+      });
+      forceCloseDatabase((lazy as any).db);
+      await settle();
+      expect(open).toHaveBeenCalledTimes(2);
+      expect(states[states.length - 1]).toEqual(['closed', 'Failed to open database: Storage is unavailable']);
+      // The next call tries once more.
+      await expect(lazy.get('users', 1)).rejects.toThrow('Storage is unavailable');
+      expect(open).toHaveBeenCalledTimes(3);
+
+      open.mockRestore();
+      await expect(lazy.count('users')).resolves.toBe(1);
+      expect(lazy.connectionState).toBe('open');
+    });
+
+    it('should wait for the next call when reconnect is off', async () => {
+      lazy = createLazy({ reconnect: false });
+      await lazy.put('users', { id: 1 });
+      forceCloseDatabase((lazy as any).db);
+      await settle();
+      expect(lazy.connectionState).toBe('closed');
+      await expect(lazy.getAll('users')).resolves.toEqual([{ id: 1 }]);
+    });
+
+    it('should reject ready without the open option until open() runs', async () => {
+      const db = new SimpleIDB();
+      await expect(db.ready).rejects.toThrow(DatabaseClosedError);
+      const opening = db.open('plain-db', 1, () => db.createStore('users'));
+      await expect(db.ready).resolves.toBeUndefined();
+      await opening;
+      db.close();
+      expect(() => new SimpleIDB({ open: { name: 'x', version: 1, reconnect: { attempts: 0 } } })).toThrow('Invalid reconnect attempts 0');
+    });
+  });
+
+  describe('memory driver', () => {
+    let db: SimpleIDB;
+
+    beforeEach(() => {
+      db = new SimpleIDB({ driver: memoryDriver() });
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('should order keys of every type the way IndexedDB does', async () => {
+      await db.open('memory-db', 1, () => db.createStore('keys'));
+      const keys: IDBKey[] = [['a'], new Uint8Array([1, 2]).buffer, 'b', 'a', new Date(5), 10, -1, [1, 'x'], new Uint8Array([1]).buffer, new Date(1), [1]];
+      await db.transaction('keys', 'readwrite', (tx) => Promise.all(keys.map((key, i) => tx.objectStore('keys').put(i, key))));
+      await expect(db.getAllKeys('keys')).resolves.toEqual([
+        -1,
+        10,
+        new Date(1),
+        new Date(5),
+        'a',
+        'b',
+        new Uint8Array([1]).buffer,
+        new Uint8Array([1, 2]).buffer,
+        [1],
+        [1, 'x'],
+        ['a']
+      ]);
+      await expect(db.getAll('keys', { range: { type: 'between', lower: 'a', upper: 'b', lowerOpen: true } })).resolves.toEqual([2]);
+    });
+
+    it('should generate keys and store them at the key path', async () => {
+      await db.open('memory-db', 1, () => db.createStore('posts', { keyPath: 'meta.id', autoIncrement: true }));
+      await expect(db.addMany('posts', [{ title: 'first' }])).resolves.toEqual([1]);
+      await db.put('posts', { title: 'imported', meta: { id: 10 } });
+      await expect(db.addMany('posts', [{ title: 'next' }])).resolves.toEqual([11]);
+      await expect(db.get('posts', 1)).resolves.toEqual({ title: 'first', meta: { id: 1 } });
+      await expect(db.add('posts', { title: 'again', meta: { id: 1 } })).rejects.toThrow(ConstraintError);
+    });
+
+    it('should reject records whose key cannot be read from the key path', async () => {
+      await db.open('memory-db', 1, () => db.createStore('users', { keyPath: 'id' }));
+      await expect(db.put('users', { name: 'no id' })).rejects.toThrow(DataError);
+      await expect(db.put('users', { id: { nested: true } })).rejects.toThrow(DataError);
+    });
+
+    it('should keep unique and multiEntry indexes', async () => {
+      await db.open('memory-db', 1, () => {
+        db.createStore('users', { keyPath: 'id' });
+        db.createIndex('users', 'email', 'email', { unique: true });
+        db.createIndex('users', 'tags', 'tags', { multiEntry: true });
+      });
+      await db.putMany('users', [
+        { id: 1, email: 'a@example.com', tags: ['admin', 'staff'] },
+        { id: 2, email: 'b@example.com', tags: ['staff', 'staff'] }
+      ]);
+      await expect(db.add('users', { id: 3, email: 'a@example.com' })).rejects.toThrow(ConstraintError);
+      await expect(db.getAllByIndex('users', 'tags', 'staff')).resolves.toHaveLength(2);
+      await expect(db.countByIndex('users', 'tags')).resolves.toBe(3);
+      await db.put('users', { id: 1, email: 'c@example.com', tags: [] });
+      await expect(db.getKeyByIndex('users', 'tags', 'admin')).resolves.toBeUndefined();
+      await expect(db.getByIndex('users', 'email', 'c@example.com')).resolves.toMatchObject({ id: 1 });
+    });
+
+    it('should page and iterate over indexes with duplicate keys', async () => {
+      await db.open('memory-db', 1, () => {
+        db.createStore('people', { keyPath: 'id' });
+        db.createIndex('people', 'age', 'age');
+      });
+      await db.putMany('people', Array.from({ length: 9 }, (_, i) => ({ id: i + 1, age: 20 + ((i + 1) % 3) })));
+      const first = await db.page<{ id: number }>('people', { index: 'age', pageSize: 4 });
+      const second = await db.page<{ id: number }>('people', { index: 'age', pageSize: 4, after: first.nextToken });
+      expect([...first.items, ...second.items].map((p) => p.id)).toEqual([3, 6, 9, 1, 4, 7, 2, 5]);
+      const ids: number[] = [];
+      for await (const entry of db.iterate<{ id: number }>('people', { index: 'age', direction: 'prevunique', batchSize: 1 })) {
+        ids.push(entry.value.id);
+      }
+      expect(ids).toEqual([2, 1, 3]);
+    });
+
+    it('should roll back every write of an aborted transaction', async () => {
+      await db.open('memory-db', 1, () => db.createStore('items', { keyPath: 'id', autoIncrement: true }));
+      await db.put('items', { id: 1, name: 'kept' });
+      await expect(db.transaction('items', 'readwrite', async (tx) => {
+        await tx.put('items', { id: 1, name: 'changed' });
+        await tx.add('items', { name: 'new' });
+        throw new Error('stop');
+      })).rejects.toThrow('stop');
+      await expect(db.getAll('items')).resolves.toEqual([{ id: 1, name: 'kept' }]);
+      await expect(db.addMany('items', [{ name: 'next' }])).resolves.toEqual([2]);
+    });
+
+    it('should end transactions that await other work', async () => {
+      await db.open('memory-db', 1, () => db.createStore('items'));
+      await expect(db.transaction('items', 'readonly', async (tx) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return tx.count('items');
+      })).rejects.toThrow(TransactionInactiveError);
+    });
+
+    it('should run versioned upgrades and roll back failed ones', async () => {
+      await db.open('memory-db', 1, { migrations: { 1: ({ createStore }) => createStore('users', { keyPath: 'id' }) } });
+      await db.put('users', { id: 1, name: 'Ann' });
+      db.close();
+      await expect(db.open('memory-db', 2, () => {
+        db.createIndex('users', 'name', 'name');
+        throw new Error('broken migration');
+      })).rejects.toThrow('broken migration');
+      await db.open('memory-db', 2, () => db.createIndex('users', 'name', 'name', { unique: true }));
+      await expect(db.getByIndex('users', 'name', 'Ann')).resolves.toEqual({ id: 1, name: 'Ann' });
+      db.close();
+      await expect(db.open('memory-db', 1)).rejects.toThrow(VersionError);
+    });
+
+    it('should close other connections to upgrade, and keep drivers apart', async () => {
+      const driver = memoryDriver();
+      const first = new SimpleIDB({ driver });
+      const second = new SimpleIDB({ driver });
+      await first.open('shared-db', 1, () => first.createStore('items'));
+      await second.open('shared-db', 2, () => second.createStore('more'));
+      await expect(first.count('items')).rejects.toThrow(DatabaseClosedError);
+      await expect(second.count('more')).resolves.toBe(0);
+      second.close();
+
+      await db.open('shared-db', 1);
+      expect(Array.from((db as any).db.objectStoreNames)).toEqual([]);
+    });
+
+    it('should move, update and delete through raw cursors', async () => {
+      await db.open('memory-db', 1, () => {
+        db.createStore('items', { keyPath: 'id' });
+        db.createIndex('items', 'group', 'group');
+      });
+      await db.putMany('items', Array.from({ length: 6 }, (_, i) => ({ id: i + 1, group: (i + 1) % 2 })));
+      const walk = (open: (store: IDBObjectStore) => IDBRequest<IDBCursorWithValue | null>, step: (cursor: IDBCursorWithValue) => void) =>
+        new Promise<void>((resolve, reject) => {
+          const transaction = ((db as any).db as IDBDatabase).transaction('items', 'readwrite');
+          const request = open(transaction.objectStore('items'));
+          request.onsuccess = () => request.result && step(request.result);
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+        });
+
+      const visited: IDBValidKey[] = [];
+      await walk((store) => store.openCursor(), (cursor) => {
+        visited.push(cursor.primaryKey);
+        expect(() => cursor.advance(0)).toThrow(TypeError);
+        expect(() => cursor.continuePrimaryKey(2, 2)).toThrow(expect.objectContaining({ name: 'InvalidAccessError' }));
+        expect(() => cursor.update({ id: 99 })).toThrow(expect.objectContaining({ name: 'DataError' }));
+        if (cursor.primaryKey === 1) {
+          cursor.update({ ...cursor.value, seen: true });
+        } else if (cursor.primaryKey === 3) {
+          cursor.delete();
+        }
+        cursor.advance(2);
+      });
+      expect(visited).toEqual([1, 3, 5]);
+      await expect(db.getAllKeys('items')).resolves.toEqual([1, 2, 4, 5, 6]);
+      await expect(db.get('items', 1)).resolves.toEqual({ id: 1, group: 1, seen: true });
+
+      visited.length = 0;
+      await walk((store) => store.index('group').openCursor(), (cursor) => {
+        visited.push(cursor.primaryKey);
+        if (cursor.primaryKey === 2) {
+          cursor.continuePrimaryKey(0, 6);
+        } else {
+          cursor.continue();
+        }
+      });
+      expect(visited).toEqual([2, 6, 1, 5]);
+
+      visited.length = 0;
+      await walk((store) => store.index('group').openCursor(null, 'prev'), (cursor) => {
+        visited.push(cursor.primaryKey);
+        if (cursor.primaryKey === 5) {
+          cursor.continuePrimaryKey(0, 4);
+        } else {
+          expect(() => cursor.continue(1)).toThrow(expect.objectContaining({ name: 'DataError' }));
+          cursor.continue();
+        }
+      });
+      expect(visited).toEqual([5, 4, 2]);
+    });
+
+    it('should delete databases', async () => {
+      const driver = memoryDriver();
+      const local = new SimpleIDB({ driver });
+      await local.open('doomed-db', 3, () => local.createStore('items', { keyPath: 'id' }));
+      await local.put('items', { id: 1 });
+      const deleteDatabase = () =>
+        new Promise((resolve, reject) => {
+          const request = driver.indexedDB.deleteDatabase('doomed-db');
+          request.onsuccess = resolve;
+          request.onerror = () => reject(request.error);
+        });
+
+      // The open connection is asked to close first.
+      await deleteDatabase();
+      await expect(local.count('items')).rejects.toThrow(DatabaseClosedError);
+      await expect(driver.indexedDB.databases()).resolves.toEqual([]);
+      await deleteDatabase();
+
+      await local.open('doomed-db', 1);
+      expect(Array.from((local as any).db.objectStoreNames)).toEqual([]);
+      await expect(driver.indexedDB.databases()).resolves.toEqual([{ name: 'doomed-db', version: 1 }]);
+      local.close();
+    });
+
+    it('should report a blocked upgrade', async () => {
+      const driver = memoryDriver();
+      const first = new SimpleIDB({ driver });
+      const second = new SimpleIDB({ driver });
+      await first.open('blocked-db', 1, { onVersionChange: () => undefined });
+      const onBlocked = jest.fn();
+      await expect(second.open('blocked-db', 2, { onBlocked, blockedTimeout: 20 })).rejects.toThrow(DatabaseBlockedError);
+      expect(onBlocked).toHaveBeenCalledWith(expect.objectContaining({ oldVersion: 1, newVersion: 2 }));
+      first.close();
+    });
+  });
+
+  describe('key-value store', () => {
+    let store: KeyValueStore;
+
+    useFakeIndexedDB();
+
+    beforeEach(() => {
+      store = new KeyValueStore('settings', { driver: memoryDriver() });
+    });
+
+    afterEach(() => {
+      store.close();
+    });
+
+    it('should set, get and delete values without opening a database first', async () => {
+      await expect(store.get('theme')).resolves.toBeUndefined();
+      await store.set('theme', { dark: true });
+      await store.set(['recent', 1], 'file.txt');
+      await expect(store.get('theme')).resolves.toEqual({ dark: true });
+      await expect(store.get(['recent', 1])).resolves.toBe('file.txt');
+      await store.del('theme');
+      await expect(store.get('theme')).resolves.toBeUndefined();
+    });
+
+    it('should list keys and entries in key order', async () => {
+      await store.set('b', 2);
+      await store.set('a', 1);
+      await store.set(3, 'three');
+      await expect(store.keys()).resolves.toEqual([3, 'a', 'b']);
+      await expect(store.entries()).resolves.toEqual([[3, 'three'], ['a', 1], ['b', 2]]);
+      await store.clear();
+      await expect(store.keys()).resolves.toEqual([]);
+    });
+
+    it('should update values atomically', async () => {
+      const increment = (count: number | undefined) => (count ?? 0) + 1;
+      const results = await Promise.all([store.update('visits', increment), store.update('visits', increment), store.update('visits', increment)]);
+      expect(results).toEqual([1, 2, 3]);
+      await expect(store.get('visits')).resolves.toBe(3);
+      await expect(store.update('visits', () => { throw new Error('nope'); })).rejects.toThrow('nope');
+      await expect(store.get('visits')).resolves.toBe(3);
+    });
+
+    it('should keep namespaces apart and share data through the driver', async () => {
+      const driver = memoryDriver();
+      const settings = new KeyValueStore('settings', { driver });
+      const cache = new KeyValueStore('cache', { driver });
+      await settings.set('key', 'settings');
+      await cache.set('key', 'cache');
+      await expect(new KeyValueStore('settings', { driver }).get('key')).resolves.toBe('settings');
+      await expect(cache.get('key')).resolves.toBe('cache');
+      expect(settings.dbName).toBe('simple-idb-kv:settings');
+      settings.close();
+      cache.close();
+    });
+
+    it('should reject invalid keys with the library errors', async () => {
+      await expect(store.set({} as unknown as IDBKey, 1)).rejects.toThrow(DataError);
+      await expect(store.get(null as unknown as IDBKey)).rejects.toThrow(DataError);
+    });
+
+    it('should not block other connections from upgrading its database', async () => {
+      const driver = memoryDriver();
+      const first = new KeyValueStore('shared', { driver });
+      await first.set('key', 1);
+      const other = new SimpleIDB({ driver });
+      await other.open(first.dbName, 2, () => other.createStore('extra'));
+      other.close();
+      await expect(first.get('key')).rejects.toThrow(VersionError);
+      first.close();
+    });
+
+    it('should reopen its database after the browser closes it', async () => {
+      const reopened = new KeyValueStore('reopened');
+      await reopened.set('key', 1);
+      forceCloseDatabase((reopened as any).database.db);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await expect(reopened.get('key')).resolves.toBe(1);
+      reopened.close();
+      await expect(reopened.get('key')).resolves.toBe(1);
+      reopened.close();
+    });
+
+    it('should use the default namespace and driver for kv', async () => {
+      expect(kv.namespace).toBe('default');
+      await kv.set('key', 'value');
+      await expect(kv.get('key')).resolves.toBe('value');
+      kv.close();
+    });
+  });
+});
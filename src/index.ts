@@ -1,6 +1,164 @@
-export interface StoreOptions {
-  keyPath?: string;
+import { ChangeCallback, ChangeFeed, ChangeRecord, ObserveOptions, mergeChanges, recordChange } from './changes';
+import { ConnectionListener, ConnectionState, ReconnectOptions, retry, validateReconnect } from './connection';
+import { CodecContext, StoredField, ValueCodec, codecContext, leastReadable, pipeline, runCodec, sameStoredValue } from './codec';
+import { CursorOptions, QueryOptions, needsCursor, walkCursor } from './cursor';
+import { StorageDriver, defaultDriver } from './driver';
+import {
+  DUMP_FORMAT,
+  DUMP_FORMAT_VERSION,
+  DatabaseDump,
+  IndexDump,
+  StoreDump,
+  decodeValue,
+  describeStore,
+  encodeValues,
+  validateDump
+} from './dump';
+import {
+  ConstraintError,
+  DataError,
+  DatabaseBlockedError,
+  DatabaseClosedError,
+  NotFoundError,
+  SimpleIDBError,
+  ValidationError,
+  databaseNotOpen,
+  toSimpleIDBError
+} from './errors';
+import { KeyPath, extractKey } from './keyPath';
+import { KeyQuery, isKeyRange, isKeyRangeDescriptor, rangeAfter, toKeyRange } from './keyRange';
+import { Migrations, planMigrations } from './migrations';
+import { Page, PageOptions, decodePageToken, encodePageToken } from './page';
+import { Plugin, PluginOperation, runWithPlugins } from './plugins';
+import { Query } from './query';
+import { prepareRecord } from './records';
+import {
+  SearchIndexOptions,
+  SearchOptions,
+  findSearchIndex,
+  searchIndexName,
+  searchIndexes,
+  searchTokensPath,
+  tokenize,
+  validateSearchIndex,
+  withSearchTokens
+} from './search';
+import {
+  DBSchema,
+  ExplicitValue,
+  IndexName,
+  IndexQuery,
+  InferFromSchema,
+  ResolveValue,
+  StoreKey,
+  StoreName,
+  UntypedSchema
+} from './schema';
+import {
+  EXPIRES_AT,
+  WriteOptions,
+  isExpired,
+  isLiveCursor,
+  isTTLIndexName,
+  noTTLError,
+  storeTTL,
+  ttlIndex,
+  ttlIndexName,
+  validateTTL
+} from './ttl';
+import { RequestContext, SimpleTransaction, TransactionCallback, describeWrite, failedRequest } from './transaction';
+import { StoreTransforms, hasTransforms, transformCodec, validateTransforms } from './transform';
+import { StoreValidation, runValidator, validateValidator, validationError } from './validation';
+import { DELETE_RECORD, DeepPartial, PatchOptions, Updater, mergePatch } from './update';
+
+export type { ChangeCallback, ChangeEvent, ChangeType, ObserveOptions } from './changes';
+export type { CodecContext, StoredField, ValueCodec } from './codec';
+export type { ConnectionListener, ConnectionState, ReconnectOptions } from './connection';
+export type { CursorOptions, QueryOptions } from './cursor';
+export { indexedDBDriver, memoryDriver } from './driver';
+export type { StorageDriver } from './driver';
+export type { DatabaseDump, IndexDump, StoreDump } from './dump';
+export {
+  CodecError,
+  ConstraintError,
+  DataError,
+  DatabaseBlockedError,
+  DatabaseClosedError,
+  NotFoundError,
+  QuotaExceededError,
+  SimpleIDBError,
+  TransactionInactiveError,
+  UnsupportedEnvironmentError,
+  ValidationError,
+  VersionError
+} from './errors';
+export type { ErrorDetails, ValidationIssue } from './errors';
+export { ENCRYPTED, aesGcmCodec } from './encryption';
+export type { AesGcmCodecOptions } from './encryption';
+export type { KeyPath } from './keyPath';
+export type { KeyQuery, KeyRangeDescriptor } from './keyRange';
+export { KeyValueStore, kv } from './kv';
+export type { KeyValueOptions } from './kv';
+export type { Migration, Migrations } from './migrations';
+export type { Page, PageOptions } from './page';
+export type { OperationContext, PluginOperation, PluginResult } from './plugins';
+export { Query, WhereClause } from './query';
+export type { QueryPlan, SortDirection } from './query';
+export type {
+  DBSchema,
+  IndexKey,
+  IndexName,
+  IndexQuery,
+  InferFromSchema,
+  KeyPathValue,
+  StoreKey,
+  StoreName,
+  StoreSchema,
+  StoreValue,
+  UntypedSchema
+} from './schema';
+export { SEARCH_TOKENS } from './search';
+export type { SearchIndexOptions, SearchOptions } from './search';
+export { EXPIRES_AT } from './ttl';
+export type { WriteOptions } from './ttl';
+export { SimpleTransaction } from './transaction';
+export type { TransactionCallback } from './transaction';
+export type { DeserializeHook, SerializeHook, StoreTransforms } from './transform';
+export type { JSONSchema, StandardSchemaV1, StoreValidation, Validator } from './validation';
+export { DELETE_RECORD } from './update';
+export type { DeepPartial, PatchOptions, Updater } from './update';
+
+export interface SimpleIDBOptions<S extends DBSchema<S> = UntypedSchema> {
+  /**
+   * Opens the database on first use instead of through open(). Calls made before it is open wait for it,
+   * and the connection is reopened when the browser closes it.
+   */
+  open?: LazyOpenOptions<S>;
+  /** Where databases are kept. Defaults to IndexedDB, or to an in-memory driver where IndexedDB is missing (Node, SSR). */
+  driver?: StorageDriver;
+  /**
+   * Codecs by store name, e.g. `{ patients: aesGcmCodec({ ... }) }`. Records of these stores are encoded
+   * before every write and decoded after every read.
+   */
+  codecs?: Record<string, ValueCodec>;
+  /**
+   * serialize/deserialize hooks and validators by store name, applied on every open. IndexedDB cannot keep
+   * functions, so createStore() only takes hooks that are declared here too.
+   */
+  stores?: Record<string, StoreHooks>;
+}
+
+export type StoreHooks = StoreTransforms & StoreValidation;
+
+export interface StoreOptions extends StoreHooks {
+  /** Where records keep their key; an array of paths makes a compound key. Omit it to pass keys separately. */
+  keyPath?: KeyPath;
   autoIncrement?: boolean;
+  /**
+   * Default lifetime of the store's records in milliseconds. Expired records read as missing and are
+   * removed by purgeExpired(). `Infinity` keeps records forever unless a write passes its own `ttl`.
+   */
+  ttl?: number;
 }
 
 export interface IndexOptions {
@@ -8,171 +166,2402 @@ export interface IndexOptions {
   multiEntry?: boolean;
 }
 
-export type UpgradeCallback = (db: IDBDatabase) => void;
+export interface UpgradeContext {
+  oldVersion: number;
+  newVersion: number;
+  db: IDBDatabase;
+  transaction: IDBTransaction;
+}
+
+export type UpgradeCallback = (db: IDBDatabase, context: UpgradeContext) => void;
+
+export interface MigrationContext<S extends DBSchema<S> = UntypedSchema> extends UpgradeContext {
+  /** The version this migration step upgrades the database to. */
+  version: number;
+  store(storeName: StoreName<S>): IDBObjectStore;
+  createStore(storeName: StoreName<S>, options?: StoreOptions): void;
+  createIndex<N extends StoreName<S>>(storeName: N, indexName: IndexName<S, N>, keyPath: KeyPath, options?: IndexOptions): void;
+  createSearchIndex<N extends StoreName<S>>(storeName: N, indexName: IndexName<S, N>, fields: string | string[], options?: SearchIndexOptions): void;
+  deleteStore(storeName: string): void;
+  deleteIndex(storeName: StoreName<S>, indexName: string): void;
+  renameStore(oldName: string, newName: StoreName<S>): void;
+  renameIndex<N extends StoreName<S>>(storeName: N, oldName: string, newName: IndexName<S, N>): void;
+  recreateIndex<N extends StoreName<S>>(storeName: N, indexName: IndexName<S, N>, keyPath: KeyPath, options?: IndexOptions): void;
+  recreateStore(storeName: StoreName<S>, options?: StoreOptions): void;
+}
+
+/** A plugin for use(); its upgrade() gets the same context as a migration, at the version being opened. */
+export type SimpleIDBPlugin<S extends DBSchema<S> = UntypedSchema> = Plugin<MigrationContext<S>>;
+
+export interface OpenOptions<S extends DBSchema<S> = UntypedSchema> {
+  /** Migration per version; every version between the stored one and the requested one must have an entry. */
+  migrations?: Migrations<MigrationContext<S>>;
+  /** Runs after the migrations on every upgrade. */
+  upgrade?: UpgradeCallback;
+  /** Called when other connections (usually other tabs) keep the upgrade from starting. */
+  onBlocked?: (event: IDBVersionChangeEvent) => void;
+  /**
+   * Milliseconds an open may stay blocked before it rejects with a DatabaseBlockedError (default: 5000).
+   * Pass `Infinity` to wait until the other connections close.
+   */
+  blockedTimeout?: number;
+  /**
+   * Called when another connection wants to upgrade or delete the database. Replaces the default, which
+   * closes this connection so the other one can proceed.
+   */
+  onVersionChange?: (event: IDBVersionChangeEvent) => void;
+  /** Called when the browser closes the connection, e.g. because site data was cleared. */
+  onClose?: () => void;
+  /**
+   * Called for every failed request on the connection, including those whose call rejects with the same
+   * error, and for failed background purges. Failures collected by `continueOnError` are not reported.
+   */
+  onError?: (error: SimpleIDBError) => void;
+  /** Runs purgeExpired() on every store with a TTL at this interval (ms) while the connection is open. */
+  purgeInterval?: number;
+}
+
+export interface LazyOpenOptions<S extends DBSchema<S> = UntypedSchema> extends OpenOptions<S> {
+  name: string;
+  version: number;
+  /**
+   * Reopens the connection right away when the browser closes it (default: `true`). With `false` it stays
+   * closed until the next call, which opens it again.
+   */
+  reconnect?: boolean | ReconnectOptions;
+}
 
 export type IDBKey = IDBValidKey;
 
-class SimpleIDB {
+export interface IterateOptions<I extends string = string> {
+  index?: I;
+  range?: KeyQuery;
+  direction?: IDBCursorDirection;
+  mode?: 'readonly' | 'readwrite';
+  batchSize?: number;
+}
+
+export interface CursorEntry<T = unknown> {
+  key: IDBKey;
+  primaryKey: IDBKey;
+  value: T;
+  update(value: T): Promise<void>;
+  delete(): Promise<void>;
+}
+
+export interface BulkOptions {
+  /** Keep writing after a failed item and report per-item results instead of rolling everything back. */
+  continueOnError?: boolean;
+}
+
+export interface BulkItemResult<K extends IDBKey = IDBKey> {
+  index: number;
+  key?: K;
+  error?: { name: string; message: string };
+}
+
+export interface BulkReport<K extends IDBKey = IDBKey> {
+  results: BulkItemResult<K>[];
+  failures: BulkItemResult<K>[];
+}
+
+export interface ExportOptions<S extends DBSchema<S> = UntypedSchema> {
+  /** Object stores to export (default: all). */
+  stores?: StoreName<S>[];
+}
+
+export interface ImportOptions {
+  /**
+   * `'replace'` clears every object store in the dump and makes its schema match the dump's.
+   * `'merge'` puts the records over the existing ones and refuses stores or indexes whose options differ.
+   */
+  mode: 'replace' | 'merge';
+  /**
+   * Upgrades the database to one version past the current one when the dump needs object stores or indexes
+   * it lacks (default: false). Without it such an import rejects with a ConstraintError listing the changes.
+   */
+  upgrade?: boolean;
+}
+
+interface ImportedStore extends Omit<StoreDump, 'records'> {
+  records: Array<{ key?: IDBKey; value: unknown }>;
+}
+
+interface SchemaChange {
+  description: string;
+  apply(db: IDBDatabase, transaction: IDBTransaction): void;
+}
+
+interface CursorPosition {
+  key: IDBKey;
+  primaryKey: IDBKey;
+}
+
+interface CursorRecord<T> extends CursorPosition {
+  value: T;
+}
+
+interface StoreMetadata {
+  store: IDBObjectStore;
+  context: CodecContext;
+}
+
+/** How often update() and patch() on a store with a codec retry when the record changes under them. */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+class SimpleIDB<S extends DBSchema<S> = UntypedSchema> {
   private db: IDBDatabase | null = null;
+  private driver: StorageDriver | null = null;
   private upgradeTransaction: IDBTransaction | null = null;
+  private openOptions: OpenOptions<S> = {};
+  /** The database and version last opened; importDatabase() may have raised it past the `open` option's. */
+  private lastOpened: { name: string; version: number } | null = null;
+  private purgeTimer: ReturnType<typeof setInterval> | undefined;
+  private changes = new ChangeFeed();
+  /** Store names read by running liveQuery() functions; see liveQuery(). */
+  private readTrackers = new Set<Set<string>>();
+  /** serialize/deserialize hooks and validators by store name, from the constructor and createStore(). */
+  private storeHooks = new Map<string, StoreHooks>();
+  /** Added by use(), in order; replaced rather than changed, so a running call keeps the plugins it started with. */
+  private plugins: ReadonlyArray<SimpleIDBPlugin<S>> = [];
+  private state: ConnectionState = 'closed';
+  private connectionListeners = new Set<ConnectionListener>();
+  /** The running open() or reconnect, which calls wait for; see connected(). */
+  private connecting: Promise<void> | null = null;
+
+  constructor(private readonly options: SimpleIDBOptions<S> = {}) {
+    for (const [storeName, hooks] of Object.entries(options.stores ?? {})) {
+      this.registerHooks(storeName, hooks, 'constructor');
+    }
+    validateReconnect(options.open?.reconnect);
+  }
 
-  async open(dbName: string, version: number, upgradeCallback?: UpgradeCallback): Promise<void> {
-    if (!('indexedDB' in self)) {
-      throw new Error('IndexedDB is not supported in this environment');
+  /**
+   * Resolves once the database is open. With the `open` option it opens the database if it is closed;
+   * otherwise it waits for the running open() and rejects with a DatabaseClosedError if there is none.
+   */
+  get ready(): Promise<void> {
+    if (!this.db && !this.connecting && !this.options.open) {
+      return Promise.reject(databaseNotOpen({ operation: 'ready' }));
     }
+    return this.connected();
+  }
+
+  get connectionState(): ConnectionState {
+    return this.state;
+  }
+
+  /** Calls `listener` on every change of connectionState. Returns a function that stops listening. */
+  onConnectionChange(listener: ConnectionListener): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  async open(dbName: string, version: number, upgrade?: UpgradeCallback | OpenOptions<S>): Promise<void> {
+    const options: OpenOptions<S> = typeof upgrade === 'function' ? { upgrade } : upgrade ?? {};
+    return this.track('opening', this.connect(dbName, version, options));
+  }
+
+  private connect(dbName: string, version: number, options: OpenOptions<S>): Promise<void> {
+    const driver = this.options.driver ?? defaultDriver();
+    this.driver = driver;
 
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(dbName, version);
+      const failed = (error: unknown) => toSimpleIDBError(error, 'Failed to open database', { operation: 'open' });
+      let request: IDBOpenDBRequest;
+      try {
+        request = driver.indexedDB.open(dbName, version);
+      } catch (error) {
+        reject(failed(error));
+        return;
+      }
+      let upgradeError: Error | null = null;
+      // Set while async migrations run; the upgrade must not commit before they finish.
+      let migrating = false;
+      let blockedTimer: ReturnType<typeof setTimeout> | undefined;
+      // Set once open() gave up on a blocked request; a late success or upgrade is then discarded.
+      let abandoned = false;
 
-      request.onerror = () => reject(new Error(`Failed to open database: ${request.error?.message || 'Unknown error'}`));
+      request.onerror = () => {
+        clearTimeout(blockedTimer);
+        if (abandoned) {
+          return;
+        }
+        this.db = null;
+        reject(upgradeError ?? failed(request.error));
+      };
       request.onsuccess = () => {
+        clearTimeout(blockedTimer);
+        if (abandoned) {
+          request.result.close();
+          return;
+        }
+        if (migrating || upgradeError) {
+          // The upgrade committed while an async migration awaited work outside IndexedDB, or a migration
+          // failed once it could no longer be rolled back.
+          request.result.close();
+          this.db = null;
+          this.upgradeTransaction = null;
+          reject(upgradeError ?? new SimpleIDBError(
+            `The upgrade of database "${dbName}" to version ${version} committed before its migrations finished, since a migration ` +
+            'awaited work outside IndexedDB. The database is left at that version with the migrations partly applied. ' +
+            'Migrations must only await requests of the upgrade transaction.',
+            { operation: 'open' }
+          ));
+          return;
+        }
         this.db = request.result;
         this.upgradeTransaction = null;
+        this.openOptions = options;
+        this.lastOpened = { name: dbName, version: request.result.version };
+        this.watchConnection(request.result, options);
+        this.changes.connect(dbName, driver);
+        this.startPurging(options);
         resolve();
       };
+      request.onblocked = (event) => {
+        options.onBlocked?.(event);
+        const timeout = options.blockedTimeout ?? 5000;
+        if (blockedTimer !== undefined || !Number.isFinite(timeout)) {
+          return;
+        }
+        blockedTimer = setTimeout(() => {
+          abandoned = true;
+          reject(new DatabaseBlockedError(
+            `Opening database "${dbName}" at version ${version} is blocked by other open connections (usually other tabs). ` +
+            'Close them or handle onVersionChange there.',
+            { operation: 'open' }
+          ));
+        }, timeout);
+      };
       request.onupgradeneeded = (event) => {
-        this.db = (event.target as IDBOpenDBRequest).result;
-        this.upgradeTransaction = (event.target as IDBOpenDBRequest).transaction;
-        upgradeCallback?.(this.db);
-        this.upgradeTransaction = null;
+        clearTimeout(blockedTimer);
+        const target = event.target as IDBOpenDBRequest;
+        const transaction = target.transaction!;
+        if (abandoned) {
+          transaction.abort();
+          return;
+        }
+        this.db = target.result;
+        this.upgradeTransaction = transaction;
+        const context: UpgradeContext = {
+          oldVersion: event.oldVersion ?? 0,
+          newVersion: event.newVersion ?? version,
+          db: this.db,
+          transaction
+        };
+        const abort = (error: unknown) => {
+          upgradeError = error instanceof Error ? error : failed(error);
+          this.upgradeTransaction = null;
+          try {
+            transaction.abort();
+          } catch {
+            // The upgrade already committed (an async migration awaited non-IndexedDB work).
+          }
+        };
+        try {
+          const pending = this.runMigrations(options.migrations, context);
+          const finish = () => {
+            this.upgradePlugins(context);
+            options.upgrade?.(this.db!, context);
+            this.upgradeTransaction = null;
+          };
+          if (pending) {
+            migrating = true;
+            pending.then(finish).catch(abort).finally(() => {
+              migrating = false;
+            });
+          } else {
+            finish();
+          }
+        } catch (error) {
+          abort(error);
+        }
       };
     });
   }
 
-  createStore(storeName: string, options?: StoreOptions): void {
+  createStore(storeName: StoreName<S>, options?: StoreOptions): void {
     if (!this.db) {
-      throw new Error('Database not open. Call open() first.');
+      throw databaseNotOpen({ operation: 'createStore', storeName });
     }
+    this.registerHooks(storeName, options, 'createStore');
     if (this.db.objectStoreNames.contains(storeName)) {
+      if (this.upgradeTransaction) {
+        const existing = this.upgradeTransaction.objectStore(storeName);
+        const mismatch = describeMismatch([
+          ['keyPath', existing.keyPath, options?.keyPath ?? null],
+          ['autoIncrement', existing.autoIncrement, options?.autoIncrement ?? false],
+          ['ttl', storeTTL(existing), options?.ttl ?? null]
+        ]);
+        if (mismatch) {
+          throw new ConstraintError(
+            `Object store "${storeName}" already exists with different options (${mismatch}). Use recreateStore() to change them.`,
+            { operation: 'createStore', storeName }
+          );
+        }
+      }
       return;
     }
-    this.db.createObjectStore(storeName, {
+    validateStoreOptions(options, { operation: 'createStore', storeName });
+    const store = this.db.createObjectStore(storeName, {
       keyPath: options?.keyPath,
       autoIncrement: options?.autoIncrement ?? false
     });
+    if (options?.ttl !== undefined) {
+      store.createIndex(ttlIndexName(options.ttl), EXPIRES_AT);
+    }
   }
 
-  createIndex(storeName: string, indexName: string, keyPath: string, options?: IndexOptions): void {
-    if (!this.db) {
-      throw new Error('Database not open. Call open() first.');
+  createIndex<N extends StoreName<S>>(storeName: N, indexName: IndexName<S, N>, keyPath: KeyPath, options?: IndexOptions): void {
+    const objectStore = this.upgradeStore(storeName, 'createIndex', 'Indexes can only be created during database upgrades.');
+
+    if (objectStore.indexNames.contains(indexName)) {
+      const existing = objectStore.index(indexName);
+      const mismatch = describeMismatch([
+        ['keyPath', existing.keyPath, keyPath],
+        ['unique', existing.unique, options?.unique ?? false],
+        ['multiEntry', existing.multiEntry, options?.multiEntry ?? false]
+      ]);
+      if (mismatch) {
+        throw new ConstraintError(
+          `Index "${indexName}" on object store "${storeName}" already exists with different options (${mismatch}). Use recreateIndex() to change them.`,
+          { operation: 'createIndex', storeName }
+        );
+      }
+      return;
     }
-    if (!this.db.objectStoreNames.contains(storeName)) {
-      throw new Error(`Object store "${storeName}" does not exist. Create it first with createStore().`);
+
+    if (options?.multiEntry && Array.isArray(keyPath)) {
+      throw new DataError(`Index "${indexName}" cannot be multiEntry, since its keyPath is compound.`, { operation: 'createIndex', storeName });
     }
+    const codec = this.codec(storeName);
+    if (codec?.storedAs) {
+      const context = codecContext(objectStore);
+      const paths = Array.isArray(keyPath) ? keyPath : [keyPath];
+      if (leastReadable(paths.map((path) => codec.storedAs!(path, context))) === 'encoded') {
+        throw unreadableIndex(storeName, indexName, { operation: 'createIndex', storeName });
+      }
+    }
+    objectStore.createIndex(indexName, keyPath, {
+      unique: options?.unique ?? false,
+      multiEntry: options?.multiEntry ?? false
+    });
+  }
 
-    let objectStore: IDBObjectStore;
-    
-    if (this.upgradeTransaction) {
-      objectStore = this.upgradeTransaction.objectStore(storeName);
-    } else {
-      throw new Error('createIndex must be called within the upgradeCallback during open(). Indexes can only be created during database upgrades.');
+  /**
+   * Creates a full-text index over one or more string fields (dotted paths and arrays of strings work too).
+   * The text is tokenized on every write and kept in a hidden multiEntry index; records already in the store
+   * are indexed within the upgrade. Query it with search().
+   */
+  createSearchIndex<N extends StoreName<S>>(storeName: N, indexName: IndexName<S, N>, fields: string | string[], options?: SearchIndexOptions): void {
+    const objectStore = this.upgradeStore(storeName, 'createSearchIndex', 'Indexes can only be created during database upgrades.');
+    const details = { operation: 'createSearchIndex', storeName };
+    const config = { fields: Array.isArray(fields) ? [...fields] : [fields], stem: options?.stem ?? false };
+    validateSearchIndex(indexName, config.fields, details);
+    if (this.options.codecs?.[storeName]) {
+      throw searchOnCodecStore(storeName, details);
     }
 
+    const existing = findSearchIndex(objectStore, indexName);
+    if (existing) {
+      const mismatch = describeMismatch([
+        ['fields', existing.fields, config.fields],
+        ['stem', existing.stem, config.stem]
+      ]);
+      if (mismatch) {
+        throw new ConstraintError(
+          `Search index "${indexName}" on object store "${storeName}" already exists with different options (${mismatch}). Delete it with deleteIndex() first.`,
+          details
+        );
+      }
+      return;
+    }
     if (objectStore.indexNames.contains(indexName)) {
+      throw new ConstraintError(`Object store "${storeName}" already has an index named "${indexName}".`, details);
+    }
+
+    objectStore.createIndex(searchIndexName(indexName, config), searchTokensPath(indexName), { multiEntry: true });
+    const request = objectStore.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        return;
+      }
+      // Records that are not objects cannot hold tokens; they stay out of the index.
+      if (typeof cursor.value === 'object' && cursor.value !== null && !Array.isArray(cursor.value)) {
+        cursor.update(withSearchTokens(objectStore, cursor.value, 'createSearchIndex'));
+      }
+      cursor.continue();
+    };
+  }
+
+  deleteStore(storeName: string): void {
+    this.requireUpgrade('deleteStore', 'Object stores can only be deleted during database upgrades.');
+    if (this.db!.objectStoreNames.contains(storeName)) {
+      this.db!.deleteObjectStore(storeName);
+    }
+    this.storeHooks.delete(storeName);
+  }
+
+  deleteIndex(storeName: StoreName<S>, indexName: string): void {
+    const objectStore = this.upgradeStore(storeName, 'deleteIndex', 'Indexes can only be deleted during database upgrades.');
+    const searchIndex = findSearchIndex(objectStore, indexName);
+    if (searchIndex) {
+      objectStore.deleteIndex(searchIndex.indexName);
+    } else if (objectStore.indexNames.contains(indexName)) {
+      objectStore.deleteIndex(indexName);
+    }
+  }
+
+  renameStore(oldName: string, newName: StoreName<S>): void {
+    const objectStore = this.upgradeStore(oldName, 'renameStore', 'Object stores can only be renamed during database upgrades.');
+    if (this.db!.objectStoreNames.contains(newName)) {
+      throw new ConstraintError(`Cannot rename object store "${oldName}": an object store named "${newName}" already exists.`, {
+        operation: 'renameStore',
+        storeName: oldName
+      });
+    }
+    objectStore.name = newName;
+    const hooks = this.storeHooks.get(oldName);
+    if (hooks) {
+      this.storeHooks.delete(oldName);
+      this.storeHooks.set(newName, hooks);
+    }
+  }
+
+  renameIndex<N extends StoreName<S>>(storeName: N, oldName: string, newName: IndexName<S, N>): void {
+    const objectStore = this.upgradeStore(storeName, 'renameIndex', 'Indexes can only be renamed during database upgrades.');
+    if (!objectStore.indexNames.contains(oldName)) {
+      throw new NotFoundError(`Index "${oldName}" does not exist on object store "${storeName}".`, { operation: 'renameIndex', storeName });
+    }
+    if (objectStore.indexNames.contains(newName)) {
+      throw new ConstraintError(
+        `Cannot rename index "${oldName}": an index named "${newName}" already exists on object store "${storeName}".`,
+        { operation: 'renameIndex', storeName }
+      );
+    }
+    objectStore.index(oldName).name = newName;
+  }
+
+  /** Drops the index if it exists and creates it again with the given key path and options. */
+  recreateIndex<N extends StoreName<S>>(storeName: N, indexName: IndexName<S, N>, keyPath: KeyPath, options?: IndexOptions): void {
+    const objectStore = this.upgradeStore(storeName, 'recreateIndex', 'Indexes can only be changed during database upgrades.');
+    if (objectStore.indexNames.contains(indexName)) {
+      objectStore.deleteIndex(indexName);
+    }
+    this.createIndex(storeName, indexName, keyPath, options);
+  }
+
+  /**
+   * Replaces a store with one using new options (e.g. a different keyPath), keeping its indexes and copying
+   * every record across within the upgrade transaction. A record that cannot be keyed under the new options
+   * aborts the upgrade.
+   */
+  recreateStore(storeName: StoreName<S>, options?: StoreOptions): void {
+    this.requireUpgrade('recreateStore', 'Object stores can only be changed during database upgrades.');
+    const db = this.db!;
+    if (!db.objectStoreNames.contains(storeName)) {
+      this.createStore(storeName, options);
       return;
     }
 
-    objectStore.createIndex(indexName, keyPath, {
-      unique: options?.unique ?? false,
-      multiEntry: options?.multiEntry ?? false
+    validateStoreOptions(options, { operation: 'recreateStore', storeName });
+    this.registerHooks(storeName, options, 'recreateStore');
+    const previous = this.upgradeTransaction!.objectStore(storeName);
+    // The TTL index is replaced according to the new options rather than copied.
+    const indexes = Array.from(previous.indexNames)
+      .filter((name) => !isTTLIndexName(name))
+      .map((name) => previous.index(name));
+    const temporaryName = `${storeName}:recreating`;
+    previous.name = temporaryName;
+
+    const next = db.createObjectStore(storeName, {
+      keyPath: options?.keyPath,
+      autoIncrement: options?.autoIncrement ?? false
+    });
+    for (const index of indexes) {
+      next.createIndex(index.name, index.keyPath, { unique: index.unique, multiEntry: index.multiEntry });
+    }
+    if (options?.ttl !== undefined) {
+      next.createIndex(ttlIndexName(options.ttl), EXPIRES_AT);
+    }
+
+    const request = previous.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        db.deleteObjectStore(temporaryName);
+        return;
+      }
+      // Search indexes created later in the same upgrade have already backfilled the empty store, so the
+      // copies are tokenized here.
+      const value =
+        typeof cursor.value === 'object' && cursor.value !== null && !Array.isArray(cursor.value)
+          ? withSearchTokens(next, cursor.value, 'recreateStore')
+          : cursor.value;
+      if (next.keyPath === null) {
+        next.put(value, cursor.primaryKey);
+      } else {
+        next.put(value);
+      }
+      cursor.continue();
+    };
+  }
+
+  async add<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    data: ResolveValue<T, S, N>,
+    options?: WriteOptions
+  ): Promise<void> {
+    return this.intercept('add', [storeName, data, options], async (storeName, data, options) => {
+      const record = await this.recordsFor(storeName, [data], 'add', (store, value) => prepareRecord(store, value, 'add', options?.ttl));
+      await this.runRequest(storeName, 'readwrite', { operation: 'add', action: 'add record', value: data, change: 'add' }, (store) => store.add(record(store, 0)));
+    });
+  }
+
+  async get<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(storeName: N, key: StoreKey<S, N>): Promise<ResolveValue<T, S, N> | undefined> {
+    return this.intercept('get', [storeName, key], async (storeName, key) => {
+      const value = await this.runRequest<ResolveValue<T, S, N> | undefined>(storeName, 'readonly', { operation: 'get', action: 'get record', key }, (store) =>
+        store.get(key)
+      );
+      if (value === undefined || (isExpired(value) && this.expiring(storeName, 'get'))) {
+        return undefined;
+      }
+      const [decoded] = await this.decodeRecords<ResolveValue<T, S, N>>(storeName, [value], 'get');
+      return decoded;
+    });
+  }
+
+  async put<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    data: ResolveValue<T, S, N>,
+    options?: WriteOptions
+  ): Promise<void> {
+    return this.intercept('put', [storeName, data, options], async (storeName, data, options) => {
+      const record = await this.recordsFor(storeName, [data], 'put', (store, value) => prepareRecord(store, value, 'put', options?.ttl));
+      await this.runRequest(storeName, 'readwrite', { operation: 'put', action: 'put record', value: data, change: 'put' }, (store) => store.put(record(store, 0)));
+    });
+  }
+
+  async delete<N extends StoreName<S>>(storeName: N, key: StoreKey<S, N>): Promise<void> {
+    return this.intercept('delete', [storeName, key], async (storeName, key) => {
+      await this.runRequest(storeName, 'readwrite', { operation: 'delete', action: 'delete record', key, change: 'delete' }, (store) => store.delete(key));
+    });
+  }
+
+  /**
+   * Reads the record at `key`, passes it to `updater` and writes the result, all in one readwrite transaction,
+   * so concurrent updates cannot overwrite each other. Resolves with the stored record, or with undefined when
+   * `updater` returned DELETE_RECORD and the record was deleted. Rejects with a NotFoundError when there is no
+   * record at `key`. `updater` must be synchronous and must not change the record's key.
+   */
+  async update<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    key: StoreKey<S, N>,
+    updater: Updater<ResolveValue<T, S, N>>,
+    options?: WriteOptions
+  ): Promise<ResolveValue<T, S, N> | undefined> {
+    return this.intercept('update', [storeName, key, updater, options], (storeName, key, updater, options) =>
+      this.modify(storeName, key, 'update', updater as Updater<unknown>, options)
+    );
+  }
+
+  /**
+   * Merges `partial` into the record at `key` and resolves with the stored record. The merge is shallow
+   * unless `deep` is set. Read and write run in one transaction, as with update().
+   */
+  patch<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    key: StoreKey<S, N>,
+    partial: Partial<ResolveValue<T, S, N>>,
+    options?: PatchOptions & WriteOptions & { deep?: false }
+  ): Promise<ResolveValue<T, S, N>>;
+  patch<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    key: StoreKey<S, N>,
+    partial: DeepPartial<ResolveValue<T, S, N>>,
+    options: PatchOptions & WriteOptions & { deep: true }
+  ): Promise<ResolveValue<T, S, N>>;
+  async patch(storeName: StoreName<S>, key: IDBKey, partial: unknown, options?: PatchOptions & WriteOptions): Promise<unknown> {
+    return this.intercept('patch', [storeName, key, partial, options], async (storeName, key, partial, options) => {
+      if (typeof partial !== 'object' || partial === null || Array.isArray(partial)) {
+        throw new DataError('patch() takes an object of the properties to change.', { operation: 'patch', storeName, key });
+      }
+      return this.modify(storeName, key, 'patch', (current) => {
+        if (typeof current !== 'object' || current === null || Array.isArray(current)) {
+          throw new DataError(`Cannot patch the record at key ${JSON.stringify(key)}, since it is not an object.`, { operation: 'patch', storeName, key });
+        }
+        return mergePatch(current, partial, options?.deep ?? false);
+      }, options);
+    });
+  }
+
+  async clear(storeName: StoreName<S>): Promise<void> {
+    return this.intercept('clear', [storeName], async (storeName) => {
+      await this.runRequest(storeName, 'readwrite', { operation: 'clear', action: 'clear store', change: 'clear' }, (store) => store.clear());
+    });
+  }
+
+  async getAll<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(storeName: N, options?: QueryOptions): Promise<ResolveValue<T, S, N>[]> {
+    return this.intercept('getAll', [storeName, options], async (storeName, options) => {
+      const context: RequestContext = { operation: 'getAll', action: 'get all records' };
+      const query = toKeyRange(options?.range, this.storage);
+      if (!needsCursor(options)) {
+        const values = await this.runRequest<ResolveValue<T, S, N>[]>(storeName, 'readonly', context, (store) => store.getAll(query, options?.limit));
+        const live = this.liveRecords(storeName, values, 'getAll');
+        // Expired records took up part of the limit; fall back to a cursor that passes over them.
+        if (live.length === values.length || options?.limit === undefined) {
+          return this.decodeRecords(storeName, live, 'getAll');
+        }
+      }
+      const values = await this.collectCursor(
+        storeName,
+        context,
+        options,
+        (store) => store.openCursor(query, options?.direction),
+        (cursor) => cursor.value as ResolveValue<T, S, N>,
+        isLiveCursor
+      );
+      return this.decodeRecords(storeName, values, 'getAll');
+    });
+  }
+
+  async getAllKeys<N extends StoreName<S>>(storeName: N, options?: QueryOptions): Promise<StoreKey<S, N>[]> {
+    return this.intercept('getAllKeys', [storeName, options], async (storeName, options) => {
+      const context: RequestContext = { operation: 'getAllKeys', action: 'get all keys' };
+      const query = toKeyRange(options?.range, this.storage);
+      if (!needsCursor(options)) {
+        return this.runRequest(storeName, 'readonly', context, (store) => store.getAllKeys(query, options?.limit));
+      }
+      return this.collectCursor(storeName, context, options, (store) => store.openKeyCursor(query, options?.direction), (cursor) => cursor.primaryKey as StoreKey<S, N>);
+    });
+  }
+
+  async count(storeName: StoreName<S>, range?: KeyQuery): Promise<number> {
+    return this.intercept('count', [storeName, range], async (storeName, range) => {
+      return this.countLive(storeName, { operation: 'count', action: 'count records' }, (store) => store, toKeyRange(range, this.storage));
+    });
+  }
+
+  /**
+   * Deletes every record whose primary key falls in `range` and resolves with the number of deleted records.
+   * With `limit`, `offset` or a reverse `direction` the records are deleted one by one through a cursor.
+   */
+  async deleteRange(storeName: StoreName<S>, range: KeyQuery, options?: CursorOptions): Promise<number> {
+    return this.intercept('deleteRange', [storeName, range, options], async (storeName, range, options) => {
+      return new Promise((resolve, reject) => {
+        const transaction = this.openTransaction([storeName], 'readwrite', 'deleteRange');
+        const store = transaction.objectStore(storeName);
+        const query = toKeyRange(range, this.storage);
+        const deleted: IDBKey[] = [];
+        transaction.oncomplete = () => {
+          this.changes.publish(deleted.length > 0 ? [recordChange(store, 'delete', deleted)] : []);
+          resolve(deleted.length);
+        };
+        transaction.onerror = (event) => {
+          reject(toSimpleIDBError((event.target as IDBRequest).error, 'Failed to delete records', { operation: 'deleteRange', storeName }));
+        };
+        if (!needsCursor(options) && options?.limit === undefined) {
+          const keysRequest = store.getAllKeys(query);
+          keysRequest.onsuccess = () => {
+            deleted.push(...keysRequest.result);
+          };
+          store.delete(query);
+          return;
+        }
+        const request = store.openCursor(query, options?.direction);
+        walkCursor(request, options, (cursor) => {
+          deleted.push(cursor.primaryKey);
+          cursor.delete();
+        }, () => undefined);
+      });
+    });
+  }
+
+  addMany<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    items: ResolveValue<T, S, N>[],
+    options?: BulkOptions & WriteOptions & { continueOnError?: false }
+  ): Promise<StoreKey<S, N>[]>;
+  addMany<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    items: ResolveValue<T, S, N>[],
+    options: BulkOptions & WriteOptions & { continueOnError: true }
+  ): Promise<BulkReport<StoreKey<S, N>>>;
+  async addMany(storeName: StoreName<S>, items: unknown[], options?: BulkOptions & WriteOptions): Promise<IDBKey[] | BulkReport> {
+    return this.intercept('addMany', [storeName, items, options], async (storeName, items, options) => {
+      const record = await this.recordsFor(storeName, items, 'addMany', (store, value) => prepareRecord(store, value, 'addMany', options?.ttl));
+      return this.bulkWrite(storeName, 'add', items, options, (store, _item, index) => store.add(record(store, index)), (store, item) => extractKey(store.keyPath, item));
+    });
+  }
+
+  putMany<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    items: ResolveValue<T, S, N>[],
+    options?: BulkOptions & WriteOptions & { continueOnError?: false }
+  ): Promise<StoreKey<S, N>[]>;
+  putMany<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    items: ResolveValue<T, S, N>[],
+    options: BulkOptions & WriteOptions & { continueOnError: true }
+  ): Promise<BulkReport<StoreKey<S, N>>>;
+  async putMany(storeName: StoreName<S>, items: unknown[], options?: BulkOptions & WriteOptions): Promise<IDBKey[] | BulkReport> {
+    return this.intercept('putMany', [storeName, items, options], async (storeName, items, options) => {
+      const record = await this.recordsFor(storeName, items, 'putMany', (store, value) => prepareRecord(store, value, 'putMany', options?.ttl));
+      return this.bulkWrite(storeName, 'put', items, options, (store, _item, index) => store.put(record(store, index)), (store, item) => extractKey(store.keyPath, item));
+    });
+  }
+
+  deleteMany<N extends StoreName<S>>(storeName: N, keys: StoreKey<S, N>[], options?: BulkOptions & { continueOnError?: false }): Promise<void>;
+  deleteMany<N extends StoreName<S>>(storeName: N, keys: StoreKey<S, N>[], options: BulkOptions & { continueOnError: true }): Promise<BulkReport<StoreKey<S, N>>>;
+  async deleteMany(storeName: StoreName<S>, keys: IDBKey[], options?: BulkOptions): Promise<void | BulkReport> {
+    return this.intercept('deleteMany', [storeName, keys, options], async (storeName, keys, options) => {
+      const result = await this.bulkWrite(storeName, 'delete', keys, options, (store, key) => store.delete(key), (_store, key) => key);
+      return Array.isArray(result) ? undefined : result;
+    });
+  }
+
+  async getByIndex<
+    T extends ExplicitValue<S> = InferFromSchema,
+    N extends StoreName<S> = StoreName<S>,
+    I extends IndexName<S, N> & string = IndexName<S, N>
+  >(storeName: N, indexName: I, query: IndexQuery<S, N, I>): Promise<ResolveValue<T, S, N> | undefined> {
+    return this.intercept('getByIndex', [storeName, indexName, query], async (storeName, indexName, query) => {
+      const stored = await this.indexQuery(storeName, indexName, query as KeyQuery, 'getByIndex');
+      const context: RequestContext = { operation: 'getByIndex', action: 'get record by index' };
+      const range = toKeyRange(stored!, this.storage);
+      let value = await this.runRequest<unknown>(storeName, 'readonly', context, (store) => indexOf(store, indexName, 'getByIndex').get(range));
+      if (value !== undefined && isExpired(value) && this.expiring(storeName, 'getByIndex')) {
+        // A later record under the same index key may still be live.
+        [value] = await this.collectCursor(
+          storeName,
+          context,
+          { limit: 1 },
+          (store) => indexOf(store, indexName, 'getByIndex').openCursor(range),
+          (cursor) => cursor.value as unknown,
+          isLiveCursor
+        );
+      }
+      if (value === undefined) {
+        return undefined;
+      }
+      const [decoded] = await this.decodeRecords<ResolveValue<T, S, N>>(storeName, [value], 'getByIndex');
+      return decoded;
+    });
+  }
+
+  async getAllByIndex<
+    T extends ExplicitValue<S> = InferFromSchema,
+    N extends StoreName<S> = StoreName<S>,
+    I extends IndexName<S, N> & string = IndexName<S, N>
+  >(storeName: N, indexName: I, query?: IndexQuery<S, N, I>, count?: number): Promise<ResolveValue<T, S, N>[]> {
+    return this.intercept('getAllByIndex', [storeName, indexName, query, count], async (storeName, indexName, query, count) => {
+      const stored = await this.indexQuery(storeName, indexName, query as KeyQuery | undefined, 'getAllByIndex');
+      const context: RequestContext = { operation: 'getAllByIndex', action: 'get all records by index' };
+      const range = toKeyRange(stored, this.storage);
+      const values = await this.runRequest<unknown[]>(storeName, 'readonly', context, (store) => indexOf(store, indexName, 'getAllByIndex').getAll(range, count));
+      let live = this.liveRecords(storeName, values, 'getAllByIndex');
+      // Expired records took up part of the count; fall back to a cursor that passes over them.
+      if (live.length < values.length && count !== undefined) {
+        live = await this.collectCursor(
+          storeName,
+          context,
+          { limit: count },
+          (store) => indexOf(store, indexName, 'getAllByIndex').openCursor(range),
+          (cursor) => cursor.value as unknown,
+          isLiveCursor
+        );
+      }
+      return this.decodeRecords(storeName, live, 'getAllByIndex');
+    });
+  }
+
+  async getKeyByIndex<N extends StoreName<S>, I extends IndexName<S, N> & string>(
+    storeName: N,
+    indexName: I,
+    query: IndexQuery<S, N, I>
+  ): Promise<StoreKey<S, N> | undefined> {
+    return this.intercept('getKeyByIndex', [storeName, indexName, query], async (storeName, indexName, query) => {
+      const stored = await this.indexQuery(storeName, indexName, query as KeyQuery, 'getKeyByIndex');
+      const context: RequestContext = { operation: 'getKeyByIndex', action: 'get key by index' };
+      const range = toKeyRange(stored!, this.storage);
+      if (!this.expiring(storeName, 'getKeyByIndex')) {
+        return this.runRequest(storeName, 'readonly', context, (store) => indexOf(store, indexName, 'getKeyByIndex').getKey(range));
+      }
+      const [key] = await this.collectCursor(
+        storeName,
+        context,
+        { limit: 1 },
+        (store) => indexOf(store, indexName, 'getKeyByIndex').openCursor(range),
+        (cursor) => cursor.primaryKey as StoreKey<S, N>,
+        isLiveCursor
+      );
+      return key;
     });
   }
 
-  async add<T = unknown>(storeName: string, data: T): Promise<void> {
+  async countByIndex<N extends StoreName<S>, I extends IndexName<S, N> & string>(storeName: N, indexName: I, query?: IndexQuery<S, N, I>): Promise<number> {
+    return this.intercept('countByIndex', [storeName, indexName, query], async (storeName, indexName, query) => {
+      const stored = await this.indexQuery(storeName, indexName, query as KeyQuery | undefined, 'countByIndex');
+      return this.countLive(
+        storeName,
+        { operation: 'countByIndex', action: 'count records by index' },
+        (store) => indexOf(store, indexName, 'countByIndex'),
+        toKeyRange(stored, this.storage)
+      );
+    });
+  }
+
+  /**
+   * Finds the records whose search index holds the words of `text`, ranked by how many of its terms they
+   * contain. Records matching equally many terms come in primary key order.
+   */
+  async search<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    indexName: IndexName<S, N>,
+    text: string,
+    options?: SearchOptions
+  ): Promise<ResolveValue<T, S, N>[]> {
+    return this.intercept('search', [storeName, indexName, text, options], async (storeName, indexName, text, options) => {
+      const mode = options?.mode ?? 'all';
+      if (mode !== 'all' && mode !== 'any') {
+        throw new SimpleIDBError(`Invalid search mode "${String(mode)}": expected "all" or "any".`, { operation: 'search', storeName });
+      }
+      const found = await new Promise<unknown[]>((resolve, reject) => {
+        const store = this.objectStore(storeName, 'readonly', 'search');
+        const searchIndex = findSearchIndex(store, indexName);
+        if (!searchIndex) {
+          throw new NotFoundError(`Search index "${indexName}" does not exist on object store "${storeName}". Create it first with createSearchIndex().`, {
+            operation: 'search',
+            storeName
+          });
+        }
+        const terms = tokenize(text, searchIndex.stem);
+        if (terms.length === 0) {
+          resolve([]);
+          return;
+        }
+        const { IDBKeyRange, indexedDB } = this.storage;
+        const expiring = storeTTL(store) !== null;
+        const fail = (error: unknown) => reject(toSimpleIDBError(error, 'Failed to search records', { operation: 'search', storeName }));
+        const hits: Array<{ key: IDBKey; term: number }> = [];
+
+        const rank = () => {
+          hits.sort((a, b) => indexedDB.cmp(a.key, b.key));
+          const matches: Array<{ key: IDBKey; terms: Set<number> }> = [];
+          for (const hit of hits) {
+            const last = matches[matches.length - 1];
+            if (last && indexedDB.cmp(last.key, hit.key) === 0) {
+              last.terms.add(hit.term);
+            } else {
+              matches.push({ key: hit.key, terms: new Set([hit.term]) });
+            }
+          }
+          const ranked = matches
+            .filter((match) => mode === 'any' || match.terms.size === terms.length)
+            .sort((a, b) => b.terms.size - a.terms.size);
+          const values: unknown[] = new Array(ranked.length);
+          let pending = ranked.length;
+          const done = () => {
+            const live = values.filter((value) => value !== undefined && !(expiring && isExpired(value)));
+            resolve(live.slice(0, options?.limit));
+          };
+          if (pending === 0) {
+            done();
+          }
+          ranked.forEach((match, i) => {
+            const request = store.get(match.key);
+            request.onerror = () => fail(request.error);
+            request.onsuccess = () => {
+              values[i] = request.result;
+              if (--pending === 0) {
+                done();
+              }
+            };
+          });
+        };
+
+        let pending = terms.length;
+        const index = store.index(searchIndex.indexName);
+        terms.forEach((term, i) => {
+          const range = options?.prefix ? IDBKeyRange.bound(term, `${term}\uffff`) : IDBKeyRange.only(term);
+          const request = index.getAllKeys(range);
+          request.onerror = () => fail(request.error);
+          request.onsuccess = () => {
+            request.result.forEach((key) => hits.push({ key, term: i }));
+            if (--pending === 0) {
+              rank();
+            }
+          };
+        });
+      });
+      return this.decodeRecords(storeName, found, 'search');
+    });
+  }
+
+  /**
+   * Streams records in batches of `batchSize`. Each batch is read in its own short-lived transaction and
+   * the next one resumes after the last key seen, so the loop body may await anything without the cursor
+   * going stale. `update()` and `delete()` on an entry write through a separate readwrite transaction.
+   */
+  async *iterate<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    options?: IterateOptions<IndexName<S, N>>
+  ): AsyncGenerator<CursorEntry<ResolveValue<T, S, N>>, void, undefined> {
+    await this.connected();
     if (!this.db) {
-      throw new Error('Database not open. Call open() first.');
+      throw databaseNotOpen({ operation: 'iterate', storeName });
+    }
+    const batchSize = options?.batchSize ?? 100;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new SimpleIDBError(`Invalid batchSize ${batchSize}: expected a positive integer.`, { operation: 'iterate', storeName });
+    }
+    const range = options?.index ? await this.indexQuery(storeName, options.index, options.range, 'iterate') : options?.range;
+
+    let position: CursorPosition | null = null;
+    while (true) {
+      const { entries, exhausted }: { entries: CursorRecord<ResolveValue<T, S, N>>[]; exhausted: boolean } = await this.readBatch<ResolveValue<T, S, N>>(
+        storeName,
+        { operation: 'iterate', action: 'iterate records' },
+        { ...options, range },
+        position,
+        batchSize,
+        isLiveCursor
+      );
+      const values = await this.decodeRecords<ResolveValue<T, S, N>>(storeName, entries.map((entry) => entry.value), 'iterate');
+      for (const [i, entry] of entries.entries()) {
+        position = entry;
+        yield this.toCursorEntry(storeName, { ...entry, value: values[i] }, options?.mode ?? 'readonly');
+      }
+      if (exhausted) {
+        return;
+      }
     }
+  }
+
+  /**
+   * Reads one page of records in key order (index key, then primary key, with `index`). Pass the returned
+   * `nextToken` as `after` to read the next page, which starts right after the last record of this one.
+   */
+  async page<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(
+    storeName: N,
+    options?: PageOptions<IndexName<S, N>>
+  ): Promise<Page<ResolveValue<T, S, N>>> {
+    return this.intercept('page', [storeName, options], async (storeName, options) => {
+      const pageSize = options?.pageSize ?? 50;
+      if (!Number.isInteger(pageSize) || pageSize < 1) {
+        throw new SimpleIDBError(`Invalid pageSize ${pageSize}: expected a positive integer.`, { operation: 'page', storeName });
+      }
+      const direction = options?.direction ?? 'next';
+      const position = options?.after ? decodePageToken(options.after, options.index, direction, storeName, this.storage) : null;
+      const range = options?.index ? await this.indexQuery(storeName, options.index, options.range, 'page') : options?.range;
+      // One record past the page tells whether there is a next one.
+      const { entries } = await this.readBatch<ResolveValue<T, S, N>>(
+        storeName,
+        { operation: 'page', action: 'read page' },
+        { ...options, range },
+        position,
+        pageSize + 1,
+        isLiveCursor
+      );
+      const items = entries.slice(0, pageSize);
+      const nextToken = entries.length > pageSize ? await encodePageToken(options?.index, direction, items[items.length - 1]) : null;
+      return { items: await this.decodeRecords(storeName, items.map((entry) => entry.value), 'page'), nextToken };
+    });
+  }
+
+  /**
+   * Starts a query on `storeName`, e.g. `db.query('users').where('age').between(18, 30).orderBy('age').limit(10).toArray()`.
+   * Nothing is read until the query is run.
+   */
+  query<T extends ExplicitValue<S> = InferFromSchema, N extends StoreName<S> = StoreName<S>>(storeName: N): Query<ResolveValue<T, S, N>, StoreKey<S, N>> {
+    return new Query({
+      storeName,
+      objectStore: (mode, operation) => this.objectStore(storeName, mode, operation),
+      driver: () => this.storage,
+      publish: (changes) => this.changes.publish(changes),
+      ready: () => this.connected(),
+      encoded: !!this.codec(storeName),
+      decode: (values, operation) => this.decodeRecords(storeName, values, operation),
+      storedAs: (keyPath, operation) => this.storedAs(storeName, keyPath, operation),
+      encodeKey: (keyPath, key, operation) => this.encodeKey(storeName, keyPath, key, operation),
+      intercept: (operation, run) => this.intercept(operation, [storeName], (_storeName) => run())
+    });
+  }
+
+  /**
+   * Runs `callback` inside a single transaction over `storeNames`. The transaction commits once the callback
+   * resolves and its requests finish, and aborts if the callback throws or any request fails.
+   */
+  async transaction<R, N extends StoreName<S> = StoreName<S>>(
+    storeNames: N | N[],
+    mode: IDBTransactionMode,
+    callback: TransactionCallback<R, S, N>
+  ): Promise<R> {
+    const names = Array.isArray(storeNames) ? storeNames : [storeNames];
+    return this.intercept('transaction', [names, mode, callback], async (storeNames, mode, callback) => {
+      const raw = this.openTransaction(storeNames, mode, 'transaction');
+      const changes: ChangeRecord[] = [];
+      const tx = new SimpleTransaction<S, N>(raw, this.storage, {
+        onChange: (change) => changes.push(change),
+        hasCodec: (storeName) => !!this.codec(storeName),
+        validate: (store, value, operation) => this.validateNow(store, value, operation)
+      });
+      const done = new Promise<void>((resolve, reject) => {
+        raw.addEventListener('complete', () => {
+          this.changes.publish(mergeChanges(changes));
+          resolve();
+        });
+        raw.addEventListener('abort', () => {
+          reject(raw.error
+            ? toSimpleIDBError(raw.error, 'Transaction aborted', { operation: 'transaction' })
+            : new SimpleIDBError('Transaction aborted by the callback', { operation: 'transaction' }));
+        });
+      });
+      // The callback's own error takes precedence; keep the abort from surfacing as an unhandled rejection.
+      done.catch(() => undefined);
+
+      let result: R;
+      try {
+        result = await callback(tx);
+      } catch (error) {
+        tx.abort();
+        throw error;
+      }
+      await done;
+      return result;
+    });
+  }
+
+  /**
+   * Deletes the expired records of a store with a TTL and resolves with how many were deleted. Only the
+   * expired part of the store's expiry index is visited, so unexpired records are never read.
+   */
+  async purgeExpired(storeName: StoreName<S>): Promise<number> {
+    return this.intercept('purgeExpired', [storeName], (storeName) => this.purgeStore(storeName));
+  }
+
+  private purgeStore(storeName: string): Promise<number> {
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], 'readwrite');
+      const transaction = this.openTransaction([storeName], 'readwrite', 'purgeExpired');
       const store = transaction.objectStore(storeName);
-      const request = store.add(data);
-      request.onerror = () => reject(new Error(`Failed to add record: ${request.error?.message || 'Unknown error'}`));
-      request.onsuccess = () => resolve();
+      const index = ttlIndex(store);
+      if (!index) {
+        throw noTTLError(storeName, 'purgeExpired');
+      }
+      const deleted: IDBKey[] = [];
+      transaction.oncomplete = () => {
+        this.changes.publish(deleted.length > 0 ? [recordChange(store, 'delete', deleted)] : []);
+        resolve(deleted.length);
+      };
+      transaction.onerror = (event) => {
+        reject(toSimpleIDBError((event.target as IDBRequest).error, 'Failed to purge expired records', { operation: 'purgeExpired', storeName }));
+      };
+      const request = index.openKeyCursor(this.storage.IDBKeyRange.upperBound(Date.now()));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          deleted.push(cursor.primaryKey);
+          store.delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+    });
+  }
+
+  /**
+   * Decodes every record of a store with a codec and encodes it again, e.g. to re-encrypt the store under
+   * the key that is now current after a key rotation. Runs in batches of `batchSize` records; a record
+   * written by someone else in the meantime is left as it is. Resolves with how many records were rewritten.
+   */
+  async reencodeStore(storeName: StoreName<S>, options?: { batchSize?: number }): Promise<number> {
+    return this.intercept('reencodeStore', [storeName, options], async (storeName, options) => {
+      const codec = this.codec(storeName);
+      if (!codec) {
+        throw new SimpleIDBError(`Object store "${storeName}" has no codec. Pass one in the codecs option of new SimpleIDB().`, {
+          operation: 'reencodeStore',
+          storeName
+        });
+      }
+      const batchSize = options?.batchSize ?? 100;
+      if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new SimpleIDBError(`Invalid batchSize ${batchSize}: expected a positive integer.`, { operation: 'reencodeStore', storeName });
+      }
+
+      let position: CursorPosition | null = null;
+      let rewritten = 0;
+      while (true) {
+        const { entries, exhausted }: { entries: CursorRecord<unknown>[]; exhausted: boolean } = await this.readBatch<unknown>(
+          storeName,
+          { operation: 'reencodeStore', action: 're-encode records' },
+          undefined,
+          position,
+          batchSize
+        );
+        if (entries.length > 0) {
+          const values = await this.decodeRecords(storeName, entries.map((entry) => entry.value), 'reencodeStore');
+          // The decoded records still carry their expiry and search tokens, so they are not prepared again.
+          const { encoded } = await this.encodeRecords(this.storeMetadata(storeName, 'reencodeStore'), values, 'reencodeStore', (_store, value) => value);
+          rewritten += await this.rewriteUnchanged(storeName, entries, encoded);
+          position = entries[entries.length - 1];
+        }
+        if (exhausted) {
+          return rewritten;
+        }
+      }
+    });
+  }
+
+  /**
+   * Adds a plugin whose hooks run around every record operation and whose upgrade() runs on every upgrade
+   * of later open() calls. Plugins run in the order they were added. Returns a function that removes it.
+   */
+  use(plugin: SimpleIDBPlugin<S>): () => void {
+    if (typeof plugin !== 'object' || plugin === null || typeof plugin.name !== 'string' || plugin.name === '') {
+      throw new DataError('use() takes a plugin object with a non-empty name.', { operation: 'use' });
+    }
+    if (this.plugins.some((registered) => registered.name === plugin.name)) {
+      throw new ConstraintError(`A plugin named "${plugin.name}" is already in use.`, { operation: 'use' });
+    }
+    this.plugins = [...this.plugins, plugin];
+    return () => {
+      this.plugins = this.plugins.filter((registered) => registered !== plugin);
+    };
+  }
+
+  /**
+   * Calls `callback` after every committed write to `storeName`, including writes made by other tabs on
+   * the same database. With `range`, only changes to keys in the range are reported; add `index` to match
+   * index keys instead of primary keys. Returns a function that stops observing.
+   */
+  observe<N extends StoreName<S>>(storeName: N, callback: ChangeCallback, options?: ObserveOptions & { index?: IndexName<S, N> }): () => void {
+    return this.changes.observe(storeName, callback, options);
+  }
+
+  /**
+   * Runs `query` and passes its result to `onResult`, then runs it again whenever a store it read from
+   * changes. Returns a function that stops the live query.
+   */
+  liveQuery<R>(query: () => Promise<R>, onResult: (result: R) => void, onError?: (error: unknown) => void): () => void {
+    let stopped = false;
+    let running = false;
+    let stale = false;
+    let stores = new Set<string>();
+
+    const run = async () => {
+      if (running) {
+        stale = true;
+        return;
+      }
+      running = true;
+      do {
+        stale = false;
+        // Reads from other callers while the query runs are tracked too; that only costs an extra re-run.
+        const touched = new Set<string>();
+        this.readTrackers.add(touched);
+        try {
+          const result = await query();
+          if (!stopped) {
+            onResult(result);
+          }
+        } catch (error) {
+          if (!stopped) {
+            onError?.(error);
+          }
+        } finally {
+          this.readTrackers.delete(touched);
+        }
+        stores = touched;
+      } while (stale && !stopped);
+      running = false;
+    };
+
+    const unobserve = this.changes.observe(null, (event) => {
+      if (stores.has(event.storeName)) {
+        void run();
+      }
     });
+    void run();
+    return () => {
+      stopped = true;
+      unobserve();
+    };
   }
 
-  async get<T = unknown>(storeName: string, key: IDBKey): Promise<T | undefined> {
+  /** Serializes the schema and records of every object store (or only `options.stores`) into a JSON-safe dump. */
+  async exportDatabase(options?: ExportOptions<S>): Promise<DatabaseDump> {
+    await this.connected();
     if (!this.db) {
-      throw new Error('Database not open. Call open() first.');
+      throw databaseNotOpen({ operation: 'exportDatabase' });
     }
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], 'readonly');
-      const store = transaction.objectStore(storeName);
-      const request = store.get(key);
-      request.onerror = () => reject(new Error(`Failed to get record: ${request.error?.message || 'Unknown error'}`));
-      request.onsuccess = () => resolve(request.result as T | undefined);
+    const db = this.db;
+    const storeNames: string[] = options?.stores ?? Array.from(db.objectStoreNames);
+    const snapshots = storeNames.length === 0 ? [] : await new Promise<Array<{ schema: Omit<StoreDump, 'records'>; keys: IDBKey[]; values: unknown[] }>>(
+      (resolve, reject) => {
+        // One transaction for all stores, so the dump is a consistent snapshot.
+        const transaction = this.openTransaction(storeNames, 'readonly', 'exportDatabase');
+        const snapshots = storeNames.map((storeName) => {
+          const store = transaction.objectStore(storeName);
+          const snapshot = { schema: describeStore(store), keys: [] as IDBKey[], values: [] as unknown[] };
+          const keysRequest = store.getAllKeys();
+          keysRequest.onsuccess = () => {
+            snapshot.keys = keysRequest.result;
+          };
+          const valuesRequest = store.getAll();
+          valuesRequest.onsuccess = () => {
+            snapshot.values = valuesRequest.result;
+          };
+          return snapshot;
+        });
+        transaction.oncomplete = () => resolve(snapshots);
+        transaction.onerror = (event) => {
+          reject(toSimpleIDBError((event.target as IDBRequest).error, 'Failed to export database', { operation: 'exportDatabase' }));
+        };
+      }
+    );
+
+    const stores = await Promise.all(snapshots.map(async ({ schema, keys, values }): Promise<StoreDump> => {
+      const [encodedKeys, encodedValues] = await Promise.all([encodeValues(keys), encodeValues(values)]);
+      return {
+        ...schema,
+        records: encodedValues.map((value, i) => (schema.keyPath === null ? { key: encodedKeys[i], value } : { value }))
+      };
+    }));
+    return {
+      format: DUMP_FORMAT,
+      formatVersion: DUMP_FORMAT_VERSION,
+      name: db.name,
+      version: db.version,
+      exportedAt: new Date().toISOString(),
+      stores
+    };
+  }
+
+  /**
+   * Restores a dump made by exportDatabase(). The whole dump is validated and decoded before anything is
+   * written, and all records are written in one transaction. When the dump needs object stores or indexes
+   * the database lacks, the import rejects unless `upgrade` is set, so they can be added by a migration
+   * instead. Resolves with the database version after the import.
+   */
+  async importDatabase(dump: unknown, options: ImportOptions): Promise<number> {
+    return this.intercept('importDatabase', [dump, options], async (dump, options) => {
+      if (!this.db) {
+        throw databaseNotOpen({ operation: 'importDatabase' });
+      }
+      const mode = options?.mode;
+      if (mode !== 'replace' && mode !== 'merge') {
+        throw new SimpleIDBError(`Invalid import mode "${String(mode)}": expected "replace" or "merge".`, { operation: 'importDatabase' });
+      }
+      validateDump(dump);
+      const stores: ImportedStore[] = dump.stores.map((store, i) => ({
+        ...store,
+        records: store.records.map((record, j) => ({
+          key: store.keyPath === null && 'key' in record ? (decodeValue(record.key, `stores[${i}].records[${j}].key`) as IDBKey) : undefined,
+          value: decodeValue(record.value, `stores[${i}].records[${j}].value`)
+        }))
+      }));
+
+      const schemaChanges = this.planImport(stores, mode);
+      if (schemaChanges.length > 0) {
+        const { name, version } = this.db;
+        if (!options.upgrade) {
+          const list = schemaChanges.map((change) => change.description).join('; ');
+          throw new ConstraintError(
+            `Cannot import into database "${name}": the dump needs schema changes (${list}). Make them in a migration, or import with upgrade: true.`,
+            { operation: 'importDatabase' }
+          );
+        }
+        const openOptions = this.openOptions;
+        this.close();
+        await this.open(name, version + 1, {
+          ...openOptions,
+          migrations: undefined,
+          upgrade: (db, { transaction }) => schemaChanges.forEach((change) => change.apply(db, transaction))
+        });
+        // Reconnects reuse the connection's own options rather than the import's one-off upgrade.
+        this.openOptions = openOptions;
+      }
+      await this.writeImport(stores, mode);
+      return this.db!.version;
+    });
+  }
+
+  /** Closes the connection. With the `open` option, the next call opens it again. */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+    this.changes.disconnect();
+    clearInterval(this.purgeTimer);
+    this.setConnectionState('closed');
+  }
+
+  /** Sets connectionState while `connecting` runs, and has calls wait for it meanwhile. */
+  private async track(state: ConnectionState, connecting: Promise<void>): Promise<void> {
+    this.connecting = connecting;
+    this.setConnectionState(state);
+    try {
+      await connecting;
+      this.setConnectionState('open');
+    } catch (error) {
+      this.setConnectionState('closed', toSimpleIDBError(error, 'Failed to open database', { operation: 'open' }));
+      throw error;
+    } finally {
+      if (this.connecting === connecting) {
+        this.connecting = null;
+      }
+    }
+  }
+
+  private setConnectionState(state: ConnectionState, error?: SimpleIDBError): void {
+    if (state === this.state && !error) {
+      return;
+    }
+    this.state = state;
+    this.connectionListeners.forEach((listener) => listener(state, error));
+  }
+
+  /**
+   * Waits for the running open() or reconnect. With the `open` option, opens a closed database first.
+   * Otherwise a call on a closed database goes ahead and fails with a DatabaseClosedError.
+   */
+  private async connected(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+    if (!this.connecting && this.options.open) {
+      const { name, version, reconnect: _reconnect, ...options } = this.options.open;
+      const current = this.lastOpened?.name === name ? this.lastOpened.version : 0;
+      // Failures reach the callers through this.connecting.
+      this.track('opening', this.connect(name, Math.max(version, current), options)).catch(() => undefined);
+    }
+    await this.connecting;
+  }
+
+  /** Reopens `db` after the browser closed it, when the database was opened through the `open` option. */
+  private reconnect(db: IDBDatabase): void {
+    const reconnect = this.options.open?.reconnect ?? true;
+    if (!this.options.open || reconnect === false) {
+      return;
+    }
+    // The version db was at, which importDatabase() may have raised past the configured one.
+    const attempt = () => this.connect(db.name, db.version, this.openOptions);
+    this.track('reconnecting', retry(attempt, reconnect === true ? {} : reconnect)).catch(() => undefined);
+  }
+
+  /** The driver of the current connection, or the one open() will use. */
+  private get storage(): StorageDriver {
+    return this.driver ?? this.options.driver ?? defaultDriver();
+  }
+
+  private startPurging(options: OpenOptions<S>): void {
+    clearInterval(this.purgeTimer);
+    if (options.purgeInterval === undefined) {
+      return;
+    }
+    this.purgeTimer = setInterval(() => {
+      this.purgeAllExpired().catch((error) => options.onError?.(toSimpleIDBError(error, 'Failed to purge expired records', { operation: 'purgeExpired' })));
+    }, options.purgeInterval);
+  }
+
+  private async purgeAllExpired(): Promise<void> {
+    const db = this.db;
+    if (!db || db.objectStoreNames.length === 0) {
+      return;
+    }
+    const storeNames = Array.from(db.objectStoreNames);
+    const transaction = this.openTransaction(storeNames, 'readonly', 'purgeExpired');
+    const expiring = storeNames.filter((storeName) => ttlIndex(transaction.objectStore(storeName)) !== null);
+    // A sweep stops once its connection is closed, rather than reopening the database through connected().
+    for (const storeName of expiring) {
+      if (this.db !== db) {
+        return;
+      }
+      await this.purgeStore(storeName);
+    }
+  }
+
+  private watchConnection(db: IDBDatabase, options: OpenOptions<S>): void {
+    db.addEventListener('versionchange', (event) => {
+      if (options.onVersionChange) {
+        options.onVersionChange(event as IDBVersionChangeEvent);
+      } else if (this.db === db) {
+        this.close();
+      } else {
+        db.close();
+      }
+    });
+    db.addEventListener('close', () => {
+      if (this.db === db) {
+        this.db = null;
+        this.changes.disconnect();
+        clearInterval(this.purgeTimer);
+        this.setConnectionState('closed');
+        this.reconnect(db);
+      }
+      options.onClose?.();
     });
+    db.addEventListener('error', (event) => {
+      options.onError?.(toSimpleIDBError((event.target as IDBRequest).error, 'Request failed', { operation: 'request' }));
+    });
+  }
+
+  /**
+   * Runs the planned migration steps in version order. Returns a promise only when a step is async, so
+   * synchronous migrations finish within the upgradeneeded event like a plain upgrade callback does.
+   */
+  private migrationContext(upgrade: UpgradeContext, version: number): MigrationContext<S> {
+    return {
+      ...upgrade,
+      version,
+      store: (storeName) => upgrade.transaction.objectStore(storeName),
+      createStore: (storeName, options) => this.createStore(storeName, options),
+      createIndex: (storeName, indexName, keyPath, options) => this.createIndex(storeName, indexName, keyPath, options),
+      createSearchIndex: (storeName, indexName, fields, options) => this.createSearchIndex(storeName, indexName, fields, options),
+      deleteStore: (storeName) => this.deleteStore(storeName),
+      deleteIndex: (storeName, indexName) => this.deleteIndex(storeName, indexName),
+      renameStore: (oldName, newName) => this.renameStore(oldName, newName),
+      renameIndex: (storeName, oldName, newName) => this.renameIndex(storeName, oldName, newName),
+      recreateIndex: (storeName, indexName, keyPath, options) => this.recreateIndex(storeName, indexName, keyPath, options),
+      recreateStore: (storeName, options) => this.recreateStore(storeName, options)
+    };
+  }
+
+  private runMigrations(migrations: Migrations<MigrationContext<S>> | undefined, upgrade: UpgradeContext): Promise<void> | void {
+    if (!migrations) {
+      return;
+    }
+    const steps = planMigrations(migrations, upgrade.oldVersion, upgrade.newVersion);
+    const run = (from: number): Promise<void> | void => {
+      for (let i = from; i < steps.length; i++) {
+        const { version, migrate } = steps[i];
+        const context = this.migrationContext(upgrade, version);
+        const failed = (error: unknown) =>
+          new SimpleIDBError(`Migration to version ${version} failed: ${error instanceof Error ? error.message : String(error)}`, {
+            operation: 'open',
+            cause: error
+          });
+        let result: void | Promise<void>;
+        try {
+          result = migrate(context);
+        } catch (error) {
+          throw failed(error);
+        }
+        if (result instanceof Promise) {
+          return result.then(() => run(i + 1), (error) => {
+            throw failed(error);
+          });
+        }
+      }
+    };
+    return run(0);
+  }
+
+  private upgradePlugins(upgrade: UpgradeContext): void {
+    for (const plugin of this.plugins) {
+      try {
+        plugin.upgrade?.(this.migrationContext(upgrade, upgrade.newVersion));
+      } catch (error) {
+        throw new SimpleIDBError(`Plugin "${plugin.name}" failed to upgrade the database: ${error instanceof Error ? error.message : String(error)}`, {
+          operation: 'open',
+          cause: error
+        });
+      }
+    }
+  }
+
+  /** Runs `run` with `args` inside the hooks of the plugins in use; see use(). */
+  private async intercept<A extends unknown[], R>(operation: PluginOperation, args: [...A], run: (...args: A) => Promise<R>): Promise<R> {
+    await this.connected();
+    return runWithPlugins(this.plugins, operation, args, run);
   }
 
-  async put<T = unknown>(storeName: string, data: T): Promise<void> {
+  private requireUpgrade(operation: string, reason: string): IDBTransaction {
     if (!this.db) {
-      throw new Error('Database not open. Call open() first.');
+      throw databaseNotOpen({ operation });
     }
+    if (!this.upgradeTransaction) {
+      throw new SimpleIDBError(`${operation} must be called within the upgradeCallback during open(). ${reason}`, { operation });
+    }
+    return this.upgradeTransaction;
+  }
+
+  private upgradeStore(storeName: string, operation: string, reason: string): IDBObjectStore {
+    if (!this.db) {
+      throw databaseNotOpen({ operation, storeName });
+    }
+    if (!this.db.objectStoreNames.contains(storeName)) {
+      throw new NotFoundError(`Object store "${storeName}" does not exist. Create it first with createStore().`, { operation, storeName });
+    }
+    return this.requireUpgrade(operation, reason).objectStore(storeName);
+  }
+
+  /** The store's codec, run after its serialize hooks when it has both. */
+  private codec(storeName: string): ValueCodec | undefined {
+    const codec = this.options.codecs?.[storeName];
+    const hooks = this.storeHooks.get(storeName);
+    if (!hooks || !hasTransforms(hooks)) {
+      return codec;
+    }
+    return codec ? pipeline([transformCodec(hooks), codec]) : transformCodec(hooks);
+  }
+
+  private registerHooks(storeName: string, options: StoreHooks | undefined, operation: string): void {
+    validateTransforms(options, { operation, storeName });
+    validateValidator(options, { operation, storeName });
+    if (operation !== 'constructor') {
+      const undeclared = undeclaredHooks(options, this.options.stores?.[storeName]);
+      if (undeclared.length > 0) {
+        throw new SimpleIDBError(
+          `Cannot pass ${undeclared.join(', ')} to ${operation}() for object store "${storeName}" unless new SimpleIDB({ stores }) declares the same for it. IndexedDB cannot keep functions, so hooks passed only to ${operation}() would be lost once the database is opened again.`,
+          { operation, storeName }
+        );
+      }
+    }
+    if (hasTransforms(options) || options?.validate !== undefined) {
+      const { serialize, deserialize, validate, validateOnRead } = options!;
+      this.storeHooks.set(storeName, { serialize, deserialize, validate, validateOnRead });
+    }
+  }
+
+  /**
+   * Checks `values` with the store's validator before a write. Resolves with the error to fail each
+   * invalid record with, or undefined for a valid one.
+   */
+  private async validateRecords(store: IDBObjectStore, values: unknown[], operation: string): Promise<Array<ValidationError | undefined>> {
+    const validator = this.storeHooks.get(store.name)?.validate;
+    if (validator === undefined) {
+      return [];
+    }
+    return Promise.all(
+      values.map(async (value) => {
+        const issues = await runValidator(validator, value);
+        return issues.length > 0 ? validationError(issues, { operation, storeName: store.name, key: extractKey(store.keyPath, value) }) : undefined;
+      })
+    );
+  }
+
+  /** Checks a record inside a transaction, which cannot wait for an async validator. */
+  private validateNow(store: IDBObjectStore, value: unknown, operation: string): void {
+    const validator = this.storeHooks.get(store.name)?.validate;
+    if (validator === undefined) {
+      return;
+    }
+    const details = { operation, storeName: store.name, key: extractKey(store.keyPath, value) };
+    const issues = runValidator(validator, value);
+    if (issues instanceof Promise) {
+      issues.catch(() => undefined);
+      throw new SimpleIDBError(`The validator of object store "${store.name}" is async, so it cannot check records written by ${operation}().`, details);
+    }
+    if (issues.length > 0) {
+      throw validationError(issues, details);
+    }
+  }
+
+  /**
+   * Returns the records to write for `values`, with the store's hidden properties added by `prepare`. On a
+   * store with a codec they are encoded here already, since a transaction cannot wait for an async codec.
+   * The returned function throws the ValidationError of a record the store's validator rejected.
+   */
+  private async recordsFor(
+    storeName: string,
+    values: unknown[],
+    operation: string,
+    prepare: (store: IDBObjectStore, value: unknown) => unknown
+  ): Promise<(store: IDBObjectStore, index: number) => unknown> {
+    const encoding = !!this.codec(storeName);
+    if (!encoding && this.storeHooks.get(storeName)?.validate === undefined) {
+      return (store, index) => prepare(store, values[index]);
+    }
+    const metadata = this.storeMetadata(storeName, operation);
+    const invalid = await this.validateRecords(metadata.store, values, operation);
+    const check = (index: number) => {
+      if (invalid[index]) {
+        throw invalid[index];
+      }
+    };
+    if (!encoding) {
+      return (store, index) => {
+        check(index);
+        return prepare(store, values[index]);
+      };
+    }
+    const valid = values.map((_value, index) => index).filter((index) => !invalid[index]);
+    const { encoded } = await this.encodeRecords(metadata, valid.map((index) => values[index]), operation, prepare);
+    const records = new Map(valid.map((index, i) => [index, encoded[i]]));
+    return (_store, index) => {
+      check(index);
+      return records.get(index);
+    };
+  }
+
+  /**
+   * Reads what validating and encoding the records of a write need in one transaction: the store, whose
+   * name, key path and index names stay readable after its transaction is done, and its codec context.
+   */
+  private storeMetadata(storeName: string, operation: string): StoreMetadata {
+    const store = this.objectStore(storeName, 'readonly', operation);
+    return { store, context: codecContext(store) };
+  }
+
+  /** Prepares `values` with `prepare` and encodes them with the store's codec. */
+  private async encodeRecords(
+    { store, context }: StoreMetadata,
+    values: unknown[],
+    operation: string,
+    prepare: (store: IDBObjectStore, value: unknown) => unknown
+  ): Promise<{ prepared: unknown[]; encoded: unknown[] }> {
+    const storeName = store.name;
+    const codec = this.codec(storeName)!;
+    if (this.options.codecs?.[storeName] && searchIndexes(store).length > 0) {
+      throw searchOnCodecStore(storeName, { operation, storeName });
+    }
+    const prepared = values.map((value) => prepare(store, value));
+    const encoded = await Promise.all(
+      prepared.map((value) =>
+        runCodec(() => codec.encode(value, context), 'Failed to encode record', { operation, storeName, key: extractKey(store.keyPath, value) })
+      )
+    );
+    return { prepared, encoded };
+  }
+
+  /**
+   * Decodes records read from a store with a codec, and checks them with the store's validator when it
+   * has validateOnRead. Records of other stores are returned as they are.
+   */
+  private async decodeRecords<T>(storeName: string, values: unknown[], operation: string): Promise<T[]> {
+    const codec = this.codec(storeName);
+    const validateOnRead = this.storeHooks.get(storeName)?.validateOnRead;
+    if ((!codec && !validateOnRead) || values.length === 0) {
+      return values as T[];
+    }
+    const { store, context } = this.storeMetadata(storeName, operation);
+    let decoded = values;
+    if (codec) {
+      decoded = await Promise.all(
+        values.map((value) =>
+          runCodec(() => codec.decode(value, context), 'Failed to decode record', { operation, storeName, key: extractKey(store.keyPath, value) })
+        )
+      );
+    }
+    if (validateOnRead) {
+      const invalid = (await this.validateRecords(store, decoded, operation)).find((error) => error !== undefined);
+      if (invalid) {
+        throw invalid;
+      }
+    }
+    return decoded as T[];
+  }
+
+  /**
+   * Maps the keys of an index query to their stored form through the codec's encodeKey(), so equality
+   * lookups on hashed fields match. Like where() in query(), it rejects indexes on fields the codec does
+   * not keep readable, and ranges on hashed fields, since their bounds cannot be mapped.
+   */
+  private async indexQuery(storeName: string, indexName: string, query: KeyQuery | undefined, operation: string): Promise<KeyQuery | undefined> {
+    if (!this.codec(storeName)) {
+      return query;
+    }
+    const keyPath = indexOf(this.objectStore(storeName, 'readonly', operation), indexName, operation).keyPath;
+    const stored = this.storedAs(storeName, keyPath, operation);
+    if (stored === 'encoded') {
+      throw unreadableIndex(storeName, indexName, { operation, storeName });
+    }
+    if (stored === 'plain' || query === undefined) {
+      return query;
+    }
+    if (isKeyRange(query) || (isKeyRangeDescriptor(query) && query.type !== 'only')) {
+      throw new SimpleIDBError(
+        `Cannot read a range of index "${indexName}" on object store "${storeName}", since the store's codec only keeps an encoded key of its fields. Look up single keys instead.`,
+        { operation, storeName }
+      );
+    }
+    const encode = (key: IDBKey) => this.encodeKey(storeName, keyPath, key, operation);
+    return isKeyRangeDescriptor(query) ? { type: 'only', value: await encode((query as { value: IDBKey }).value) } : encode(query);
+  }
+
+  /** Maps a key looked up at `keyPath` to the form the store's codec stores it in. */
+  private async encodeKey(storeName: string, keyPath: KeyPath, key: IDBKey, operation: string): Promise<IDBKey> {
+    const codec = this.codec(storeName);
+    if (!codec?.encodeKey) {
+      return key;
+    }
+    const context = codecContext(this.objectStore(storeName, 'readonly', operation));
+    return runCodec(() => codec.encodeKey!(keyPath, key, context), 'Failed to encode index key', { operation, storeName });
+  }
+
+  /** How the store's codec keeps the field at `keyPath`; the least readable part of a compound key path. */
+  private storedAs(storeName: string, keyPath: KeyPath, operation: string): StoredField {
+    const codec = this.codec(storeName);
+    if (!codec?.storedAs) {
+      return 'plain';
+    }
+    const context = codecContext(this.objectStore(storeName, 'readonly', operation));
+    return leastReadable((Array.isArray(keyPath) ? keyPath : [keyPath]).map((path) => codec.storedAs!(path, context)));
+  }
+
+  /**
+   * Reads up to `batchSize` records after `position` in one transaction. Records rejected by `accept` are
+   * passed over and do not count towards the batch.
+   */
+  private readBatch<T>(
+    storeName: string,
+    context: RequestContext,
+    options: Pick<IterateOptions, 'index' | 'range' | 'direction'> | undefined,
+    position: CursorPosition | null,
+    batchSize: number,
+    accept?: (cursor: IDBCursorWithValue) => boolean
+  ): Promise<{ entries: Array<CursorRecord<T>>; exhausted: boolean }> {
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], 'readwrite');
+      const direction = options?.direction ?? 'next';
+      const unique = direction === 'nextunique' || direction === 'prevunique';
+      const store = this.objectStore(storeName, 'readonly', context.operation);
+      const source = options?.index ? indexOf(store, options.index, context.operation) : store;
+      // Index keys repeat across records, so a non-unique index cursor resumes at the last index key
+      // and then skips forward by primary key.
+      const resumeByPrimaryKey = !!options?.index && !unique;
+      const baseRange = toKeyRange(options?.range, this.storage);
+      let range: IDBValidKey | IDBKeyRange | undefined = baseRange;
+      if (position) {
+        const narrowed = rangeAfter(baseRange, position.key, direction, !resumeByPrimaryKey, this.storage);
+        if (!narrowed) {
+          resolve({ entries: [], exhausted: true });
+          return;
+        }
+        range = narrowed;
+      }
+
+      const sign = direction === 'next' || direction === 'nextunique' ? 1 : -1;
+      const cmp = (a: IDBValidKey, b: IDBValidKey) => this.storage.indexedDB.cmp(a, b);
+      const isAfterPosition = (cursor: IDBCursor): boolean => {
+        if (!position || !resumeByPrimaryKey) {
+          return true;
+        }
+        const byKey = cmp(cursor.key, position.key) * sign;
+        return byKey > 0 || (byKey === 0 && cmp(cursor.primaryKey, position.primaryKey) * sign > 0);
+      };
+
+      const entries: Array<CursorRecord<T>> = [];
+      let jumped = false;
+      const request = source.openCursor(range, direction);
+      const fail = (error: unknown) => reject(toSimpleIDBError(error, `Failed to ${context.action}`, { operation: context.operation, storeName }));
+      request.onerror = () => fail(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve({ entries, exhausted: true });
+          return;
+        }
+        try {
+          if (!isAfterPosition(cursor)) {
+            // continuePrimaryKey() refuses to target the record the cursor is already on.
+            if (jumped || cmp(cursor.primaryKey, position!.primaryKey) === 0) {
+              cursor.continue();
+            } else {
+              jumped = true;
+              cursor.continuePrimaryKey(position!.key, position!.primaryKey);
+            }
+            return;
+          }
+          if (accept && !accept(cursor)) {
+            cursor.continue();
+            return;
+          }
+          entries.push({ key: cursor.key, primaryKey: cursor.primaryKey, value: cursor.value as T });
+          if (entries.length >= batchSize) {
+            resolve({ entries, exhausted: false });
+            return;
+          }
+          cursor.continue();
+        } catch (error) {
+          fail(error);
+        }
+      };
+    });
+  }
+
+  /** Replaces each record of `entries` with its counterpart in `records`, unless it changed since it was read. */
+  private rewriteUnchanged(storeName: string, entries: CursorRecord<unknown>[], records: unknown[]): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.openTransaction([storeName], 'readwrite', 'reencodeStore');
       const store = transaction.objectStore(storeName);
-      const request = store.put(data);
-      request.onerror = () => reject(new Error(`Failed to put record: ${request.error?.message || 'Unknown error'}`));
-      request.onsuccess = () => resolve();
+      let rewritten = 0;
+      transaction.oncomplete = () => resolve(rewritten);
+      transaction.onerror = (event) => {
+        reject(toSimpleIDBError((event.target as IDBRequest).error, 'Failed to re-encode records', { operation: 'reencodeStore', storeName }));
+      };
+      entries.forEach((entry, i) => {
+        const request = store.get(entry.primaryKey);
+        request.onsuccess = () => {
+          if (request.result !== undefined && sameStoredValue(request.result, entry.value)) {
+            rewritten++;
+            if (store.keyPath === null) {
+              store.put(records[i], entry.primaryKey);
+            } else {
+              store.put(records[i]);
+            }
+          }
+        };
+      });
     });
   }
 
-  async delete(storeName: string, key: IDBKey): Promise<void> {
-    if (!this.db) {
-      throw new Error('Database not open. Call open() first.');
+  private toCursorEntry<T>(storeName: string, entry: CursorRecord<T>, mode: 'readonly' | 'readwrite'): CursorEntry<T> {
+    const requireWritable = (operation: 'update' | 'delete') => {
+      if (mode !== 'readwrite') {
+        throw new SimpleIDBError(`Cannot ${operation} records while iterating in readonly mode. Pass { mode: 'readwrite' } to iterate().`, {
+          operation: 'iterate',
+          storeName,
+          key: entry.primaryKey
+        });
+      }
+    };
+    const write = async (operation: 'update' | 'delete', storeName: string, key: IDBKey, run: (store: IDBObjectStore) => IDBRequest, value?: T): Promise<void> => {
+      const context: RequestContext = {
+        operation: 'iterate',
+        action: `${operation} record`,
+        key,
+        change: operation === 'update' ? 'put' : 'delete'
+      };
+      if (operation === 'update') {
+        context.value = value;
+      }
+      await this.runRequest(storeName, 'readwrite', context, run);
+    };
+    // Plugins see these writes as the put() and delete() they amount to.
+    return {
+      key: entry.key,
+      primaryKey: entry.primaryKey,
+      value: entry.value,
+      update: async (value: T) => {
+        requireWritable('update');
+        await this.intercept('put', [storeName, value], async (storeName, value) => {
+          const record = await this.recordsFor(storeName, [value], 'iterate', (store, next) => withSearchTokens(store, next, 'iterate'));
+          const key = entry.primaryKey;
+          await write('update', storeName, key, (store) => (store.keyPath === null ? store.put(record(store, 0), key) : store.put(record(store, 0))), value);
+        });
+      },
+      delete: async () => {
+        requireWritable('delete');
+        await this.intercept('delete', [storeName, entry.primaryKey], (storeName, key) => write('delete', storeName, key, (store) => store.delete(key)));
+      }
+    };
+  }
+
+  private modify<R>(storeName: string, key: IDBKey, operation: 'update' | 'patch', updater: Updater<unknown>, options: WriteOptions | undefined): Promise<R | undefined> {
+    if (this.codec(storeName)) {
+      return this.modifyEncoded(storeName, key, operation, updater, options);
+    }
+    return this.readModifyWrite(storeName, key, operation, updater, (store, next) => {
+      this.validateNow(store, next, operation);
+      const record = prepareRecord(store, next, operation, options?.ttl);
+      return { record, value: record };
+    });
+  }
+
+  /**
+   * update() and patch() on a store with a codec. Decoding and encoding may be async, which a transaction
+   * cannot wait for, so the record is decoded and re-encoded outside it. The write then only goes ahead if
+   * the stored record is still the one that was read, and is retried from the start otherwise.
+   */
+  private async modifyEncoded<R>(
+    storeName: string,
+    key: IDBKey,
+    operation: 'update' | 'patch',
+    updater: Updater<unknown>,
+    options: WriteOptions | undefined
+  ): Promise<R | undefined> {
+    const details = { operation, storeName, key };
+    const conflict = new ConstraintError(
+      `The record with key ${JSON.stringify(key)} in object store "${storeName}" kept changing while it was being updated. Gave up after ${MAX_UPDATE_ATTEMPTS} attempts.`,
+      details
+    );
+    for (let attempt = 1; ; attempt++) {
+      const stored = await this.runRequest<unknown>(storeName, 'readonly', { operation, action: 'update record', key }, (store) => store.get(key));
+      if (stored === undefined || (isExpired(stored) && this.expiring(storeName, operation))) {
+        throw missingRecord(key, details);
+      }
+      const [current] = await this.decodeRecords(storeName, [stored], operation);
+      const next = updater(current);
+      if (next instanceof Promise) {
+        throw new SimpleIDBError(`The ${operation}() callback must return the new record synchronously, not a promise.`, details);
+      }
+      let written: { prepared: unknown[]; encoded: unknown[] } = { prepared: [], encoded: [] };
+      if (next !== DELETE_RECORD) {
+        const metadata = this.storeMetadata(storeName, operation);
+        const [invalid] = await this.validateRecords(metadata.store, [next], operation);
+        if (invalid) {
+          throw invalid;
+        }
+        written = await this.encodeRecords(metadata, [next], operation, (store, value) => prepareRecord(store, value, operation, options?.ttl));
+      }
+      const { prepared, encoded } = written;
+      try {
+        return await this.readModifyWrite<R>(
+          storeName,
+          key,
+          operation,
+          (latest) => {
+            if (!sameStoredValue(latest, stored)) {
+              throw conflict;
+            }
+            return next;
+          },
+          () => ({ record: encoded[0], value: prepared[0] })
+        );
+      } catch (error) {
+        if (error !== conflict || attempt === MAX_UPDATE_ATTEMPTS) {
+          throw error;
+        }
+      }
     }
+  }
+
+  /**
+   * Reads the record at `key`, passes it to `updater` and writes the result in one readwrite transaction.
+   * `toRecord` turns the updated record into the one to store and the one to resolve with and report to
+   * observers.
+   */
+  private readModifyWrite<R>(
+    storeName: string,
+    key: IDBKey,
+    operation: 'update' | 'patch',
+    updater: Updater<unknown>,
+    toRecord: (store: IDBObjectStore, next: unknown) => { record: unknown; value: unknown }
+  ): Promise<R | undefined> {
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], 'readwrite');
+      const transaction = this.openTransaction([storeName], 'readwrite', operation);
       const store = transaction.objectStore(storeName);
-      const request = store.delete(key);
-      request.onerror = () => reject(new Error(`Failed to delete record: ${request.error?.message || 'Unknown error'}`));
-      request.onsuccess = () => resolve();
+      const details = { operation, storeName, key };
+      let failure: Error | null = null;
+      let change: ChangeRecord | null = null;
+      let stored: unknown;
+      const fail = (error: unknown) => {
+        failure = toSimpleIDBError(error, 'Failed to update record', details);
+        try {
+          transaction.abort();
+        } catch {
+          // A failed request already aborts the transaction.
+        }
+      };
+
+      transaction.oncomplete = () => {
+        this.changes.publish(change ? [change] : []);
+        resolve(stored as R | undefined);
+      };
+      transaction.onabort = () => {
+        reject(failure ?? toSimpleIDBError(transaction.error, 'Failed to update record', details));
+      };
+
+      let request: IDBRequest;
+      try {
+        request = store.get(key);
+      } catch (error) {
+        fail(error);
+        return;
+      }
+      request.onerror = () => {
+        failure = toSimpleIDBError(request.error, 'Failed to update record', details);
+      };
+      request.onsuccess = () => {
+        const current: unknown = request.result;
+        if (current === undefined || (isExpired(current) && storeTTL(store) !== null)) {
+          fail(missingRecord(key, details));
+          return;
+        }
+        let write: IDBRequest;
+        try {
+          const next = updater(current);
+          if (next instanceof Promise) {
+            throw new SimpleIDBError(`The ${operation}() callback must return the new record synchronously, not a promise.`, details);
+          }
+          if (next === DELETE_RECORD) {
+            write = store.delete(key);
+            write.onsuccess = () => {
+              change = recordChange(store, 'delete', [key]);
+            };
+          } else {
+            const nextKey = extractKey(store.keyPath, next);
+            if (store.keyPath !== null && (nextKey === undefined || this.storage.indexedDB.cmp(nextKey, key) !== 0)) {
+              throw new DataError(`The ${operation}() callback must not change the record's key.`, details);
+            }
+            const { record, value } = toRecord(store, next);
+            write = store.keyPath === null ? store.put(record, key) : store.put(record);
+            write.onsuccess = () => {
+              stored = value;
+              change = recordChange(store, 'put', [key], [value]);
+            };
+          }
+        } catch (error) {
+          fail(error);
+          return;
+        }
+        write.onerror = () => {
+          failure = toSimpleIDBError(write.error, 'Failed to update record', details);
+        };
+      };
     });
   }
 
-  async clear(storeName: string): Promise<void> {
-    if (!this.db) {
-      throw new Error('Database not open. Call open() first.');
-    }
+  private bulkWrite<T>(
+    storeName: string,
+    operation: 'add' | 'put' | 'delete',
+    items: T[],
+    options: BulkOptions | undefined,
+    makeRequest: (store: IDBObjectStore, item: T, index: number) => IDBRequest,
+    keyOf: (store: IDBObjectStore, item: T) => IDBKey | undefined
+  ): Promise<IDBKey[] | BulkReport> {
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], 'readwrite');
+      const transaction = this.openTransaction([storeName], 'readwrite', `${operation}Many`);
       const store = transaction.objectStore(storeName);
-      const request = store.clear();
-      request.onerror = () => reject(new Error(`Failed to clear store: ${request.error?.message || 'Unknown error'}`));
-      request.onsuccess = () => resolve();
+      const continueOnError = options?.continueOnError ?? false;
+      const results: BulkItemResult[] = items.map((_item, index) => ({ index }));
+      const changes: ChangeRecord[] = [];
+      let failure: Error | null = null;
+
+      const fail = (index: number, error: DOMException | null) => {
+        results[index].error = { name: error?.name || 'UnknownError', message: error?.message || 'Unknown error' };
+        if (!continueOnError && !failure) {
+          failure = toSimpleIDBError(error, `Failed to ${operation} record at index ${index}`, {
+            operation: `${operation}Many`,
+            storeName,
+            key: results[index].key
+          });
+        }
+      };
+
+      transaction.oncomplete = () => {
+        this.changes.publish(mergeChanges(changes));
+        if (continueOnError) {
+          resolve({ results, failures: results.filter((result) => result.error) });
+        } else {
+          resolve(results.map((result) => result.key!));
+        }
+      };
+      transaction.onabort = () => {
+        reject(failure ?? toSimpleIDBError(transaction.error ?? new Error('Transaction aborted'), `Failed to ${operation} records`, {
+          operation: `${operation}Many`,
+          storeName
+        }));
+      };
+
+      for (const [index, item] of items.entries()) {
+        results[index].key = keyOf(store, item);
+        let request: IDBRequest;
+        try {
+          request = makeRequest(store, item, index);
+        } catch (error) {
+          fail(index, error as DOMException);
+          if (!continueOnError) {
+            transaction.abort();
+            return;
+          }
+          continue;
+        }
+        request.onsuccess = () => {
+          if (operation !== 'delete') {
+            results[index].key = request.result as IDBKey;
+          }
+          changes.push(recordChange(store, operation, [results[index].key!], operation === 'delete' ? undefined : [item]));
+        };
+        request.onerror = (event) => {
+          fail(index, request.error);
+          if (continueOnError) {
+            // Keep the transaction alive so the remaining items are still written.
+            event.preventDefault();
+            event.stopPropagation();
+          }
+        };
+      }
     });
   }
 
-  async getAll<T = unknown>(storeName: string): Promise<T[]> {
-    if (!this.db) {
-      throw new Error('Database not open. Call open() first.');
+  private planImport(stores: ImportedStore[], mode: ImportOptions['mode']): SchemaChange[] {
+    const db = this.db!;
+    const existingNames = stores.map((store) => store.name).filter((storeName) => db.objectStoreNames.contains(storeName));
+    const existing = new Map<string, Omit<StoreDump, 'records'>>();
+    if (existingNames.length > 0) {
+      const transaction = this.openTransaction(existingNames, 'readonly', 'importDatabase');
+      existingNames.forEach((storeName) => existing.set(storeName, describeStore(transaction.objectStore(storeName))));
+    }
+
+    const createIndex = (storeName: string, index: IndexDump): SchemaChange => ({
+      description: `create index "${index.name}" on object store "${storeName}"`,
+      apply: (_db, transaction) => {
+        transaction.objectStore(storeName).createIndex(index.name, index.keyPath, { unique: index.unique, multiEntry: index.multiEntry });
+      }
+    });
+    const createStore = (store: ImportedStore): SchemaChange => ({
+      description: `create object store "${store.name}"`,
+      apply: (upgradeDb, transaction) => {
+        upgradeDb.createObjectStore(store.name, { keyPath: store.keyPath, autoIncrement: store.autoIncrement });
+        store.indexes.forEach((index) => createIndex(store.name, index).apply(upgradeDb, transaction));
+      }
+    });
+    const deleteIndex = (storeName: string, indexName: string): SchemaChange => ({
+      description: `delete index "${indexName}" on object store "${storeName}"`,
+      apply: (_db, transaction) => transaction.objectStore(storeName).deleteIndex(indexName)
+    });
+    const conflict = (what: string, mismatch: string) =>
+      new ConstraintError(`Cannot merge into ${what}: it differs from the dump (${mismatch}). Import with mode "replace" to overwrite it.`, {
+        operation: 'importDatabase'
+      });
+
+    const changes: SchemaChange[] = [];
+    for (const store of stores) {
+      const current = existing.get(store.name);
+      if (!current) {
+        changes.push(createStore(store));
+        continue;
+      }
+      const storeMismatch = describeMismatch([
+        ['keyPath', current.keyPath, store.keyPath],
+        ['autoIncrement', current.autoIncrement, store.autoIncrement]
+      ]);
+      if (storeMismatch) {
+        if (mode === 'merge') {
+          throw conflict(`object store "${store.name}"`, storeMismatch);
+        }
+        changes.push({ description: `delete object store "${store.name}"`, apply: (upgradeDb) => upgradeDb.deleteObjectStore(store.name) }, createStore(store));
+        continue;
+      }
+      for (const index of store.indexes) {
+        const currentIndex = current.indexes.find((candidate) => candidate.name === index.name);
+        if (!currentIndex) {
+          changes.push(createIndex(store.name, index));
+          continue;
+        }
+        const indexMismatch = describeMismatch([
+          ['keyPath', currentIndex.keyPath, index.keyPath],
+          ['unique', currentIndex.unique, index.unique],
+          ['multiEntry', currentIndex.multiEntry, index.multiEntry]
+        ]);
+        if (indexMismatch && mode === 'merge') {
+          throw conflict(`index "${index.name}" on object store "${store.name}"`, indexMismatch);
+        }
+        if (indexMismatch) {
+          changes.push(deleteIndex(store.name, index.name), createIndex(store.name, index));
+        }
+      }
+      if (mode === 'replace') {
+        current.indexes
+          .filter((index) => !store.indexes.some((wanted) => wanted.name === index.name))
+          .forEach((index) => changes.push(deleteIndex(store.name, index.name)));
+      }
+    }
+    return changes;
+  }
+
+  private writeImport(stores: ImportedStore[], mode: ImportOptions['mode']): Promise<void> {
+    if (stores.length === 0) {
+      return Promise.resolve();
     }
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], 'readonly');
-      const store = transaction.objectStore(storeName);
-      const request = store.getAll();
-      request.onerror = () => reject(new Error(`Failed to get all records: ${request.error?.message || 'Unknown error'}`));
-      request.onsuccess = () => resolve(request.result as T[]);
+      const transaction = this.openTransaction(stores.map((store) => store.name), 'readwrite', 'importDatabase');
+      const changes: ChangeRecord[] = [];
+      let failure: Error | null = null;
+      const fail = (error: unknown, storeName: string, index: number, key?: IDBKey) => {
+        if (!failure) {
+          failure = toSimpleIDBError(error, `Failed to import record ${index} of object store "${storeName}"`, {
+            operation: 'importDatabase',
+            storeName,
+            key
+          });
+        }
+      };
+      transaction.oncomplete = () => {
+        this.changes.publish(mergeChanges(changes));
+        resolve();
+      };
+      transaction.onabort = () => {
+        reject(failure ?? toSimpleIDBError(transaction.error, 'Failed to import database', { operation: 'importDatabase' }));
+      };
+
+      for (const { name, records } of stores) {
+        const store = transaction.objectStore(name);
+        if (mode === 'replace') {
+          store.clear();
+          changes.push(recordChange(store, 'clear', []));
+        }
+        for (const [index, { key, value }] of records.entries()) {
+          let request: IDBRequest<IDBValidKey>;
+          try {
+            request = key === undefined ? store.put(value) : store.put(value, key);
+          } catch (error) {
+            fail(error, name, index, key);
+            transaction.abort();
+            return;
+          }
+          request.onsuccess = () => changes.push(recordChange(store, 'put', [request.result]));
+          request.onerror = () => fail(request.error, name, index, key);
+        }
+      }
     });
   }
 
-  async count(storeName: string): Promise<number> {
+  private openTransaction(storeNames: string[], mode: IDBTransactionMode, operation: string): IDBTransaction {
     if (!this.db) {
-      throw new Error('Database not open. Call open() first.');
+      throw databaseNotOpen({ operation, storeName: storeNames[0] });
+    }
+    for (const tracker of this.readTrackers) {
+      storeNames.forEach((storeName) => tracker.add(storeName));
     }
+    try {
+      return this.db.transaction(storeNames, mode);
+    } catch (error) {
+      const name = (error as DOMException).name;
+      if (name === 'NotFoundError') {
+        const missing = storeNames.find((storeName) => !this.db!.objectStoreNames.contains(storeName)) ?? storeNames[0];
+        throw new NotFoundError(`Object store "${missing}" does not exist. Create it first with createStore().`, {
+          operation,
+          storeName: missing,
+          cause: error
+        });
+      }
+      if (name === 'InvalidStateError') {
+        throw new DatabaseClosedError('Database connection is closed. Call open() again.', { operation, storeName: storeNames[0], cause: error });
+      }
+      throw toSimpleIDBError(error, 'Failed to start transaction', { operation, storeName: storeNames[0] });
+    }
+  }
+
+  private objectStore(storeName: string, mode: IDBTransactionMode, operation: string): IDBObjectStore {
+    return this.openTransaction([storeName], mode, operation).objectStore(storeName);
+  }
+
+  /** Runs a single request in its own transaction and maps a failure to the matching SimpleIDBError. */
+  private runRequest<R>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    context: RequestContext,
+    makeRequest: (store: IDBObjectStore) => IDBRequest
+  ): Promise<R> {
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([storeName], 'readonly');
-      const store = transaction.objectStore(storeName);
-      const request = store.count();
-      request.onerror = () => reject(new Error(`Failed to count records: ${request.error?.message || 'Unknown error'}`));
-      request.onsuccess = () => resolve(request.result);
+      const store = this.objectStore(storeName, mode, context.operation);
+      let request: IDBRequest;
+      try {
+        request = makeRequest(store);
+      } catch (error) {
+        reject(failedRequest(error, store, context));
+        return;
+      }
+      request.onerror = () => reject(failedRequest(request.error, store, context));
+      request.onsuccess = () => {
+        const change = describeWrite(store, context, request.result);
+        if (change) {
+          store.transaction.addEventListener('complete', () => this.changes.publish([change]));
+        }
+        resolve(request.result as R);
+      };
     });
   }
 
-  close(): void {
-    this.db?.close();
-    this.db = null;
+  /** Whether the store has a TTL, so that its records can expire. */
+  private expiring(storeName: string, operation: string): boolean {
+    return ttlIndex(this.objectStore(storeName, 'readonly', operation)) !== null;
+  }
+
+  /** Drops expired records from `values`, which only stores with a TTL can hold. */
+  private liveRecords<T>(storeName: string, values: T[], operation: string): T[] {
+    if (!values.some((value) => isExpired(value)) || !this.expiring(storeName, operation)) {
+      return values;
+    }
+    return values.filter((value) => !isExpired(value));
+  }
+
+  /** Counts the records of `source` in `query`, passing over expired ones through a cursor when the store has a TTL. */
+  private async countLive(
+    storeName: string,
+    context: RequestContext,
+    source: (store: IDBObjectStore) => IDBObjectStore | IDBIndex,
+    query: IDBValidKey | IDBKeyRange | undefined
+  ): Promise<number> {
+    if (!this.expiring(storeName, context.operation)) {
+      return this.runRequest(storeName, 'readonly', context, (store) => source(store).count(query));
+    }
+    const live = await this.collectCursor(storeName, context, undefined, (store) => source(store).openCursor(query), () => true, isLiveCursor);
+    return live.length;
   }
+
+  private collectCursor<R, C extends IDBCursor>(
+    storeName: string,
+    context: RequestContext,
+    options: CursorOptions | undefined,
+    openCursor: (store: IDBObjectStore) => IDBRequest<C | null>,
+    read: (cursor: C) => R,
+    accept?: (cursor: C) => boolean
+  ): Promise<R[]> {
+    return new Promise((resolve, reject) => {
+      const request = openCursor(this.objectStore(storeName, 'readonly', context.operation));
+      const results: R[] = [];
+      walkCursor(request, options, (cursor) => results.push(read(cursor)), () => resolve(results), accept);
+      request.onerror = () => {
+        reject(toSimpleIDBError(request.error, `Failed to ${context.action}`, { operation: context.operation, storeName }));
+      };
+    });
+  }
+}
+
+/** Search tokens are the words of the record in plaintext, so they would leak what a codec encrypts. */
+function searchOnCodecStore(storeName: string, details: { operation: string; storeName: string }): SimpleIDBError {
+  return new SimpleIDBError(
+    `Object store "${storeName}" cannot have both a codec and a search index, since the search tokens would be stored unencoded.`,
+    details
+  );
+}
+
+function unreadableIndex(storeName: string, indexName: string, details: { operation: string; storeName: string }): SimpleIDBError {
+  return new SimpleIDBError(
+    `Cannot use index "${indexName}" on object store "${storeName}", since the store's codec does not keep its fields readable. List them in the codec's plaintext or hashed fields.`,
+    details
+  );
+}
+
+function missingRecord(key: IDBKey, details: { operation: string; storeName: string; key: IDBKey }): NotFoundError {
+  return new NotFoundError(`No record with key ${JSON.stringify(key)} in object store "${details.storeName}".`, details);
+}
+
+function indexOf(store: IDBObjectStore, indexName: string, operation: string): IDBIndex {
+  if (!store.indexNames.contains(indexName)) {
+    throw new NotFoundError(`Index "${indexName}" does not exist on object store "${store.name}". Create it first with createIndex().`, {
+      operation,
+      storeName: store.name
+    });
+  }
+  return store.index(indexName);
+}
+
+function validateStoreOptions(options: StoreOptions | undefined, details: { operation: string; storeName: string }): void {
+  if (options?.autoIncrement && Array.isArray(options.keyPath)) {
+    throw new DataError(`Object store "${details.storeName}" cannot use autoIncrement, since its keyPath is compound.`, details);
+  }
+  if (options?.ttl !== undefined) {
+    validateTTL(options.ttl, details);
+  }
+}
+
+/** The hooks in `options` that `declared`, the store's entry in the constructor's `stores`, does not set to the same functions or schema. */
+function undeclaredHooks(options: StoreHooks | undefined, declared: StoreHooks | undefined): string[] {
+  return (['serialize', 'deserialize', 'validate', 'validateOnRead'] as const).filter((name) => {
+    const hook: unknown = options?.[name];
+    const expected: unknown = declared?.[name];
+    if (hook === undefined || hook === false) {
+      return false;
+    }
+    if (Array.isArray(hook) && Array.isArray(expected)) {
+      return hook.length !== expected.length || hook.some((step, i) => step !== expected[i]);
+    }
+    return hook !== expected;
+  });
+}
+
+function describeMismatch(options: Array<[name: string, actual: unknown, requested: unknown]>): string {
+  return options
+    .filter(([, actual, requested]) => JSON.stringify(actual) !== JSON.stringify(requested))
+    .map(([name, actual, requested]) => `${name}: ${JSON.stringify(actual)}, requested ${JSON.stringify(requested)}`)
+    .join('; ');
 }
 
 export default SimpleIDB;
@@ -0,0 +1,41 @@
+/** A property name, a dotted path to a nested property, or an array of those for a compound key. */
+export type KeyPath = string | string[];
+
+/**
+ * Resolves a key path against a value the way IndexedDB does: dotted segments walk nested objects and an
+ * array of paths yields an array key. Returns undefined when any segment is missing.
+ */
+export function extractKey(keyPath: KeyPath | null | undefined, value: unknown): IDBValidKey | undefined {
+  if (keyPath === null || keyPath === undefined) {
+    return undefined;
+  }
+  if (Array.isArray(keyPath)) {
+    const parts = keyPath.map((path) => extractKey(path, value));
+    return parts.every((part) => part !== undefined) ? (parts as IDBValidKey[]) : undefined;
+  }
+  if (keyPath === '') {
+    return value as IDBValidKey;
+  }
+  let current: unknown = value;
+  for (const segment of keyPath.split('.')) {
+    if (typeof current !== 'object' || current === null || !(segment in current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current as IDBValidKey | undefined;
+}
+
+/** Sets the value at a dotted `path` in `target`, creating the objects on the way. */
+export function setKeyPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const segments = path.split('.');
+  let current = target;
+  for (const segment of segments.slice(0, -1)) {
+    const next = current[segment];
+    if (typeof next !== 'object' || next === null || Array.isArray(next)) {
+      current[segment] = {};
+    }
+    current = current[segment] as Record<string, unknown>;
+  }
+  current[segments[segments.length - 1]] = value;
+}
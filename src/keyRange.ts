@@ -0,0 +1,78 @@
+import { StorageDriver } from './driver';
+import { DataError } from './errors';
+
+export type KeyRangeDescriptor =
+  | { type: 'only'; value: IDBValidKey }
+  | { type: 'above'; lower: IDBValidKey; open?: boolean }
+  | { type: 'below'; upper: IDBValidKey; open?: boolean }
+  | { type: 'between'; lower: IDBValidKey; upper: IDBValidKey; lowerOpen?: boolean; upperOpen?: boolean }
+  | { type: 'prefix'; prefix: string | IDBValidKey[] };
+
+export type KeyQuery = IDBValidKey | IDBKeyRange | KeyRangeDescriptor;
+
+export function isKeyRangeDescriptor(query: unknown): query is KeyRangeDescriptor {
+  return typeof query === 'object' && query !== null && !Array.isArray(query) && 'type' in query;
+}
+
+/** Turns a descriptor into a key range of the driver's IDBKeyRange; keys and key ranges pass through. */
+export function toKeyRange(query: KeyQuery, driver: StorageDriver): IDBValidKey | IDBKeyRange;
+export function toKeyRange(query: KeyQuery | undefined, driver: StorageDriver): IDBValidKey | IDBKeyRange | undefined;
+export function toKeyRange(query: KeyQuery | undefined, driver: StorageDriver): IDBValidKey | IDBKeyRange | undefined {
+  if (!isKeyRangeDescriptor(query)) {
+    return query;
+  }
+  const { IDBKeyRange } = driver;
+  switch (query.type) {
+    case 'only':
+      return IDBKeyRange.only(query.value);
+    case 'above':
+      return IDBKeyRange.lowerBound(query.lower, query.open ?? false);
+    case 'below':
+      return IDBKeyRange.upperBound(query.upper, query.open ?? false);
+    case 'between':
+      return IDBKeyRange.bound(query.lower, query.upper, query.lowerOpen ?? false, query.upperOpen ?? false);
+    case 'prefix':
+      if (Array.isArray(query.prefix)) {
+        // Compound keys starting with these parts sort between the parts themselves and the parts followed
+        // by an empty array, since arrays sort above every other key type.
+        return IDBKeyRange.bound(query.prefix, [...query.prefix, []]);
+      }
+      // '\uffff' is the highest UTF-16 code unit, so every string starting with the prefix sorts below it.
+      return IDBKeyRange.bound(query.prefix, `${query.prefix}\uffff`);
+    default:
+      throw new DataError(`Unknown key range type "${(query as { type: unknown }).type}"`);
+  }
+}
+
+export function isKeyRange(query: unknown): query is IDBKeyRange {
+  return typeof query === 'object' && query !== null && 'lowerOpen' in query && 'upperOpen' in query;
+}
+
+/**
+ * Restricts `range` to the keys after `position` in the given cursor direction.
+ * Returns null when nothing in the range can follow `position`.
+ */
+export function rangeAfter(
+  range: IDBValidKey | IDBKeyRange | undefined,
+  position: IDBValidKey,
+  direction: IDBCursorDirection,
+  open: boolean,
+  driver: StorageDriver
+): IDBKeyRange | null {
+  const { IDBKeyRange, indexedDB } = driver;
+  const bounds = range === undefined ? null : isKeyRange(range) ? range : IDBKeyRange.only(range);
+  const forward = direction === 'next' || direction === 'nextunique';
+  const end = forward ? bounds?.upper : bounds?.lower;
+  const endOpen = forward ? bounds?.upperOpen ?? false : bounds?.lowerOpen ?? false;
+
+  if (end === undefined) {
+    return forward ? IDBKeyRange.lowerBound(position, open) : IDBKeyRange.upperBound(position, open);
+  }
+  const order = indexedDB.cmp(position, end) * (forward ? 1 : -1);
+  if (order > 0 || (order === 0 && (open || endOpen))) {
+    return null;
+  }
+  return forward
+    ? IDBKeyRange.bound(position, end, open, endOpen)
+    : IDBKeyRange.bound(end, position, endOpen, open);
+}
@@ -0,0 +1,93 @@
+import { StorageDriver } from './driver';
+import SimpleIDB from './index';
+
+export interface KeyValueOptions {
+  /** Storage backend; see `SimpleIDBOptions.driver`. */
+  driver?: StorageDriver;
+}
+
+interface Entry {
+  key: IDBValidKey;
+  value: unknown;
+}
+
+interface KeyValueSchema {
+  entries: { value: Entry; key: IDBValidKey };
+}
+
+const STORE_NAME = 'entries';
+
+/**
+ * A key-value store backed by its own database, `simple-idb-kv:<namespace>`. The database is created and
+ * opened on first use and reopened after it was closed, so no open() or upgrade callback is needed.
+ */
+export class KeyValueStore {
+  private database: SimpleIDB<KeyValueSchema> | null = null;
+
+  constructor(readonly namespace = 'default', private readonly options: KeyValueOptions = {}) {}
+
+  get dbName(): string {
+    return `simple-idb-kv:${this.namespace}`;
+  }
+
+  async get<T = unknown>(key: IDBValidKey): Promise<T | undefined> {
+    const entry = await this.db.get(STORE_NAME, key);
+    return entry?.value as T | undefined;
+  }
+
+  async set(key: IDBValidKey, value: unknown): Promise<void> {
+    await this.db.put(STORE_NAME, { key, value });
+  }
+
+  async del(key: IDBValidKey): Promise<void> {
+    await this.db.delete(STORE_NAME, key);
+  }
+
+  async keys(): Promise<IDBValidKey[]> {
+    return this.db.getAllKeys(STORE_NAME);
+  }
+
+  /** Every key and value, in key order. */
+  async entries<T = unknown>(): Promise<Array<[IDBValidKey, T]>> {
+    const entries = await this.db.getAll(STORE_NAME);
+    return entries.map((entry) => [entry.key, entry.value as T]);
+  }
+
+  /**
+   * Replaces the value under `key` with `updater(current)` and resolves with the new value. The read and
+   * the write run in one transaction, so concurrent updates of the same key are not lost. `updater` must
+   * be synchronous, since the transaction ends while it awaits.
+   */
+  async update<T = unknown>(key: IDBValidKey, updater: (current: T | undefined) => T): Promise<T> {
+    return this.db.transaction(STORE_NAME, 'readwrite', async (tx) => {
+      const entry = await tx.get(STORE_NAME, key);
+      const value = updater(entry?.value as T | undefined);
+      await tx.put(STORE_NAME, { key, value });
+      return value;
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.db.clear(STORE_NAME);
+  }
+
+  /** Closes the connection. The next call opens it again. */
+  close(): void {
+    this.database?.close();
+  }
+
+  // Created on first use rather than in the constructor, since `kv` is created while index.ts still loads.
+  private get db(): SimpleIDB<KeyValueSchema> {
+    if (!this.database) {
+      const db = new SimpleIDB<KeyValueSchema>({
+        driver: this.options.driver,
+        open: { name: this.dbName, version: 1, upgrade: () => db.createStore(STORE_NAME, { keyPath: 'key' }) }
+      });
+      this.database = db;
+    }
+    return this.database;
+  }
+}
+
+/** The key-value store of the `default` namespace. Use `new KeyValueStore(namespace)` for others. */
+export const kv = new KeyValueStore();
@@ -0,0 +1,1670 @@
+import { KeyPath, extractKey } from './keyPath';
+
+/*
+ * An in-memory implementation of the parts of the IndexedDB API that SimpleIDB uses, for Node, SSR and
+ * tests. It follows the spec where it matters to callers: key ordering, key paths and key generators,
+ * unique and multiEntry indexes, cursors, auto-committing transactions that roll back on abort, and
+ * versioned upgrades that wait for other connections to close. Transactions on one database run one
+ * at a time, which IndexedDB allows.
+ */
+
+type Key = IDBValidKey;
+type Listener = (event: MemoryEvent) => void;
+type TransactionMode = 'readonly' | 'readwrite' | 'versionchange';
+
+function domError(name: string, message: string): DOMException {
+  return new DOMException(message, name);
+}
+
+let queueTask: ((task: () => void) => void) | null = null;
+
+/**
+ * Runs `task` in a later macrotask. A transaction stays active until the task that created it, or the task
+ * that delivered a request's result, has ended; microtasks (awaits) still run inside that task.
+ */
+function runLater(task: () => void): void {
+  if (!queueTask) {
+    if (typeof setImmediate === 'function') {
+      queueTask = (next) => setImmediate(next);
+    } else if (typeof MessageChannel === 'function') {
+      // Browsers clamp nested setTimeout() calls to 4ms, which would slow every request down.
+      const tasks: Array<() => void> = [];
+      const channel = new MessageChannel();
+      channel.port1.onmessage = () => tasks.shift()?.();
+      queueTask = (next) => {
+        tasks.push(next);
+        channel.port2.postMessage(null);
+      };
+    } else {
+      queueTask = (next) => setTimeout(next, 0);
+    }
+  }
+  queueTask(task);
+}
+
+/** Rethrows outside the current call stack, the way the browser reports an exception thrown by a listener. */
+function rethrowLater(error: unknown): void {
+  setTimeout(() => {
+    throw error;
+  });
+}
+
+/** The AbortError for a transaction aborted because one of its listeners threw. */
+function listenerFailure(type: string, error: unknown): DOMException {
+  return domError('AbortError', `A ${type} event listener threw: ${(error as Error)?.message ?? String(error)}`);
+}
+
+// Keys
+
+function tagOf(value: unknown): string {
+  return Object.prototype.toString.call(value).slice(8, -1);
+}
+
+/** Key types in IndexedDB's sort order: numbers < dates < strings < binary < arrays. */
+function rankOf(key: Key): number {
+  if (typeof key === 'number') {
+    return 0;
+  }
+  if (typeof key === 'string') {
+    return 2;
+  }
+  if (Array.isArray(key)) {
+    return 4;
+  }
+  return tagOf(key) === 'Date' ? 1 : 3;
+}
+
+function bytesOf(binary: unknown): Uint8Array {
+  return ArrayBuffer.isView(binary) ? new Uint8Array(binary.buffer, binary.byteOffset, binary.byteLength) : new Uint8Array(binary as ArrayBuffer);
+}
+
+export function compareKeys(a: Key, b: Key): number {
+  const rank = rankOf(a) - rankOf(b);
+  if (rank !== 0) {
+    return Math.sign(rank);
+  }
+  switch (rankOf(a)) {
+    case 0:
+    case 2:
+      return a < b ? -1 : a > b ? 1 : 0;
+    case 1: {
+      const time = (a as Date).getTime() - (b as Date).getTime();
+      return Math.sign(time);
+    }
+    case 3: {
+      const left = bytesOf(a);
+      const right = bytesOf(b);
+      for (let i = 0; i < Math.min(left.length, right.length); i++) {
+        if (left[i] !== right[i]) {
+          return left[i] < right[i] ? -1 : 1;
+        }
+      }
+      return Math.sign(left.length - right.length);
+    }
+    default: {
+      const left = a as Key[];
+      const right = b as Key[];
+      for (let i = 0; i < Math.min(left.length, right.length); i++) {
+        const order = compareKeys(left[i], right[i]);
+        if (order !== 0) {
+          return order;
+        }
+      }
+      return Math.sign(left.length - right.length);
+    }
+  }
+}
+
+/** Copies `value` as a key: binary keys become ArrayBuffers. Returns undefined when it is not a valid key. */
+function toKey(value: unknown, seen = new Set<unknown>()): Key | undefined {
+  switch (typeof value) {
+    case 'number':
+      return Number.isNaN(value) ? undefined : value;
+    case 'string':
+      return value;
+    case 'object':
+      break;
+    default:
+      return undefined;
+  }
+  if (value === null) {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    if (seen.has(value)) {
+      return undefined;
+    }
+    seen.add(value);
+    const keys: Key[] = [];
+    for (let i = 0; i < value.length; i++) {
+      const key = toKey(value[i], seen);
+      if (key === undefined) {
+        return undefined;
+      }
+      keys.push(key);
+    }
+    return keys;
+  }
+  if (ArrayBuffer.isView(value)) {
+    return bytesOf(value).slice().buffer as ArrayBuffer;
+  }
+  switch (tagOf(value)) {
+    case 'Date': {
+      const time = (value as Date).getTime();
+      return Number.isNaN(time) ? undefined : new Date(time);
+    }
+    case 'ArrayBuffer':
+      return (value as ArrayBuffer).slice(0);
+    default:
+      return undefined;
+  }
+}
+
+function requireKey(value: unknown): Key {
+  const key = toKey(value);
+  if (key === undefined) {
+    throw domError('DataError', 'The parameter is not a valid key.');
+  }
+  return key;
+}
+
+interface RangeBounds {
+  lower: Key | undefined;
+  upper: Key | undefined;
+  lowerOpen: boolean;
+  upperOpen: boolean;
+}
+
+const UNBOUNDED: RangeBounds = { lower: undefined, upper: undefined, lowerOpen: false, upperOpen: false };
+
+function isRangeBounds(query: unknown): query is RangeBounds {
+  return typeof query === 'object' && query !== null && !Array.isArray(query) && 'lowerOpen' in query && 'upperOpen' in query;
+}
+
+function belowRange(range: RangeBounds, key: Key): boolean {
+  if (range.lower === undefined) {
+    return false;
+  }
+  const order = compareKeys(key, range.lower);
+  return order < 0 || (order === 0 && range.lowerOpen);
+}
+
+function aboveRange(range: RangeBounds, key: Key): boolean {
+  if (range.upper === undefined) {
+    return false;
+  }
+  const order = compareKeys(key, range.upper);
+  return order > 0 || (order === 0 && range.upperOpen);
+}
+
+/** A key or key range passed to a request. `required` rejects a missing query, as get() and delete() do. */
+function toRange(query: unknown, required: boolean): RangeBounds {
+  if (query === undefined || query === null) {
+    if (required) {
+      throw domError('DataError', 'No key or key range specified.');
+    }
+    return UNBOUNDED;
+  }
+  if (isRangeBounds(query)) {
+    return query;
+  }
+  const key = requireKey(query);
+  return { lower: key, upper: key, lowerOpen: false, upperOpen: false };
+}
+
+export class MemoryKeyRange implements RangeBounds {
+  private constructor(
+    readonly lower: Key | undefined,
+    readonly upper: Key | undefined,
+    readonly lowerOpen: boolean,
+    readonly upperOpen: boolean
+  ) {}
+
+  static only(value: unknown): MemoryKeyRange {
+    const key = requireKey(value);
+    return new MemoryKeyRange(key, key, false, false);
+  }
+
+  static lowerBound(lower: unknown, open = false): MemoryKeyRange {
+    return new MemoryKeyRange(requireKey(lower), undefined, open, true);
+  }
+
+  static upperBound(upper: unknown, open = false): MemoryKeyRange {
+    return new MemoryKeyRange(undefined, requireKey(upper), true, open);
+  }
+
+  static bound(lower: unknown, upper: unknown, lowerOpen = false, upperOpen = false): MemoryKeyRange {
+    const lowerKey = requireKey(lower);
+    const upperKey = requireKey(upper);
+    const order = compareKeys(lowerKey, upperKey);
+    if (order > 0 || (order === 0 && (lowerOpen || upperOpen))) {
+      throw domError('DataError', 'The lower key is greater than the upper key, or they are equal and one bound is open.');
+    }
+    return new MemoryKeyRange(lowerKey, upperKey, lowerOpen, upperOpen);
+  }
+
+  includes(key: unknown): boolean {
+    const valid = requireKey(key);
+    return !belowRange(this, valid) && !aboveRange(this, valid);
+  }
+}
+
+// Key paths
+
+const IDENTIFIER = /^[$_\p{ID_Start}][$\u200c\u200d\p{ID_Continue}]*$/u;
+
+function isValidKeyPath(keyPath: unknown, allowArray = true): keyPath is KeyPath {
+  if (typeof keyPath === 'string') {
+    return keyPath === '' || keyPath.split('.').every((segment) => IDENTIFIER.test(segment));
+  }
+  return allowArray && Array.isArray(keyPath) && keyPath.length > 0 && keyPath.every((path) => isValidKeyPath(path, false));
+}
+
+/** Whether a generated key can be stored at `keyPath` in `value`, creating missing objects on the way. */
+function canInjectKey(value: unknown, keyPath: string): boolean {
+  let current = value;
+  for (const segment of keyPath.split('.')) {
+    if (typeof current !== 'object' || current === null) {
+      return false;
+    }
+    if (!(segment in current)) {
+      return true;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return typeof current === 'object' && current !== null;
+}
+
+function injectKey(value: unknown, keyPath: string, key: Key): void {
+  const segments = keyPath.split('.');
+  let current = value as Record<string, unknown>;
+  for (const segment of segments.slice(0, -1)) {
+    if (!(segment in current)) {
+      current[segment] = {};
+    }
+    current = current[segment] as Record<string, unknown>;
+  }
+  current[segments[segments.length - 1]] = key;
+}
+
+function cloneValue<T>(value: T): T {
+  try {
+    return structuredClone(value);
+  } catch (error) {
+    throw (error as DOMException)?.name === 'DataCloneError' ? error : domError('DataCloneError', String((error as Error)?.message ?? error));
+  }
+}
+
+// Storage
+
+interface Entry {
+  key: Key;
+  primaryKey: Key;
+}
+
+interface StoredRecord extends Entry {
+  value: unknown;
+}
+
+class IndexData {
+  /** Sorted by key, then primary key. */
+  entries: Entry[] = [];
+  deleted = false;
+
+  constructor(public name: string, readonly keyPath: KeyPath, readonly unique: boolean, readonly multiEntry: boolean) {}
+
+  /** The keys `value` is listed under; invalid or missing keys leave the record out of the index. */
+  keysOf(value: unknown): Key[] {
+    const raw = extractKey(this.keyPath, value);
+    if (raw === undefined) {
+      return [];
+    }
+    if (!this.multiEntry || !Array.isArray(raw)) {
+      const key = toKey(raw);
+      return key === undefined ? [] : [key];
+    }
+    const keys: Key[] = [];
+    for (const part of raw) {
+      const key = toKey(part);
+      if (key !== undefined && !keys.some((existing) => compareKeys(existing, key) === 0)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
+
+class StoreData {
+  /** Sorted by key; `primaryKey` repeats `key` so records and index entries can be walked alike. */
+  records: StoredRecord[] = [];
+  indexes = new Map<string, IndexData>();
+  generator = 1;
+  deleted = false;
+
+  constructor(public name: string, readonly keyPath: KeyPath | null, readonly autoIncrement: boolean) {}
+}
+
+interface StoreSnapshot {
+  name: string;
+  records: StoredRecord[];
+  generator: number;
+  deleted: boolean;
+  indexes: Map<string, IndexData>;
+  indexStates: Array<{ index: IndexData; name: string; entries: Entry[]; deleted: boolean }>;
+}
+
+/** The first position whose entry is not `before` the target; `before` must be monotonic over the sort order. */
+function bisect<E>(entries: E[], before: (entry: E) => boolean): number {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (before(entries[middle])) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+function compareEntry(entry: Entry, key: Key, primaryKey: Key): number {
+  return compareKeys(entry.key, key) || compareKeys(entry.primaryKey, primaryKey);
+}
+
+function findRecord(store: StoreData, key: Key): number {
+  const position = bisect(store.records, (record) => compareKeys(record.key, key) < 0);
+  return position < store.records.length && compareKeys(store.records[position].key, key) === 0 ? position : -1;
+}
+
+/** The entries of `entries` within `range`, in ascending order. */
+function inRange<E extends Entry>(entries: E[], range: RangeBounds): E[] {
+  const start = bisect(entries, (entry) => belowRange(range, entry.key));
+  const end = bisect(entries, (entry) => !aboveRange(range, entry.key));
+  return entries.slice(start, Math.max(start, end));
+}
+
+function removeRecord(store: StoreData, position: number): void {
+  const [record] = store.records.splice(position, 1);
+  for (const index of store.indexes.values()) {
+    for (const key of index.keysOf(record.value)) {
+      const at = bisect(index.entries, (entry) => compareEntry(entry, key, record.key) < 0);
+      index.entries.splice(at, 1);
+    }
+  }
+}
+
+function putRecord(store: StoreData, key: Key, value: unknown, noOverwrite: boolean): void {
+  const existing = findRecord(store, key);
+  if (existing !== -1 && noOverwrite) {
+    throw domError('ConstraintError', 'A record with the given key already exists in the object store.');
+  }
+  const indexKeys = new Map<IndexData, Key[]>();
+  for (const index of store.indexes.values()) {
+    const keys = index.keysOf(value);
+    if (index.unique) {
+      for (const indexKey of keys) {
+        const clash = inRange(index.entries, { lower: indexKey, upper: indexKey, lowerOpen: false, upperOpen: false })
+          .some((entry) => compareKeys(entry.primaryKey, key) !== 0);
+        if (clash) {
+          throw domError('ConstraintError', `Unable to add key to index "${index.name}": at least one key does not satisfy the uniqueness requirements.`);
+        }
+      }
+    }
+    indexKeys.set(index, keys);
+  }
+
+  if (existing !== -1) {
+    removeRecord(store, existing);
+  }
+  const position = bisect(store.records, (record) => compareKeys(record.key, key) < 0);
+  store.records.splice(position, 0, { key, primaryKey: key, value });
+  for (const [index, keys] of indexKeys) {
+    for (const indexKey of keys) {
+      const at = bisect(index.entries, (entry) => compareEntry(entry, indexKey, key) < 0);
+      index.entries.splice(at, 0, { key: indexKey, primaryKey: key });
+    }
+  }
+  if (store.autoIncrement && typeof key === 'number' && key >= store.generator) {
+    store.generator = Math.min(Math.floor(key) + 1, 2 ** 53 + 1);
+  }
+}
+
+class DatabaseData {
+  version = 0;
+  stores = new Map<string, StoreData>();
+  connections = new Set<MemoryDatabase>();
+  /** Transactions in creation order; the first one is running. */
+  transactions: MemoryTransaction[] = [];
+  private openQueue: Array<(done: () => void) => void> = [];
+  private opening = false;
+  private waiters: Array<{ ready: () => boolean; run: () => void }> = [];
+
+  constructor(readonly name: string) {}
+
+  /** Runs open and delete requests one after another. */
+  enqueueOpen(operation: (done: () => void) => void): void {
+    this.openQueue.push(operation);
+    this.nextOpen();
+  }
+
+  enqueueTransaction(transaction: MemoryTransaction): void {
+    this.transactions.push(transaction);
+    if (this.transactions.length === 1) {
+      transaction.start();
+    }
+  }
+
+  transactionFinished(transaction: MemoryTransaction): void {
+    this.transactions = this.transactions.filter((queued) => queued !== transaction);
+    this.transactions[0]?.start();
+    this.checkWaiters();
+  }
+
+  /** Runs `run` once every other connection closed and their transactions finished. */
+  whenIdle(run: () => void): void {
+    this.waiters.push({ ready: () => this.connections.size === 0 && this.transactions.length === 0, run });
+    this.checkWaiters();
+  }
+
+  checkWaiters(): void {
+    for (const waiter of [...this.waiters]) {
+      if (waiter.ready()) {
+        this.waiters = this.waiters.filter((queued) => queued !== waiter);
+        waiter.run();
+      }
+    }
+  }
+
+  private nextOpen(): void {
+    if (this.opening) {
+      return;
+    }
+    const operation = this.openQueue.shift();
+    if (!operation) {
+      return;
+    }
+    this.opening = true;
+    operation(() => {
+      this.opening = false;
+      this.nextOpen();
+    });
+  }
+}
+
+// Events
+
+class MemoryEvent {
+  target: unknown = null;
+  currentTarget: unknown = null;
+  defaultPrevented = false;
+  propagationStopped = false;
+  immediatePropagationStopped = false;
+
+  constructor(readonly type: string, readonly bubbles = false, readonly cancelable = false) {}
+
+  preventDefault(): void {
+    if (this.cancelable) {
+      this.defaultPrevented = true;
+    }
+  }
+
+  stopPropagation(): void {
+    this.propagationStopped = true;
+  }
+
+  stopImmediatePropagation(): void {
+    this.propagationStopped = true;
+    this.immediatePropagationStopped = true;
+  }
+}
+
+class MemoryVersionChangeEvent extends MemoryEvent {
+  constructor(type: string, readonly oldVersion: number, readonly newVersion: number | null) {
+    super(type);
+  }
+}
+
+class MemoryEventTarget {
+  private listeners = new Map<string, Array<{ listener: Listener; once: boolean }>>();
+
+  addEventListener(type: string, listener: Listener | null, options?: boolean | { once?: boolean }): void {
+    if (!listener) {
+      return;
+    }
+    const listeners = this.listeners.get(type) ?? [];
+    if (!listeners.some((entry) => entry.listener === listener)) {
+      listeners.push({ listener, once: typeof options === 'object' && !!options.once });
+    }
+    this.listeners.set(type, listeners);
+  }
+
+  removeEventListener(type: string, listener: Listener | null): void {
+    this.listeners.set(type, (this.listeners.get(type) ?? []).filter((entry) => entry.listener !== listener));
+  }
+
+  /** The target an event bubbles to next. */
+  protected get parentTarget(): MemoryEventTarget | null {
+    return null;
+  }
+
+  /**
+   * Dispatches `event` here and, if it bubbles, up the parents, and returns the first exception a listener
+   * threw. Exceptions are rethrown asynchronously unless `aborts` says the caller aborts a transaction for them.
+   */
+  dispatch(event: MemoryEvent, aborts = false): { error: unknown } | null {
+    event.target = this;
+    let thrown: { error: unknown } | null = null;
+    for (let target: MemoryEventTarget | null = this; target; target = event.bubbles ? target.parentTarget : null) {
+      event.currentTarget = target;
+      const handler = (target as unknown as Record<string, unknown>)[`on${event.type}`];
+      const listeners: Listener[] = typeof handler === 'function' ? [handler as Listener] : [];
+      for (const entry of target.listeners.get(event.type) ?? []) {
+        listeners.push(entry.listener);
+        if (entry.once) {
+          target.removeEventListener(event.type, entry.listener);
+        }
+      }
+      for (const listener of listeners) {
+        try {
+          listener.call(target, event);
+        } catch (error) {
+          thrown ??= { error };
+          if (!aborts) {
+            rethrowLater(error);
+          }
+        }
+        if (event.immediatePropagationStopped) {
+          break;
+        }
+      }
+      if (event.propagationStopped) {
+        break;
+      }
+    }
+    return thrown;
+  }
+}
+
+// Requests
+
+class MemoryRequest extends MemoryEventTarget {
+  onsuccess: Listener | null = null;
+  onerror: Listener | null = null;
+  readyState: 'pending' | 'done' = 'pending';
+  private outcome: { result?: unknown; error: DOMException | null } | null = null;
+
+  constructor(public source: unknown, public transaction: MemoryTransaction | null) {
+    super();
+  }
+
+  get result(): unknown {
+    return this.settled().result;
+  }
+
+  get error(): DOMException | null {
+    return this.settled().error;
+  }
+
+  settle(result: unknown, error: DOMException | null): void {
+    this.readyState = 'done';
+    this.outcome = error ? { error } : { result, error: null };
+  }
+
+  reset(): void {
+    this.readyState = 'pending';
+    this.outcome = null;
+  }
+
+  protected get parentTarget(): MemoryEventTarget | null {
+    return this.transaction;
+  }
+
+  private settled(): { result?: unknown; error: DOMException | null } {
+    if (!this.outcome) {
+      throw domError('InvalidStateError', 'The request has not finished.');
+    }
+    return this.outcome;
+  }
+}
+
+class MemoryOpenRequest extends MemoryRequest {
+  onblocked: Listener | null = null;
+  onupgradeneeded: Listener | null = null;
+
+  constructor() {
+    super(null, null);
+  }
+
+  protected get parentTarget(): MemoryEventTarget | null {
+    return null;
+  }
+}
+
+// Transactions
+
+class MemoryTransaction extends MemoryEventTarget {
+  oncomplete: Listener | null = null;
+  onerror: Listener | null = null;
+  onabort: Listener | null = null;
+  error: DOMException | null = null;
+  readonly durability = 'default';
+  /** Whether requests can be placed: during the creating task and while a request's result is delivered. */
+  active = true;
+  /** Called once the transaction committed (true) or aborted (false). */
+  onFinish: ((committed: boolean) => void) | null = null;
+  private started = false;
+  private finished = false;
+  private commitRequested = false;
+  private scheduled = false;
+  private requests: Array<{ request: MemoryRequest; operation: () => unknown }> = [];
+  private handles = new Map<StoreData, MemoryObjectStore>();
+  private snapshots = new Map<StoreData, StoreSnapshot>();
+
+  constructor(
+    readonly db: MemoryDatabase,
+    private readonly scope: string[],
+    readonly mode: TransactionMode,
+    readonly data: DatabaseData,
+    private readonly databaseSnapshot?: { version: number; stores: Map<string, StoreData> }
+  ) {
+    super();
+    this.schedule();
+    data.enqueueTransaction(this);
+  }
+
+  get objectStoreNames(): DOMStringList {
+    return nameList(this.mode === 'versionchange' ? this.data.stores.keys() : this.scope);
+  }
+
+  get isFinished(): boolean {
+    return this.finished;
+  }
+
+  objectStore(name: string): MemoryObjectStore {
+    if (this.finished) {
+      throw domError('InvalidStateError', 'The transaction has finished.');
+    }
+    const store = this.data.stores.get(name);
+    if (!store || (this.mode !== 'versionchange' && !this.scope.includes(name))) {
+      throw domError('NotFoundError', `Object store "${name}" is not in the transaction's scope.`);
+    }
+    let handle = this.handles.get(store);
+    if (!handle) {
+      handle = new MemoryObjectStore(this, store);
+      this.handles.set(store, handle);
+    }
+    return handle;
+  }
+
+  abort(): void {
+    if (this.finished) {
+      throw domError('InvalidStateError', 'The transaction has already committed or aborted.');
+    }
+    this.abortWith(null);
+  }
+
+  commit(): void {
+    if (this.finished) {
+      throw domError('InvalidStateError', 'The transaction has already committed or aborted.');
+    }
+    this.commitRequested = true;
+    this.active = false;
+    this.schedule();
+  }
+
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.schedule();
+  }
+
+  /** Queues a request. Throws if the transaction cannot take requests right now. */
+  request(source: unknown, operation: () => unknown): MemoryRequest {
+    this.requireActive();
+    const request = new MemoryRequest(source, this);
+    this.requests.push({ request, operation });
+    this.schedule();
+    return request;
+  }
+
+  /** Puts a cursor's request back in the queue, to deliver its next record. */
+  requeue(request: MemoryRequest, operation: () => unknown): void {
+    request.reset();
+    this.requests.push({ request, operation });
+    this.schedule();
+  }
+
+  requireActive(): void {
+    if (!this.active || this.finished) {
+      throw domError('TransactionInactiveError', 'The transaction is not active.');
+    }
+  }
+
+  requireWritable(): void {
+    if (this.mode === 'readonly') {
+      throw domError('ReadOnlyError', 'The transaction is read-only.');
+    }
+  }
+
+  requireUpgrade(): void {
+    if (this.mode !== 'versionchange') {
+      throw domError('InvalidStateError', 'The schema can only be changed in a versionchange transaction.');
+    }
+    this.requireActive();
+  }
+
+  /** Remembers the store's state before its first change, to restore it if the transaction aborts. */
+  touch(store: StoreData): void {
+    if (this.snapshots.has(store)) {
+      return;
+    }
+    this.snapshots.set(store, {
+      name: store.name,
+      records: store.records.slice(),
+      generator: store.generator,
+      deleted: store.deleted,
+      indexes: new Map(store.indexes),
+      indexStates: Array.from(store.indexes.values(), (index) => ({ index, name: index.name, entries: index.entries.slice(), deleted: index.deleted }))
+    });
+  }
+
+  /** Aborts with `error` from inside the transaction, e.g. for a request error nobody handled. */
+  abortWith(error: DOMException | null): void {
+    this.finished = true;
+    this.active = false;
+    this.error = error;
+    this.rollBack();
+    const pending = this.requests.splice(0);
+    runLater(() => {
+      for (const { request } of pending) {
+        request.settle(undefined, domError('AbortError', 'The transaction was aborted.'));
+        request.dispatch(new MemoryEvent('error', true, true));
+      }
+      this.dispatch(new MemoryEvent('abort', true));
+      this.data.transactionFinished(this);
+      this.onFinish?.(false);
+    });
+  }
+
+  protected get parentTarget(): MemoryEventTarget | null {
+    return this.db;
+  }
+
+  private rollBack(): void {
+    for (const [store, snapshot] of this.snapshots) {
+      const previous = new Set(snapshot.indexes.values());
+      for (const index of store.indexes.values()) {
+        if (!previous.has(index)) {
+          index.deleted = true;
+        }
+      }
+      store.name = snapshot.name;
+      store.records = snapshot.records;
+      store.generator = snapshot.generator;
+      store.deleted = snapshot.deleted;
+      store.indexes = snapshot.indexes;
+      for (const state of snapshot.indexStates) {
+        state.index.name = state.name;
+        state.index.entries = state.entries;
+        state.index.deleted = state.deleted;
+      }
+    }
+    if (this.databaseSnapshot) {
+      const previous = new Set(this.databaseSnapshot.stores.values());
+      for (const store of this.data.stores.values()) {
+        if (!previous.has(store)) {
+          store.deleted = true;
+        }
+      }
+      this.data.stores = this.databaseSnapshot.stores;
+      this.data.version = this.databaseSnapshot.version;
+    }
+  }
+
+  private schedule(): void {
+    if (this.scheduled || this.finished) {
+      return;
+    }
+    this.scheduled = true;
+    runLater(() => {
+      this.scheduled = false;
+      this.step();
+    });
+  }
+
+  /** Runs the next request, or commits once none are left. Each step is its own task. */
+  private step(): void {
+    if (this.finished) {
+      return;
+    }
+    this.active = false;
+    if (!this.started) {
+      return;
+    }
+    const next = this.requests.shift();
+    if (!next) {
+      this.complete();
+      return;
+    }
+    const { request, operation } = next;
+    try {
+      request.settle(operation(), null);
+    } catch (error) {
+      request.settle(undefined, error as DOMException);
+    }
+    this.active = !this.commitRequested;
+    if (request.error) {
+      const event = new MemoryEvent('error', true, true);
+      const thrown = request.dispatch(event, true);
+      if (!this.finished && (thrown || !event.defaultPrevented)) {
+        this.abortWith(thrown ? listenerFailure('error', thrown.error) : request.error);
+        return;
+      }
+    } else {
+      const thrown = request.dispatch(new MemoryEvent('success'), true);
+      if (thrown && !this.finished) {
+        this.abortWith(listenerFailure('success', thrown.error));
+        return;
+      }
+    }
+    this.schedule();
+  }
+
+  private complete(): void {
+    this.finished = true;
+    this.snapshots.clear();
+    this.dispatch(new MemoryEvent('complete'));
+    this.data.transactionFinished(this);
+    this.onFinish?.(true);
+  }
+}
+
+function nameList(names: Iterable<string>): DOMStringList {
+  const list = Array.from(names).sort();
+  return Object.assign(list, {
+    contains: (name: string) => list.includes(name),
+    item: (index: number) => list[index] ?? null
+  }) as unknown as DOMStringList;
+}
+
+// Object stores and indexes
+
+function checkCount(count: unknown): number {
+  if (count === undefined) {
+    return Infinity;
+  }
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 0 || count > 2 ** 32 - 1) {
+    throw new TypeError(`Invalid count ${String(count)}.`);
+  }
+  return count === 0 ? Infinity : count;
+}
+
+function checkDirection(direction: unknown): IDBCursorDirection {
+  if (direction !== 'next' && direction !== 'nextunique' && direction !== 'prev' && direction !== 'prevunique') {
+    throw new TypeError(`Invalid cursor direction "${String(direction)}".`);
+  }
+  return direction;
+}
+
+function copyKey(key: Key): Key {
+  return toKey(key)!;
+}
+
+class MemoryObjectStore {
+  private indexHandles = new Map<IndexData, MemoryIndex>();
+
+  constructor(readonly transaction: MemoryTransaction, readonly data: StoreData) {}
+
+  get name(): string {
+    return this.data.name;
+  }
+
+  set name(name: string) {
+    this.requireUsable();
+    this.transaction.requireUpgrade();
+    if (name === this.data.name) {
+      return;
+    }
+    const stores = this.transaction.data.stores;
+    if (stores.has(name)) {
+      throw domError('ConstraintError', `An object store named "${name}" already exists.`);
+    }
+    this.transaction.touch(this.data);
+    stores.delete(this.data.name);
+    stores.set(name, this.data);
+    this.data.name = name;
+  }
+
+  get keyPath(): KeyPath | null {
+    const keyPath = this.data.keyPath;
+    return Array.isArray(keyPath) ? [...keyPath] : keyPath;
+  }
+
+  get autoIncrement(): boolean {
+    return this.data.autoIncrement;
+  }
+
+  get indexNames(): DOMStringList {
+    return nameList(this.data.indexes.keys());
+  }
+
+  add(value: unknown, key?: unknown): MemoryRequest {
+    return this.write(value, key, true);
+  }
+
+  put(value: unknown, key?: unknown): MemoryRequest {
+    return this.write(value, key, false);
+  }
+
+  delete(query: unknown): MemoryRequest {
+    this.requireUsable();
+    this.transaction.requireActive();
+    this.transaction.requireWritable();
+    const range = toRange(query, true);
+    return this.transaction.request(this, () => {
+      this.transaction.touch(this.data);
+      const start = bisect(this.data.records, (record) => belowRange(range, record.key));
+      const end = bisect(this.data.records, (record) => !aboveRange(range, record.key));
+      for (let position = end - 1; position >= start; position--) {
+        removeRecord(this.data, position);
+      }
+      return undefined;
+    });
+  }
+
+  clear(): MemoryRequest {
+    this.requireUsable();
+    this.transaction.requireActive();
+    this.transaction.requireWritable();
+    return this.transaction.request(this, () => {
+      this.transaction.touch(this.data);
+      this.data.records = [];
+      for (const index of this.data.indexes.values()) {
+        index.entries = [];
+      }
+      return undefined;
+    });
+  }
+
+  get(query: unknown): MemoryRequest {
+    const range = this.readRange(query, true);
+    return this.transaction.request(this, () => {
+      const [record] = inRange(this.data.records, range);
+      return record ? cloneValue(record.value) : undefined;
+    });
+  }
+
+  getKey(query: unknown): MemoryRequest {
+    const range = this.readRange(query, true);
+    return this.transaction.request(this, () => {
+      const [record] = inRange(this.data.records, range);
+      return record ? copyKey(record.key) : undefined;
+    });
+  }
+
+  getAll(query?: unknown, count?: number): MemoryRequest {
+    const range = this.readRange(query, false);
+    const limit = checkCount(count);
+    return this.transaction.request(this, () => inRange(this.data.records, range).slice(0, limit).map((record) => cloneValue(record.value)));
+  }
+
+  getAllKeys(query?: unknown, count?: number): MemoryRequest {
+    const range = this.readRange(query, false);
+    const limit = checkCount(count);
+    return this.transaction.request(this, () => inRange(this.data.records, range).slice(0, limit).map((record) => copyKey(record.key)));
+  }
+
+  count(query?: unknown): MemoryRequest {
+    const range = this.readRange(query, false);
+    return this.transaction.request(this, () => inRange(this.data.records, range).length);
+  }
+
+  openCursor(query?: unknown, direction: IDBCursorDirection = 'next'): MemoryRequest {
+    return this.cursor(query, direction, true);
+  }
+
+  openKeyCursor(query?: unknown, direction: IDBCursorDirection = 'next'): MemoryRequest {
+    return this.cursor(query, direction, false);
+  }
+
+  index(name: string): MemoryIndex {
+    this.requireUsable();
+    if (this.transaction.isFinished) {
+      throw domError('InvalidStateError', 'The transaction has finished.');
+    }
+    const index = this.data.indexes.get(name);
+    if (!index) {
+      throw domError('NotFoundError', `Index "${name}" does not exist on object store "${this.data.name}".`);
+    }
+    let handle = this.indexHandles.get(index);
+    if (!handle) {
+      handle = new MemoryIndex(this, index);
+      this.indexHandles.set(index, handle);
+    }
+    return handle;
+  }
+
+  createIndex(name: string, keyPath: KeyPath, options?: { unique?: boolean; multiEntry?: boolean }): MemoryIndex {
+    this.requireUsable();
+    this.transaction.requireUpgrade();
+    if (this.data.indexes.has(name)) {
+      throw domError('ConstraintError', `An index named "${name}" already exists on object store "${this.data.name}".`);
+    }
+    if (!isValidKeyPath(keyPath)) {
+      throw domError('SyntaxError', `Invalid key path ${JSON.stringify(keyPath)}.`);
+    }
+    const multiEntry = options?.multiEntry ?? false;
+    if (multiEntry && Array.isArray(keyPath)) {
+      throw domError('InvalidAccessError', 'A multiEntry index cannot have an array key path.');
+    }
+    this.transaction.touch(this.data);
+    const index = new IndexData(name, Array.isArray(keyPath) ? [...keyPath] : keyPath, options?.unique ?? false, multiEntry);
+    this.data.indexes.set(name, index);
+
+    // Index the existing records; a uniqueness violation aborts the upgrade, as it does in IndexedDB.
+    let violation: DOMException | null = null;
+    for (const record of this.data.records) {
+      for (const key of index.keysOf(record.value)) {
+        const at = bisect(index.entries, (entry) => compareEntry(entry, key, record.key) < 0);
+        const neighbours = [index.entries[at - 1], index.entries[at]].filter(Boolean);
+        if (index.unique && neighbours.some((entry) => compareKeys(entry.key, key) === 0)) {
+          violation ??= domError('ConstraintError', `Records in object store "${this.data.name}" are not unique under index "${name}".`);
+        }
+        index.entries.splice(at, 0, { key, primaryKey: record.key });
+      }
+    }
+    if (violation) {
+      const error = violation;
+      this.transaction.request(this, () => {
+        throw error;
+      });
+    }
+    return this.index(name);
+  }
+
+  deleteIndex(name: string): void {
+    this.requireUsable();
+    this.transaction.requireUpgrade();
+    const index = this.data.indexes.get(name);
+    if (!index) {
+      throw domError('NotFoundError', `Index "${name}" does not exist on object store "${this.data.name}".`);
+    }
+    this.transaction.touch(this.data);
+    this.data.indexes.delete(name);
+    index.deleted = true;
+  }
+
+  requireUsable(): void {
+    if (this.data.deleted) {
+      throw domError('InvalidStateError', 'The object store has been deleted.');
+    }
+  }
+
+  private readRange(query: unknown, required: boolean): RangeBounds {
+    this.requireUsable();
+    this.transaction.requireActive();
+    return toRange(query, required);
+  }
+
+  private write(value: unknown, key: unknown, noOverwrite: boolean): MemoryRequest {
+    this.requireUsable();
+    this.transaction.requireActive();
+    this.transaction.requireWritable();
+    const store = this.data;
+    if (store.keyPath !== null && key !== undefined) {
+      throw domError('DataError', 'The object store uses in-line keys and the key parameter was provided.');
+    }
+    if (store.keyPath === null && !store.autoIncrement && key === undefined) {
+      throw domError('DataError', 'The object store uses out-of-line keys and has no key generator, and the key parameter was not provided.');
+    }
+    let recordKey = key === undefined ? undefined : requireKey(key);
+    const clone = cloneValue(value);
+    if (store.keyPath !== null) {
+      const raw = extractKey(store.keyPath, clone);
+      if (raw !== undefined) {
+        recordKey = toKey(raw);
+        if (recordKey === undefined) {
+          throw domError('DataError', "Evaluating the object store's key path yielded a value that is not a valid key.");
+        }
+      } else if (!store.autoIncrement) {
+        throw domError('DataError', "Evaluating the object store's key path did not yield a value.");
+      } else if (!canInjectKey(clone, store.keyPath as string)) {
+        throw domError('DataError', 'A generated key could not be inserted into the value.');
+      }
+    }
+    return this.transaction.request(this, () => {
+      this.transaction.touch(store);
+      let finalKey = recordKey;
+      if (finalKey === undefined) {
+        if (store.generator > 2 ** 53) {
+          throw domError('ConstraintError', 'The key generator has reached its maximum value.');
+        }
+        finalKey = store.generator++;
+        if (store.keyPath !== null) {
+          injectKey(clone, store.keyPath as string, finalKey);
+        }
+      }
+      putRecord(store, finalKey, clone, noOverwrite);
+      return copyKey(finalKey);
+    });
+  }
+
+  private cursor(query: unknown, direction: IDBCursorDirection, withValue: boolean): MemoryRequest {
+    const range = this.readRange(query, false);
+    const cursor = new MemoryCursor(this, this.data, null, range, checkDirection(direction), withValue);
+    const request = this.transaction.request(this, () => cursor.move(1));
+    cursor.request = request;
+    return request;
+  }
+}
+
+class MemoryIndex {
+  constructor(readonly objectStore: MemoryObjectStore, readonly data: IndexData) {}
+
+  get name(): string {
+    return this.data.name;
+  }
+
+  set name(name: string) {
+    this.requireUsable();
+    this.objectStore.transaction.requireUpgrade();
+    if (name === this.data.name) {
+      return;
+    }
+    const store = this.objectStore.data;
+    if (store.indexes.has(name)) {
+      throw domError('ConstraintError', `An index named "${name}" already exists on object store "${store.name}".`);
+    }
+    this.objectStore.transaction.touch(store);
+    store.indexes.delete(this.data.name);
+    store.indexes.set(name, this.data);
+    this.data.name = name;
+  }
+
+  get keyPath(): KeyPath {
+    const keyPath = this.data.keyPath;
+    return Array.isArray(keyPath) ? [...keyPath] : keyPath;
+  }
+
+  get unique(): boolean {
+    return this.data.unique;
+  }
+
+  get multiEntry(): boolean {
+    return this.data.multiEntry;
+  }
+
+  get(query: unknown): MemoryRequest {
+    const range = this.readRange(query, true);
+    return this.request(() => {
+      const [entry] = inRange(this.data.entries, range);
+      return entry ? this.valueOf(entry) : undefined;
+    });
+  }
+
+  getKey(query: unknown): MemoryRequest {
+    const range = this.readRange(query, true);
+    return this.request(() => {
+      const [entry] = inRange(this.data.entries, range);
+      return entry ? copyKey(entry.primaryKey) : undefined;
+    });
+  }
+
+  getAll(query?: unknown, count?: number): MemoryRequest {
+    const range = this.readRange(query, false);
+    const limit = checkCount(count);
+    return this.request(() => inRange(this.data.entries, range).slice(0, limit).map((entry) => this.valueOf(entry)));
+  }
+
+  getAllKeys(query?: unknown, count?: number): MemoryRequest {
+    const range = this.readRange(query, false);
+    const limit = checkCount(count);
+    return this.request(() => inRange(this.data.entries, range).slice(0, limit).map((entry) => copyKey(entry.primaryKey)));
+  }
+
+  count(query?: unknown): MemoryRequest {
+    const range = this.readRange(query, false);
+    return this.request(() => inRange(this.data.entries, range).length);
+  }
+
+  openCursor(query?: unknown, direction: IDBCursorDirection = 'next'): MemoryRequest {
+    return this.cursor(query, direction, true);
+  }
+
+  openKeyCursor(query?: unknown, direction: IDBCursorDirection = 'next'): MemoryRequest {
+    return this.cursor(query, direction, false);
+  }
+
+  requireUsable(): void {
+    if (this.data.deleted) {
+      throw domError('InvalidStateError', 'The index has been deleted.');
+    }
+    this.objectStore.requireUsable();
+  }
+
+  valueOf(entry: Entry): unknown {
+    const store = this.objectStore.data;
+    return cloneValue(store.records[findRecord(store, entry.primaryKey)].value);
+  }
+
+  private readRange(query: unknown, required: boolean): RangeBounds {
+    this.requireUsable();
+    this.objectStore.transaction.requireActive();
+    return toRange(query, required);
+  }
+
+  private request(operation: () => unknown): MemoryRequest {
+    return this.objectStore.transaction.request(this, operation);
+  }
+
+  private cursor(query: unknown, direction: IDBCursorDirection, withValue: boolean): MemoryRequest {
+    const range = this.readRange(query, false);
+    const cursor = new MemoryCursor(this, this.objectStore.data, this.data, range, checkDirection(direction), withValue);
+    const request = this.request(() => cursor.move(1));
+    cursor.request = request;
+    return request;
+  }
+}
+
+// Cursors
+
+class MemoryCursor {
+  request!: MemoryRequest;
+  private position: Entry | null = null;
+  private current: { key: Key; primaryKey: Key; value: unknown } | null = null;
+  private gotValue = false;
+
+  constructor(
+    readonly source: MemoryObjectStore | MemoryIndex,
+    private readonly store: StoreData,
+    private readonly index: IndexData | null,
+    private readonly range: RangeBounds,
+    readonly direction: IDBCursorDirection,
+    private readonly withValue: boolean
+  ) {}
+
+  get key(): Key | undefined {
+    return this.current ? copyKey(this.current.key) : undefined;
+  }
+
+  get primaryKey(): Key | undefined {
+    return this.current ? copyKey(this.current.primaryKey) : undefined;
+  }
+
+  get value(): unknown {
+    return this.withValue ? this.current?.value : undefined;
+  }
+
+  continue(key?: unknown): void {
+    this.checkIteration();
+    let target: Key | undefined;
+    if (key !== undefined) {
+      target = requireKey(key);
+      const order = compareKeys(target, this.position!.key);
+      if (this.forward ? order <= 0 : order >= 0) {
+        throw domError('DataError', 'The key is not past the cursor position in its direction.');
+      }
+    }
+    this.advanceLater(() => this.move(1, target));
+  }
+
+  continuePrimaryKey(key: unknown, primaryKey: unknown): void {
+    this.checkIteration();
+    if (!this.index || this.direction === 'nextunique' || this.direction === 'prevunique') {
+      throw domError('InvalidAccessError', 'continuePrimaryKey() needs an index cursor with direction "next" or "prev".');
+    }
+    const target = requireKey(key);
+    const targetPrimaryKey = requireKey(primaryKey);
+    const order = compareEntry(this.position!, target, targetPrimaryKey);
+    if (this.forward ? order >= 0 : order <= 0) {
+      throw domError('DataError', 'The key is not past the cursor position in its direction.');
+    }
+    this.advanceLater(() => this.move(1, target, targetPrimaryKey));
+  }
+
+  advance(count: number): void {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new TypeError(`Invalid count ${count}: expected a positive integer.`);
+    }
+    this.checkIteration();
+    this.advanceLater(() => this.move(count));
+  }
+
+  update(value: unknown): MemoryRequest {
+    const transaction = this.checkWrite();
+    const clone = cloneValue(value);
+    if (this.store.keyPath !== null) {
+      const key = toKey(extractKey(this.store.keyPath, clone));
+      if (key === undefined || compareKeys(key, this.current!.primaryKey) !== 0) {
+        throw domError('DataError', "The value's key does not match the cursor's primary key.");
+      }
+    }
+    const primaryKey = this.current!.primaryKey;
+    return transaction.request(this, () => {
+      transaction.touch(this.store);
+      putRecord(this.store, primaryKey, clone, false);
+      return copyKey(primaryKey);
+    });
+  }
+
+  delete(): MemoryRequest {
+    const transaction = this.checkWrite();
+    const primaryKey = this.current!.primaryKey;
+    return transaction.request(this, () => {
+      transaction.touch(this.store);
+      const position = findRecord(this.store, primaryKey);
+      if (position !== -1) {
+        removeRecord(this.store, position);
+      }
+      return undefined;
+    });
+  }
+
+  /** Moves `count` records on, resuming at or after the target when given. Resolves the request with itself or null. */
+  move(count: number, targetKey?: Key, targetPrimaryKey?: Key): MemoryCursor | null {
+    for (let step = 0; step < count; step++) {
+      const entry = this.seek(step === 0 ? targetKey : undefined, step === 0 ? targetPrimaryKey : undefined);
+      if (!entry) {
+        this.position = null;
+        this.current = null;
+        return null;
+      }
+      this.position = entry;
+    }
+    const entry = this.position!;
+    this.current = {
+      key: entry.key,
+      primaryKey: entry.primaryKey,
+      value: this.withValue ? cloneValue(this.index ? this.store.records[findRecord(this.store, entry.primaryKey)].value : (entry as StoredRecord).value) : undefined
+    };
+    this.gotValue = true;
+    return this;
+  }
+
+  private get forward(): boolean {
+    return this.direction === 'next' || this.direction === 'nextunique';
+  }
+
+  private get unique(): boolean {
+    return this.direction === 'nextunique' || this.direction === 'prevunique';
+  }
+
+  /** The next entry after the current position that is in range and not before the target. */
+  private seek(targetKey?: Key, targetPrimaryKey?: Key): Entry | undefined {
+    const entries: Entry[] = this.index ? this.index.entries : this.store.records;
+    const position = this.position;
+    if (this.forward) {
+      const start = Math.max(
+        bisect(entries, (entry) => belowRange(this.range, entry.key)),
+        position ? bisect(entries, (entry) => (this.unique ? compareKeys(entry.key, position.key) : compareEntry(entry, position.key, position.primaryKey)) <= 0) : 0,
+        targetKey === undefined
+          ? 0
+          : bisect(entries, (entry) => (targetPrimaryKey === undefined ? compareKeys(entry.key, targetKey) : compareEntry(entry, targetKey, targetPrimaryKey)) < 0)
+      );
+      const entry = entries[start];
+      return entry && !aboveRange(this.range, entry.key) ? entry : undefined;
+    }
+
+    const end = Math.min(
+      bisect(entries, (entry) => !aboveRange(this.range, entry.key)),
+      position ? bisect(entries, (entry) => (this.unique ? compareKeys(entry.key, position.key) : compareEntry(entry, position.key, position.primaryKey)) < 0) : entries.length,
+      targetKey === undefined
+        ? entries.length
+        : bisect(entries, (entry) => (targetPrimaryKey === undefined ? compareKeys(entry.key, targetKey) : compareEntry(entry, targetKey, targetPrimaryKey)) <= 0)
+    );
+    let entry = entries[end - 1];
+    if (!entry || belowRange(this.range, entry.key)) {
+      return undefined;
+    }
+    if (this.unique) {
+      // prevunique visits each key once, at the record with the lowest primary key.
+      const key = entry.key;
+      entry = entries[bisect(entries, (candidate) => compareKeys(candidate.key, key) < 0)];
+    }
+    return entry;
+  }
+
+  private checkIteration(): void {
+    this.request.transaction!.requireActive();
+    if (this.index) {
+      (this.source as MemoryIndex).requireUsable();
+    } else {
+      (this.source as MemoryObjectStore).requireUsable();
+    }
+    if (!this.gotValue) {
+      throw domError('InvalidStateError', 'The cursor is being iterated or has iterated past its end.');
+    }
+  }
+
+  private checkWrite(): MemoryTransaction {
+    const transaction = this.request.transaction!;
+    transaction.requireActive();
+    transaction.requireWritable();
+    if (this.index) {
+      (this.source as MemoryIndex).requireUsable();
+    } else {
+      (this.source as MemoryObjectStore).requireUsable();
+    }
+    if (!this.gotValue || !this.withValue) {
+      throw domError('InvalidStateError', 'The cursor is not positioned on a record, or is a key cursor.');
+    }
+    return transaction;
+  }
+
+  private advanceLater(move: () => MemoryCursor | null): void {
+    this.gotValue = false;
+    this.request.transaction!.requeue(this.request, move);
+  }
+}
+
+// Connections
+
+class MemoryDatabase extends MemoryEventTarget {
+  onabort: Listener | null = null;
+  onclose: Listener | null = null;
+  onerror: Listener | null = null;
+  onversionchange: Listener | null = null;
+  closePending = false;
+  /** The running versionchange transaction of this connection. */
+  upgrade: MemoryTransaction | null = null;
+
+  constructor(private readonly data: DatabaseData, public version: number) {
+    super();
+  }
+
+  get name(): string {
+    return this.data.name;
+  }
+
+  get objectStoreNames(): DOMStringList {
+    return nameList(this.data.stores.keys());
+  }
+
+  createObjectStore(name: string, options?: { keyPath?: KeyPath | null; autoIncrement?: boolean }): MemoryObjectStore {
+    const transaction = this.requireUpgrade();
+    const keyPath = options?.keyPath ?? null;
+    const autoIncrement = options?.autoIncrement ?? false;
+    if (keyPath !== null && !isValidKeyPath(keyPath)) {
+      throw domError('SyntaxError', `Invalid key path ${JSON.stringify(keyPath)}.`);
+    }
+    if (this.data.stores.has(name)) {
+      throw domError('ConstraintError', `An object store named "${name}" already exists.`);
+    }
+    if (autoIncrement && (keyPath === '' || Array.isArray(keyPath))) {
+      throw domError('InvalidAccessError', 'A store with a key generator cannot have an empty or array key path.');
+    }
+    this.data.stores.set(name, new StoreData(name, Array.isArray(keyPath) ? [...keyPath] : keyPath, autoIncrement));
+    return transaction.objectStore(name);
+  }
+
+  deleteObjectStore(name: string): void {
+    const transaction = this.requireUpgrade();
+    const store = this.data.stores.get(name);
+    if (!store) {
+      throw domError('NotFoundError', `Object store "${name}" does not exist.`);
+    }
+    transaction.touch(store);
+    this.data.stores.delete(name);
+    store.deleted = true;
+  }
+
+  transaction(storeNames: string | string[], mode: IDBTransactionMode = 'readonly'): MemoryTransaction {
+    if (this.closePending) {
+      throw domError('InvalidStateError', 'The database connection is closing.');
+    }
+    if (this.upgrade) {
+      throw domError('InvalidStateError', 'A versionchange transaction is running.');
+    }
+    const names = Array.from(new Set(typeof storeNames === 'string' ? [storeNames] : storeNames));
+    const missing = names.find((name) => !this.data.stores.has(name));
+    if (missing !== undefined) {
+      throw domError('NotFoundError', `Object store "${missing}" does not exist.`);
+    }
+    if (names.length === 0) {
+      throw domError('InvalidAccessError', 'The transaction needs at least one object store.');
+    }
+    if (mode !== 'readonly' && mode !== 'readwrite') {
+      throw new TypeError(`Invalid transaction mode "${String(mode)}".`);
+    }
+    return new MemoryTransaction(this, names, mode, this.data);
+  }
+
+  close(): void {
+    if (this.closePending) {
+      return;
+    }
+    this.closePending = true;
+    this.data.connections.delete(this);
+    this.data.checkWaiters();
+  }
+
+  private requireUpgrade(): MemoryTransaction {
+    if (!this.upgrade) {
+      throw domError('InvalidStateError', 'The schema can only be changed during an upgrade.');
+    }
+    this.upgrade.requireActive();
+    return this.upgrade;
+  }
+}
+
+/** An IDBFactory whose databases live in memory for as long as the factory does. */
+export class MemoryFactory {
+  private registry = new Map<string, DatabaseData>();
+
+  open(name: string, version?: number): MemoryOpenRequest {
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      throw new TypeError(`Invalid version ${String(version)}: expected a positive integer.`);
+    }
+    const request = new MemoryOpenRequest();
+    const data = this.database(String(name));
+    data.enqueueOpen((done) => runLater(() => this.runOpen(data, request, version, done)));
+    return request;
+  }
+
+  deleteDatabase(name: string): MemoryOpenRequest {
+    const request = new MemoryOpenRequest();
+    const data = this.database(String(name));
+    data.enqueueOpen((done) => runLater(() => {
+      const oldVersion = data.version;
+      const finish = () => {
+        for (const store of data.stores.values()) {
+          store.deleted = true;
+        }
+        data.stores = new Map();
+        data.version = 0;
+        request.settle(undefined, null);
+        request.dispatch(new MemoryVersionChangeEvent('success', oldVersion, null));
+        done();
+      };
+      if (oldVersion === 0) {
+        finish();
+      } else {
+        this.waitForConnections(data, request, oldVersion, null, finish);
+      }
+    }));
+    return request;
+  }
+
+  cmp(first: unknown, second: unknown): number {
+    return compareKeys(requireKey(first), requireKey(second));
+  }
+
+  databases(): Promise<IDBDatabaseInfo[]> {
+    return Promise.resolve(
+      Array.from(this.registry.values())
+        .filter((data) => data.version > 0)
+        .map((data) => ({ name: data.name, version: data.version }))
+    );
+  }
+
+  private database(name: string): DatabaseData {
+    let data = this.registry.get(name);
+    if (!data) {
+      data = new DatabaseData(name);
+      this.registry.set(name, data);
+    }
+    return data;
+  }
+
+  private runOpen(data: DatabaseData, request: MemoryOpenRequest, requested: number | undefined, done: () => void): void {
+    const version = requested ?? (data.version || 1);
+    if (version < data.version) {
+      request.settle(undefined, domError('VersionError', `The requested version (${version}) is less than the existing version (${data.version}).`));
+      request.dispatch(new MemoryEvent('error', true, true));
+      done();
+      return;
+    }
+    if (version === data.version) {
+      const connection = new MemoryDatabase(data, version);
+      data.connections.add(connection);
+      request.settle(connection, null);
+      request.dispatch(new MemoryEvent('success'));
+      done();
+      return;
+    }
+
+    const oldVersion = data.version;
+    this.waitForConnections(data, request, oldVersion, version, () => {
+      const connection = new MemoryDatabase(data, version);
+      data.connections.add(connection);
+      const transaction = new MemoryTransaction(connection, [], 'versionchange', data, { version: oldVersion, stores: new Map(data.stores) });
+      data.version = version;
+      connection.upgrade = transaction;
+      request.transaction = transaction;
+      request.settle(connection, null);
+      transaction.onFinish = (committed) => {
+        connection.upgrade = null;
+        request.transaction = null;
+        if (committed) {
+          request.dispatch(new MemoryEvent('success'));
+        } else {
+          connection.version = oldVersion;
+          connection.close();
+          request.settle(undefined, domError('AbortError', 'The upgrade transaction was aborted.'));
+          request.dispatch(new MemoryEvent('error', true, true));
+        }
+        done();
+      };
+      const thrown = request.dispatch(new MemoryVersionChangeEvent('upgradeneeded', oldVersion, version), true);
+      if (thrown && !transaction.isFinished) {
+        transaction.abortWith(listenerFailure('upgradeneeded', thrown.error));
+      }
+    });
+  }
+
+  /** Asks the other connections to close, reports `blocked` while any stay open, then runs `proceed`. */
+  private waitForConnections(data: DatabaseData, request: MemoryOpenRequest, oldVersion: number, newVersion: number | null, proceed: () => void): void {
+    for (const connection of Array.from(data.connections)) {
+      if (!connection.closePending) {
+        connection.dispatch(new MemoryVersionChangeEvent('versionchange', oldVersion, newVersion));
+      }
+    }
+    if (data.connections.size > 0) {
+      request.dispatch(new MemoryVersionChangeEvent('blocked', oldVersion, newVersion));
+    }
+    data.whenIdle(proceed);
+  }
+}
@@ -0,0 +1,35 @@
+import { SimpleIDBError, VersionError } from './errors';
+
+export type Migration<C> = (context: C) => void | Promise<void>;
+
+export type Migrations<C> = Record<number, Migration<C>>;
+
+export interface MigrationStep<C> {
+  version: number;
+  migrate: Migration<C>;
+}
+
+/**
+ * Picks the migrations needed to go from `oldVersion` to `newVersion`, in version order. Throws if any
+ * version in between has no migration, so a database is never left half-upgraded.
+ */
+export function planMigrations<C>(migrations: Migrations<C>, oldVersion: number, newVersion: number): MigrationStep<C>[] {
+  for (const key of Object.keys(migrations)) {
+    const version = Number(key);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new SimpleIDBError(`Invalid migration version "${key}": versions must be positive integers.`);
+    }
+  }
+
+  const steps: MigrationStep<C>[] = [];
+  for (let version = oldVersion + 1; version <= newVersion; version++) {
+    const migrate = migrations[version];
+    if (typeof migrate !== 'function') {
+      throw new VersionError(`Missing migration for version ${version} (upgrading from version ${oldVersion} to ${newVersion}).`, {
+        operation: 'open'
+      });
+    }
+    steps.push({ version, migrate });
+  }
+  return steps;
+}
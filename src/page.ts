@@ -0,0 +1,83 @@
+import { StorageDriver } from './driver';
+import { decodeValue, encodeValues } from './dump';
+import { DataError } from './errors';
+import { KeyQuery } from './keyRange';
+
+export interface PageOptions<I extends string = string> {
+  index?: I;
+  range?: KeyQuery;
+  /** Records per page (default: 50). */
+  pageSize?: number;
+  direction?: IDBCursorDirection;
+  /** The `nextToken` of the previous page. Omit it to read the first page. */
+  after?: string | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Pass as `after` to read the next page; null on the last page. */
+  nextToken: string | null;
+}
+
+export interface PagePosition {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+}
+
+interface TokenPayload {
+  index: string | null;
+  direction: IDBCursorDirection;
+  key: unknown;
+  primaryKey: unknown;
+}
+
+function toBase64Url(text: string): string {
+  // encodeURIComponent() first, since btoa() only takes Latin-1 and keys may be any string.
+  return btoa(encodeURIComponent(text)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(token: string): string {
+  return decodeURIComponent(atob(token.replace(/-/g, '+').replace(/_/g, '/')));
+}
+
+/**
+ * Encodes where a page ended. The token holds the last index key and primary key, so the next page resumes
+ * right after that record even when records were added or removed in between.
+ */
+export async function encodePageToken(index: string | undefined, direction: IDBCursorDirection, position: PagePosition): Promise<string> {
+  const [key, primaryKey] = await encodeValues([position.key, position.primaryKey]);
+  const payload: TokenPayload = { index: index ?? null, direction, key, primaryKey };
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/** Decodes a token from encodePageToken(), checking that it belongs to the same index and direction. */
+export function decodePageToken(
+  token: string,
+  index: string | undefined,
+  direction: IDBCursorDirection,
+  storeName: string,
+  driver: StorageDriver
+): PagePosition {
+  const details = { operation: 'page', storeName };
+  let payload: TokenPayload;
+  let position: PagePosition;
+  try {
+    payload = JSON.parse(fromBase64Url(token)) as TokenPayload;
+    position = {
+      key: decodeValue(payload.key, 'key') as IDBValidKey,
+      primaryKey: decodeValue(payload.primaryKey, 'primaryKey') as IDBValidKey
+    };
+    // cmp() throws unless both are valid keys.
+    driver.indexedDB.cmp(position.key, position.primaryKey);
+  } catch (error) {
+    throw new DataError('Invalid page token.', { ...details, cause: error });
+  }
+  if (payload.index !== (index ?? null) || payload.direction !== direction) {
+    const describe = (name: string | null, dir: string) => `${name === null ? 'the store' : `index "${name}"`} in direction "${dir}"`;
+    throw new DataError(
+      `Page token was created for ${describe(payload.index, payload.direction)}, not ${describe(index ?? null, direction)}.`,
+      details
+    );
+  }
+  return position;
+}
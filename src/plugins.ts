@@ -0,0 +1,154 @@
+export type PluginOperation =
+  | 'add'
+  | 'put'
+  | 'get'
+  | 'delete'
+  | 'clear'
+  | 'getAll'
+  | 'getAllKeys'
+  | 'count'
+  | 'deleteRange'
+  | 'update'
+  | 'patch'
+  | 'addMany'
+  | 'putMany'
+  | 'deleteMany'
+  | 'getByIndex'
+  | 'getAllByIndex'
+  | 'getKeyByIndex'
+  | 'countByIndex'
+  | 'search'
+  | 'page'
+  | 'purgeExpired'
+  | 'reencodeStore'
+  | 'importDatabase'
+  | 'transaction'
+  | 'query'
+  | 'queryFirst'
+  | 'queryKeys'
+  | 'queryCount'
+  | 'queryDelete';
+
+/** One call as plugin hooks see it. Hooks may change the arguments before the operation runs. */
+export interface OperationContext {
+  readonly operation: PluginOperation;
+  /** The store of the call. Unset for transaction() and importDatabase(), which span several stores. */
+  storeName?: string;
+  /** The stores of transaction(). */
+  storeNames?: string[];
+  /** The index of index reads, or the search index of search(). */
+  index?: string;
+  /** The key of the call, its key range or index query, or the array of keys of deleteMany(). */
+  key?: unknown;
+  /**
+   * The record of add() and put(), the records of addMany() and putMany(), the partial of patch(), the
+   * updater of update(), the text of search(), the callback of transaction(), or the dump of importDatabase().
+   */
+  value?: unknown;
+  /** The options of the call, the count of getAllByIndex(), or the mode of transaction(). */
+  options?: unknown;
+  /** Shared by the hooks of one call, e.g. to pass a start time from before() to after(). */
+  readonly state: Record<string, unknown>;
+}
+
+/** Returned by a hook to supply the result of the call. */
+export interface PluginResult {
+  result: unknown;
+}
+
+export interface Plugin<C> {
+  /** Identifies the plugin; the names of the plugins of a database must differ. */
+  name: string;
+  /**
+   * Runs before the operation, in the order the plugins were added. Returning `{ result }` skips the
+   * operation and the before() hooks of later plugins, and resolves the call with `result`.
+   */
+  before?(context: OperationContext): void | PluginResult | Promise<void | PluginResult>;
+  /** Runs after the operation, in reverse order. Returning `{ result }` replaces the result. */
+  after?(context: OperationContext, result: unknown): void | PluginResult | Promise<void | PluginResult>;
+  /** Called, in reverse order, when the operation or a hook failed. The call still rejects with `error`. */
+  onError?(context: OperationContext, error: unknown): void | Promise<void>;
+  /** Makes schema changes during every upgrade run by open(), after the migrations and before the upgrade callback. */
+  upgrade?(context: C): void;
+}
+
+type ArgumentName = 'storeName' | 'storeNames' | 'index' | 'key' | 'value' | 'options';
+
+/** Which context field each argument of an operation fills, in argument order. */
+const ARGUMENTS: Record<PluginOperation, ArgumentName[]> = {
+  add: ['storeName', 'value', 'options'],
+  put: ['storeName', 'value', 'options'],
+  get: ['storeName', 'key'],
+  delete: ['storeName', 'key'],
+  clear: ['storeName'],
+  getAll: ['storeName', 'options'],
+  getAllKeys: ['storeName', 'options'],
+  count: ['storeName', 'key'],
+  deleteRange: ['storeName', 'key', 'options'],
+  update: ['storeName', 'key', 'value', 'options'],
+  patch: ['storeName', 'key', 'value', 'options'],
+  addMany: ['storeName', 'value', 'options'],
+  putMany: ['storeName', 'value', 'options'],
+  deleteMany: ['storeName', 'key', 'options'],
+  getByIndex: ['storeName', 'index', 'key'],
+  getAllByIndex: ['storeName', 'index', 'key', 'options'],
+  getKeyByIndex: ['storeName', 'index', 'key'],
+  countByIndex: ['storeName', 'index', 'key'],
+  search: ['storeName', 'index', 'value', 'options'],
+  page: ['storeName', 'options'],
+  purgeExpired: ['storeName'],
+  reencodeStore: ['storeName', 'options'],
+  importDatabase: ['value', 'options'],
+  transaction: ['storeNames', 'options', 'value'],
+  // Queries are built up by chained calls, so hooks only see their store.
+  query: ['storeName'],
+  queryFirst: ['storeName'],
+  queryKeys: ['storeName'],
+  queryCount: ['storeName'],
+  queryDelete: ['storeName']
+};
+
+/**
+ * Runs `run` inside the hooks of `plugins`, with the arguments as the before() hooks left them. Only the
+ * plugins whose before() ran get their after() and onError() called.
+ */
+export async function runWithPlugins<A extends unknown[], R>(
+  plugins: ReadonlyArray<Plugin<unknown>>,
+  operation: PluginOperation,
+  args: A,
+  run: (...args: A) => Promise<R>
+): Promise<R> {
+  if (plugins.length === 0) {
+    return run(...args);
+  }
+  const names = ARGUMENTS[operation];
+  const context = { operation, state: {} } as OperationContext;
+  const fields = context as Record<ArgumentName, unknown>;
+  names.forEach((name, i) => {
+    fields[name] = args[i];
+  });
+  const entered: Array<Plugin<unknown>> = [];
+  try {
+    let outcome: PluginResult | void = undefined;
+    for (const plugin of plugins) {
+      entered.push(plugin);
+      outcome = await plugin.before?.(context);
+      if (outcome) {
+        break;
+      }
+    }
+    let result: unknown = outcome ? outcome.result : await run(...(names.map((name) => fields[name]) as A));
+    for (const plugin of [...entered].reverse()) {
+      const replaced = await plugin.after?.(context, result);
+      if (replaced) {
+        result = replaced.result;
+      }
+    }
+    return result as R;
+  } catch (error) {
+    for (const plugin of [...entered].reverse()) {
+      await plugin.onError?.(context, error);
+    }
+    throw error;
+  }
+}
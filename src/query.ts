@@ -0,0 +1,429 @@
+import { ChangeRecord, recordChange } from './changes';
+import { StoredField } from './codec';
+import { walkCursor } from './cursor';
+import { StorageDriver } from './driver';
+import { SimpleIDBError, toSimpleIDBError } from './errors';
+import { KeyPath, extractKey } from './keyPath';
+import { KeyRangeDescriptor, toKeyRange } from './keyRange';
+import { PluginOperation } from './plugins';
+import { isExpired, ttlIndex } from './ttl';
+
+/** What a Query needs from the database it reads; supplied by `SimpleIDB.query()`. */
+export interface QuerySource {
+  storeName: string;
+  objectStore(mode: IDBTransactionMode, operation: string): IDBObjectStore;
+  driver(): StorageDriver;
+  publish(changes: ChangeRecord[]): void;
+  /** Waits until the database is open; see `SimpleIDB.ready`. */
+  ready(): Promise<void>;
+  /** Whether the store has a codec or serialize hooks, so its records are stored encoded. */
+  encoded: boolean;
+  /** Decodes records read from a store with a codec. */
+  decode(values: unknown[], operation: string): Promise<unknown[]>;
+  /** How the store's codec keeps the field at `keyPath`, the least readable part for a compound one. */
+  storedAs(keyPath: KeyPath, operation: string): StoredField;
+  /** Maps a key on a field the codec keeps as `'key'` to its stored form. */
+  encodeKey(keyPath: KeyPath, key: IDBValidKey, operation: string): Promise<IDBValidKey>;
+  /** Runs a call that reads or deletes records inside the database's plugin hooks. */
+  intercept<R>(operation: PluginOperation, run: () => Promise<R>): Promise<R>;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+/** How a query reads its records, as returned by `explain()`. */
+export interface QueryPlan {
+  storeName: string;
+  /**
+   * `'index'` walks an index over the range of a where() condition or in orderBy() order, `'primaryKey'`
+   * walks the store over a range of its primary key, and `'scan'` reads every record of the store.
+   */
+  strategy: 'index' | 'primaryKey' | 'scan';
+  /** The index the cursor walks; null unless `strategy` is `'index'`. */
+  index: string | null;
+  /** The key range the cursor is restricted to; null when it visits the whole index or store. */
+  range: KeyRangeDescriptor | null;
+  direction: 'next' | 'prev';
+  /** Conditions checked on every record the cursor visits, in order: where() conditions, then filter() callbacks. */
+  filters: string[];
+  /** True when no index gives the orderBy() order, so every match is read and sorted before offset() and limit(). */
+  sortInMemory: boolean;
+}
+
+interface Condition {
+  keyPath: KeyPath;
+  range: KeyRangeDescriptor;
+}
+
+/** Key paths compare by value, since compound ones are arrays. */
+function sameKeyPath(a: KeyPath | null, b: KeyPath): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function describeKeyPath(keyPath: KeyPath): string {
+  return JSON.stringify(keyPath);
+}
+
+function describeRange(range: KeyRangeDescriptor): string {
+  switch (range.type) {
+    case 'only':
+      return `equals ${JSON.stringify(range.value)}`;
+    case 'above':
+      return `${range.open ? '>' : '>='} ${JSON.stringify(range.lower)}`;
+    case 'below':
+      return `${range.open ? '<' : '<='} ${JSON.stringify(range.upper)}`;
+    case 'between':
+      return `between ${JSON.stringify(range.lower)} and ${JSON.stringify(range.upper)}`;
+    case 'prefix':
+      return `starts with ${JSON.stringify(range.prefix)}`;
+  }
+}
+
+/** The range methods available after `query.where(field)`. Each one adds the condition and returns the query. */
+export class WhereClause<T, K extends IDBValidKey> {
+  constructor(private readonly query: Query<T, K>, private readonly keyPath: KeyPath, private readonly add: (condition: Condition) => void) {}
+
+  equals(value: IDBValidKey): Query<T, K> {
+    return this.to({ type: 'only', value });
+  }
+
+  above(lower: IDBValidKey): Query<T, K> {
+    return this.to({ type: 'above', lower, open: true });
+  }
+
+  aboveOrEqual(lower: IDBValidKey): Query<T, K> {
+    return this.to({ type: 'above', lower });
+  }
+
+  below(upper: IDBValidKey): Query<T, K> {
+    return this.to({ type: 'below', upper, open: true });
+  }
+
+  belowOrEqual(upper: IDBValidKey): Query<T, K> {
+    return this.to({ type: 'below', upper });
+  }
+
+  /** Both bounds are included unless `lowerOpen` or `upperOpen` is set. */
+  between(lower: IDBValidKey, upper: IDBValidKey, options?: { lowerOpen?: boolean; upperOpen?: boolean }): Query<T, K> {
+    return this.to({ type: 'between', lower, upper, ...options });
+  }
+
+  startsWith(prefix: string): Query<T, K> {
+    return this.to({ type: 'prefix', prefix });
+  }
+
+  private to(range: KeyRangeDescriptor): Query<T, K> {
+    this.add({ keyPath: this.keyPath, range });
+    return this.query;
+  }
+}
+
+/**
+ * A query over one object store, built with where(), filter(), orderBy(), offset() and limit() and run by
+ * toArray(), first(), count(), keys() or delete(). The query walks an index when one matches a where()
+ * condition or the orderBy() field, and scans the store otherwise; explain() shows which.
+ */
+export class Query<T, K extends IDBValidKey = IDBValidKey> {
+  private conditions: Condition[] = [];
+  private filters: Array<(value: T) => boolean> = [];
+  private order: { keyPath: KeyPath; direction: SortDirection } | null = null;
+  private skip = 0;
+  private max = Infinity;
+
+  constructor(private readonly source: QuerySource) {}
+
+  /** Starts a condition on a field: a property name, a dotted path, or an array of those for a compound index. */
+  where(keyPath: KeyPath): WhereClause<T, K> {
+    return new WhereClause(this, keyPath, (condition) => this.conditions.push(condition));
+  }
+
+  /** Keeps only the records `predicate` accepts. Runs on every record the cursor visits, so prefer where() where an index exists. */
+  filter(predicate: (value: T) => boolean): this {
+    if (this.source.encoded) {
+      throw new SimpleIDBError(
+        `Cannot filter() records of object store "${this.source.storeName}", since the store has a codec or serialize hooks and its records are only decoded after the query. Filter the results of toArray() instead.`,
+        { operation: 'query', storeName: this.source.storeName }
+      );
+    }
+    this.filters.push(predicate);
+    return this;
+  }
+
+  /** Sorts by a field. Like an index, this leaves out records without a valid key at the field. */
+  orderBy(keyPath: KeyPath, direction: SortDirection = 'asc'): this {
+    this.order = { keyPath, direction };
+    return this;
+  }
+
+  offset(count: number): this {
+    this.skip = this.validateCount('offset', count);
+    return this;
+  }
+
+  limit(count: number): this {
+    this.max = this.validateCount('limit', count);
+    return this;
+  }
+
+  async toArray(): Promise<T[]> {
+    return this.source.intercept('query', async () => {
+      const matches = await this.run(await this.storedConditions('query'), 'readonly', 'query');
+      return this.source.decode(matches.map((match) => match.value), 'query') as Promise<T[]>;
+    });
+  }
+
+  async first(): Promise<T | undefined> {
+    return this.source.intercept('queryFirst', async () => {
+      const matches = await this.run(await this.storedConditions('first'), 'readonly', 'first', Math.min(this.max, 1));
+      const [value] = await this.source.decode(matches.map((match) => match.value), 'first');
+      return value as T | undefined;
+    });
+  }
+
+  /** Primary keys of the matching records, in query order. */
+  async keys(): Promise<K[]> {
+    return this.source.intercept('queryKeys', async () => {
+      const matches = await this.run(await this.storedConditions('query'), 'readonly', 'query');
+      return matches.map((match) => match.primaryKey as K);
+    });
+  }
+
+  async count(): Promise<number> {
+    return this.source.intercept('queryCount', async () => {
+      const conditions = await this.storedConditions('count');
+      const counted = await this.countByRange(conditions);
+      if (counted !== null) {
+        return counted;
+      }
+      const matches = await this.run(conditions, 'readonly', 'count');
+      return matches.length;
+    });
+  }
+
+  /** Deletes the matching records in one transaction and resolves with how many were deleted. */
+  async delete(): Promise<number> {
+    return this.source.intercept('queryDelete', async () => {
+      const matches = await this.run(await this.storedConditions('delete'), 'readwrite', 'delete');
+      return matches.length;
+    });
+  }
+
+  async explain(): Promise<QueryPlan> {
+    const conditions = await this.storedConditions('explain');
+    return new Promise((resolve, reject) => {
+      try {
+        resolve(this.plan(this.source.objectStore('readonly', 'explain'), conditions).plan);
+      } catch (error) {
+        reject(toSimpleIDBError(error, 'Failed to explain query', { operation: 'explain', storeName: this.source.storeName }));
+      }
+    });
+  }
+
+  /**
+   * Counts through IDBIndex.count() or IDBObjectStore.count() when the cursor range alone decides the result.
+   * Resolves with null when records have to be visited: with filters, offset or limit, or in a store with a TTL.
+   */
+  private countByRange(conditions: Condition[]): Promise<number | null> {
+    const { storeName } = this.source;
+    return new Promise((resolve, reject) => {
+      const store = this.source.objectStore('readonly', 'count');
+      const { plan, cursorable, rangeCondition } = this.plan(store, conditions);
+      if (plan.filters.length > 0 || this.skip > 0 || this.max !== Infinity || ttlIndex(store) !== null) {
+        resolve(null);
+        return;
+      }
+      const request = (cursorable as IDBObjectStore | IDBIndex).count(rangeCondition ? toKeyRange(rangeCondition.range, this.source.driver()) : undefined);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(toSimpleIDBError(request.error, `Failed to run query on object store "${storeName}"`, { operation: 'count', storeName }));
+    });
+  }
+
+  /**
+   * Waits for the database, then returns the where() conditions with their keys as a store with a codec
+   * holds them: encoded through the codec on `'key'` fields. Rejects conditions and an orderBy() on fields
+   * the codec does not keep readable.
+   */
+  private async storedConditions(operation: string): Promise<Condition[]> {
+    await this.source.ready();
+    if (!this.source.encoded) {
+      return this.conditions;
+    }
+    const { storeName } = this.source;
+    const unreadable = (method: string, keyPath: KeyPath) =>
+      new SimpleIDBError(
+        `Cannot use ${method}(${describeKeyPath(keyPath)}) on object store "${storeName}", since the store's codec does not keep that field readable and its records are only decoded after the query. Filter the results of toArray() instead.`,
+        { operation, storeName }
+      );
+    if (this.order && this.source.storedAs(this.order.keyPath, operation) === 'encoded') {
+      throw unreadable('orderBy', this.order.keyPath);
+    }
+    return Promise.all(
+      this.conditions.map(async (condition): Promise<Condition> => {
+        const stored = this.source.storedAs(condition.keyPath, operation);
+        if (stored === 'plain') {
+          return condition;
+        }
+        if (stored === 'encoded') {
+          throw unreadable('where', condition.keyPath);
+        }
+        if (condition.range.type !== 'only') {
+          throw new SimpleIDBError(
+            `Cannot match where(${describeKeyPath(condition.keyPath)}) ${describeRange(condition.range)} on object store "${storeName}", since the store's codec only keeps an encoded key of that field. Use equals() instead.`,
+            { operation, storeName }
+          );
+        }
+        return { keyPath: condition.keyPath, range: { type: 'only', value: await this.source.encodeKey(condition.keyPath, condition.range.value, operation) } };
+      })
+    );
+  }
+
+  private validateCount(name: string, count: number): number {
+    if (!(Number.isInteger(count) && count >= 0) && count !== Infinity) {
+      throw new SimpleIDBError(`Invalid ${name} ${count}: expected a non-negative integer.`, { operation: 'query', storeName: this.source.storeName });
+    }
+    return count;
+  }
+
+  /** Picks the cursor source: an index or primary key matching orderBy(), else one matching a where() condition, else a scan. */
+  private plan(store: IDBObjectStore, conditions: Condition[]): { plan: QueryPlan; cursorable: IDBObjectStore | IDBIndex; rangeCondition: Condition | null } {
+    const sources = Array.from(store.indexNames)
+      .map((name) => store.index(name))
+      .filter((index) => !index.multiEntry)
+      .map((index): { name: string | null; keyPath: KeyPath } => ({ name: index.name, keyPath: index.keyPath }));
+    if (store.keyPath !== null) {
+      // The store itself comes first, so a primary key condition is preferred over an index on the same path.
+      sources.unshift({ name: null, keyPath: store.keyPath });
+    }
+    const find = (keyPath: KeyPath) => sources.find((candidate) => sameKeyPath(candidate.keyPath, keyPath));
+
+    let chosen: { name: string | null; keyPath: KeyPath } | undefined;
+    let rangeCondition: Condition | null = null;
+    const ordered = this.order && find(this.order.keyPath);
+    if (this.order && ordered) {
+      chosen = ordered;
+      rangeCondition = conditions.find((condition) => sameKeyPath(condition.keyPath, this.order!.keyPath)) ?? null;
+    } else {
+      for (const condition of conditions) {
+        chosen = find(condition.keyPath);
+        if (chosen) {
+          rangeCondition = condition;
+          break;
+        }
+      }
+    }
+
+    const sortInMemory = this.order !== null && !ordered;
+    const filters = [
+      ...conditions
+        .filter((condition) => condition !== rangeCondition)
+        .map((condition) => `where(${describeKeyPath(condition.keyPath)}) ${describeRange(condition.range)}`),
+      ...this.filters.map((_filter, i) => `filter #${i + 1}`)
+    ];
+    if (sortInMemory) {
+      // The memory sort leaves out records without a key at the orderBy() field, as an index would.
+      filters.push(`has key at ${describeKeyPath(this.order!.keyPath)}`);
+    }
+    const plan: QueryPlan = {
+      storeName: store.name,
+      strategy: chosen?.name ? 'index' : rangeCondition ? 'primaryKey' : 'scan',
+      index: chosen?.name ?? null,
+      range: rangeCondition?.range ?? null,
+      direction: this.order?.direction === 'desc' && !sortInMemory ? 'prev' : 'next',
+      filters,
+      sortInMemory
+    };
+    return { plan, cursorable: chosen?.name ? store.index(chosen.name) : store, rangeCondition };
+  }
+
+  private run(conditions: Condition[], mode: IDBTransactionMode, operation: string, limit = this.max): Promise<Array<{ primaryKey: IDBValidKey; value: T }>> {
+    const { storeName } = this.source;
+    return new Promise((resolve, reject) => {
+      const store = this.source.objectStore(mode, operation);
+      const driver = this.source.driver();
+      const { plan, cursorable, rangeCondition } = this.plan(store, conditions);
+      const failed = (error: unknown) => toSimpleIDBError(error, `Failed to run query on object store "${storeName}"`, { operation, storeName });
+      const expiring = ttlIndex(store) !== null;
+      let failure: unknown = null;
+      let matches: Array<{ primaryKey: IDBValidKey; value: T; sortKey?: IDBValidKey }> = [];
+
+      const fail = (error: unknown) => {
+        failure = failure ?? error;
+        try {
+          store.transaction.abort();
+        } catch {
+          // Already finished; the error is reported either way.
+        }
+      };
+      store.transaction.addEventListener('abort', () => reject(failed(failure ?? store.transaction.error)));
+      store.transaction.addEventListener('complete', () => {
+        if (mode === 'readwrite' && matches.length > 0) {
+          this.source.publish([recordChange(store, 'delete', matches.map((match) => match.primaryKey))]);
+        }
+      });
+
+      const otherConditions = conditions
+        .filter((condition) => condition !== rangeCondition)
+        .map((condition) => ({ keyPath: condition.keyPath, range: toKeyRange(condition.range, driver) as IDBKeyRange }));
+      const keyAt = (keyPath: KeyPath, value: unknown): IDBValidKey | undefined => {
+        const key = extractKey(keyPath, value);
+        if (key === undefined) {
+          return undefined;
+        }
+        try {
+          // cmp() rejects anything that is not a valid key.
+          driver.indexedDB.cmp(key, key);
+          return key;
+        } catch {
+          return undefined;
+        }
+      };
+      const accept = (cursor: IDBCursorWithValue): boolean => {
+        if (failure !== null) {
+          return false;
+        }
+        const value = cursor.value as T;
+        try {
+          return !(expiring && isExpired(value)) &&
+            otherConditions.every(({ keyPath, range }) => {
+              const key = keyAt(keyPath, value);
+              return key !== undefined && range.includes(key);
+            }) &&
+            (!plan.sortInMemory || keyAt(this.order!.keyPath, value) !== undefined) &&
+            this.filters.every((predicate) => predicate(value));
+        } catch (error) {
+          fail(error);
+          return false;
+        }
+      };
+
+      const request = cursorable.openCursor(rangeCondition ? toKeyRange(rangeCondition.range, driver) : undefined, plan.direction);
+      request.onerror = () => fail(request.error);
+      const cursorOptions = plan.sortInMemory ? undefined : { offset: this.skip, limit };
+      walkCursor(request, cursorOptions, (cursor) => {
+        const match = { primaryKey: cursor.primaryKey, value: cursor.value as T, sortKey: undefined as IDBValidKey | undefined };
+        if (plan.sortInMemory) {
+          match.sortKey = keyAt(this.order!.keyPath, match.value);
+        } else if (mode === 'readwrite') {
+          cursor.delete();
+        }
+        matches.push(match);
+      }, () => {
+        if (failure !== null) {
+          return;
+        }
+        if (plan.sortInMemory) {
+          const sign = this.order!.direction === 'desc' ? -1 : 1;
+          matches = matches.sort((a, b) => driver.indexedDB.cmp(a.sortKey!, b.sortKey!) * sign).slice(this.skip, this.skip + limit);
+          if (mode === 'readwrite') {
+            matches.forEach((match) => store.delete(match.primaryKey));
+          }
+        }
+        if (mode === 'readonly') {
+          resolve(matches);
+        } else {
+          // Deletes resolve once they are committed.
+          store.transaction.addEventListener('complete', () => resolve(matches));
+        }
+      }, accept);
+    });
+  }
+}
@@ -0,0 +1,7 @@
+import { withSearchTokens } from './search';
+import { withExpiry } from './ttl';
+
+/** Adds the hidden properties a store keeps on its records before a write: the expiry time and search tokens. */
+export function prepareRecord<T>(store: IDBObjectStore, value: T, operation: string, ttl?: number): T {
+  return withSearchTokens(store, withExpiry(store, value, operation, ttl), operation);
+}
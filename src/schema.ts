@@ -0,0 +1,79 @@
+import { KeyRangeDescriptor } from './keyRange';
+
+/**
+ * Describes one object store of a typed database:
+ *
+ * ```ts
+ * interface AppSchema {
+ *   users: { value: User; key: number; indexes: { email: string; age: number } };
+ *   members: { value: Member; keyPath: ['teamId', 'userId'] };
+ * }
+ * const db = new SimpleIDB<AppSchema>();
+ * ```
+ */
+export interface StoreSchema {
+  value: unknown;
+  /** Primary key type. Can be left out when `keyPath` is given; it is then read from `value`. */
+  key?: IDBValidKey;
+  /** The store's key path, e.g. `['tenantId', 'id']`, typing keys as `[Value['tenantId'], Value['id']]`. */
+  keyPath?: string | readonly string[];
+  indexes?: Record<string, IDBValidKey>;
+}
+
+type PathValue<V, P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? Head extends keyof V
+    ? PathValue<V[Head], Rest>
+    : never
+  : P extends keyof V
+    ? V[P]
+    : never;
+
+/**
+ * The key found at a key path of `V`: `KeyPathValue<User, 'address.city'>` is a string and
+ * `KeyPathValue<User, ['lastName', 'firstName']>` is `[string, string]`. Useful to declare compound index keys.
+ */
+export type KeyPathValue<V, P extends string | readonly string[]> = P extends string
+  ? PathValue<V, P>
+  : { -readonly [I in keyof P]: P[I] extends string ? PathValue<V, P[I]> : never };
+
+export type DBSchema<S = any> = { [N in keyof S]: StoreSchema };
+
+/** Schema used when `SimpleIDB` is not given one: any store name, any key, values typed by the caller. */
+export interface UntypedSchema {
+  [storeName: string]: { value: unknown; key: IDBValidKey; indexes: Record<string, IDBValidKey> };
+}
+
+export type StoreName<S> = Extract<keyof S, string>;
+
+export type StoreValue<S, N extends StoreName<S>> = S[N] extends { value: infer V } ? V : unknown;
+
+export type StoreKey<S, N extends StoreName<S>> = S[N] extends { key: infer K extends IDBValidKey }
+  ? K
+  : S[N] extends { value: infer V; keyPath: infer P extends string | readonly string[] }
+    ? KeyPathValue<V, P> extends infer K extends IDBValidKey
+      ? K
+      : IDBValidKey
+    : IDBValidKey;
+
+export type IndexName<S, N extends StoreName<S>> = S[N] extends { indexes: infer I } ? Extract<keyof I, string> : never;
+
+export type IndexKey<S, N extends StoreName<S>, I extends string> =
+  S[N] extends { indexes: infer X } ? (I extends keyof X ? X[I] : never) : never;
+
+export type IndexQuery<S, N extends StoreName<S>, I extends string> = IndexKey<S, N, I> | IDBKeyRange | KeyRangeDescriptor;
+
+/**
+ * Default for the value type parameter of read and write methods. It resolves to the schema's value type,
+ * so `db.get('users', 1)` is typed without type arguments.
+ */
+export interface InferFromSchema {
+  readonly __inferFromSchema: true;
+}
+
+/**
+ * Untyped databases keep accepting an explicit value type (`db.get<User>('users', 1)`); typed databases
+ * reject one, since the schema already fixes it.
+ */
+export type ExplicitValue<S> = string extends keyof S ? unknown : InferFromSchema;
+
+export type ResolveValue<T, S, N extends StoreName<S>> = [T] extends [InferFromSchema] ? StoreValue<S, N> : T;
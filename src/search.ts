@@ -0,0 +1,139 @@
+import { DataError } from './errors';
+import { extractKey } from './keyPath';
+
+export interface SearchIndexOptions {
+  /** Reduce English words to their stem, so "running" also finds "runs" (default: `false`). */
+  stem?: boolean;
+}
+
+export interface SearchOptions {
+  /** `'all'` returns records containing every term of the query, `'any'` those containing at least one (default: `'all'`). */
+  mode?: 'all' | 'any';
+  /** Treat every query term as a prefix, so "lap" finds "laptop" (default: `false`). */
+  prefix?: boolean;
+  /** Maximum number of records to return. */
+  limit?: number;
+}
+
+export interface SearchIndexConfig {
+  fields: string[];
+  stem: boolean;
+}
+
+/** Records of stores with a search index keep their tokens under this property, one array per index. */
+export const SEARCH_TOKENS = '_search';
+
+const SEARCH_INDEX_PREFIX = '_search:';
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * A search index is a multiEntry index on `_search.<name>`. Its IndexedDB name carries the fields and the
+ * stemming flag (`_search:<name>:{"fields":["title"],"stem":false}`), so they survive across sessions.
+ */
+export function searchIndexName(name: string, config: SearchIndexConfig): string {
+  return `${SEARCH_INDEX_PREFIX}${name}:${JSON.stringify(config)}`;
+}
+
+export function searchTokensPath(name: string): string {
+  return `${SEARCH_TOKENS}.${name}`;
+}
+
+export function isSearchIndexName(indexName: string): boolean {
+  return indexName.startsWith(SEARCH_INDEX_PREFIX);
+}
+
+export function validateSearchIndex(name: string, fields: string[], details: { operation: string; storeName: string }): void {
+  if (!IDENTIFIER.test(name)) {
+    throw new DataError(`Invalid search index name "${name}": expected letters, digits, "_" or "$", not starting with a digit.`, details);
+  }
+  if (fields.length === 0) {
+    throw new DataError(`Search index "${name}" needs at least one field.`, details);
+  }
+}
+
+interface SearchIndex extends SearchIndexConfig {
+  name: string;
+  indexName: string;
+}
+
+function parseSearchIndex(indexName: string): SearchIndex {
+  const rest = indexName.slice(SEARCH_INDEX_PREFIX.length);
+  const separator = rest.indexOf(':');
+  return { name: rest.slice(0, separator), indexName, ...(JSON.parse(rest.slice(separator + 1)) as SearchIndexConfig) };
+}
+
+export function searchIndexes(store: IDBObjectStore): SearchIndex[] {
+  return Array.from(store.indexNames).filter(isSearchIndexName).map(parseSearchIndex);
+}
+
+export function findSearchIndex(store: IDBObjectStore, name: string): SearchIndex | undefined {
+  return searchIndexes(store).find((index) => index.name === name);
+}
+
+const SUFFIXES = ['ingly', 'edly', 'ing', 'ed', 'ly', 'ment', 'ness'];
+
+/**
+ * A light English stemmer: folds plurals the way Harman's S-stemmer does, then strips one common suffix
+ * while at least three letters remain.
+ */
+export function stem(token: string): string {
+  let word = token;
+  if (/[^ae]ies$/.test(word)) {
+    word = `${word.slice(0, -3)}y`;
+  } else if (/[^aeo]es$/.test(word)) {
+    word = word.slice(0, -1);
+  } else if (/[^us]s$/.test(word)) {
+    word = word.slice(0, -1);
+  }
+  const suffix = SUFFIXES.find((candidate) => word.endsWith(candidate) && word.length - candidate.length >= 3);
+  if (suffix) {
+    word = word.slice(0, -suffix.length);
+    // "running" -> "runn" -> "run"
+    if (/([^aeiouls])\1$/.test(word)) {
+      word = word.slice(0, -1);
+    }
+  }
+  return word;
+}
+
+/** Splits text into lowercase, diacritic-free words ("Crème Brûlée" -> ["creme", "brulee"]), stemmed with `stem`. */
+export function tokenize(text: string, stemmed: boolean): string[] {
+  const words = text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0);
+  return Array.from(new Set(stemmed ? words.map(stem) : words));
+}
+
+function textAt(value: unknown, field: string): string[] {
+  const text = extractKey(field, value) as unknown;
+  if (typeof text === 'string') {
+    return [text];
+  }
+  return Array.isArray(text) ? text.filter((part): part is string => typeof part === 'string') : [];
+}
+
+/**
+ * Stores the search tokens of every search index on the store in `value`. Returns a copy; the caller's
+ * object is not changed.
+ */
+export function withSearchTokens<T>(store: IDBObjectStore, value: T, operation: string): T {
+  const indexes = searchIndexes(store);
+  if (indexes.length === 0) {
+    return value;
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new DataError(`Records in object store "${store.name}" must be objects, since the store has a search index.`, {
+      operation,
+      storeName: store.name
+    });
+  }
+  const tokens: Record<string, string[]> = {};
+  for (const index of indexes) {
+    const text = index.fields.flatMap((field) => textAt(value, field)).join(' ');
+    tokens[index.name] = tokenize(text, index.stem);
+  }
+  return { ...value, [SEARCH_TOKENS]: tokens };
+}
@@ -0,0 +1,201 @@
+import { ChangeRecord, ChangeType, recordChange } from './changes';
+import { QueryOptions, needsCursor, walkCursor } from './cursor';
+import { StorageDriver } from './driver';
+import { NotFoundError, SimpleIDBError, TransactionInactiveError, toSimpleIDBError } from './errors';
+import { extractKey } from './keyPath';
+import { KeyQuery, toKeyRange } from './keyRange';
+import { prepareRecord } from './records';
+import { WriteOptions } from './ttl';
+import { DBSchema, ExplicitValue, InferFromSchema, ResolveValue, StoreKey, StoreName, UntypedSchema } from './schema';
+
+export interface RequestContext {
+  /** The public method being run, reported as `operation` on errors. */
+  operation: string;
+  /** Completes the "Failed to ..." error message, e.g. `'add record'`. */
+  action: string;
+  key?: IDBValidKey;
+  /** Record being written; its key is read from the store's keyPath when reporting an error. */
+  value?: unknown;
+  /** Set on writes, which are reported to observers once the transaction commits. */
+  change?: ChangeType;
+}
+
+/**
+ * Called on a successful write request. Records the change while the transaction is still active, since
+ * index key paths can no longer be read once it commits.
+ */
+export function describeWrite(store: IDBObjectStore, context: RequestContext, result: unknown): ChangeRecord | null {
+  if (!context.change) {
+    return null;
+  }
+  const keys = context.change === 'clear' ? [] : [context.key ?? (result as IDBValidKey)];
+  return recordChange(store, context.change, keys, 'value' in context ? [context.value] : undefined);
+}
+
+export function failedRequest(error: unknown, store: IDBObjectStore, context: RequestContext) {
+  const key = context.key ?? ('value' in context ? extractKey(store.keyPath, context.value) : undefined);
+  return toSimpleIDBError(error, `Failed to ${context.action}`, { operation: context.operation, storeName: store.name, key });
+}
+
+/** What a SimpleTransaction needs from the SimpleIDB that started it. */
+export interface TransactionHooks {
+  onChange?: (change: ChangeRecord) => void;
+  /** Whether records of the store are encoded by a codec or serialize hooks. */
+  hasCodec?: (storeName: string) => boolean;
+  /** Checks a record with the store's validator before it is written. */
+  validate?: (store: IDBObjectStore, value: unknown, operation: string) => void;
+}
+
+export type TransactionCallback<R, S extends DBSchema<S> = UntypedSchema, N extends StoreName<S> = StoreName<S>> = (
+  tx: SimpleTransaction<S, N>
+) => Promise<R> | R;
+
+/**
+ * Handle passed to `SimpleIDB.transaction()` callbacks. Every request goes through the same underlying
+ * IDBTransaction, so the writes commit or roll back together.
+ */
+export class SimpleTransaction<S extends DBSchema<S> = UntypedSchema, Scope extends StoreName<S> = StoreName<S>> {
+  private finished = false;
+
+  constructor(
+    readonly raw: IDBTransaction,
+    private readonly driver: StorageDriver,
+    private readonly hooks: TransactionHooks = {}
+  ) {
+    raw.addEventListener('complete', () => {
+      this.finished = true;
+    });
+    raw.addEventListener('abort', () => {
+      this.finished = true;
+    });
+  }
+
+  get active(): boolean {
+    return !this.finished;
+  }
+
+  add<T extends ExplicitValue<S> = InferFromSchema, N extends Scope = Scope>(
+    storeName: N,
+    data: ResolveValue<T, S, N>,
+    options?: WriteOptions
+  ): Promise<StoreKey<S, N>> {
+    this.requireNoCodec(storeName, 'add');
+    return this.run(storeName, { operation: 'add', action: 'add record', value: data, change: 'add' }, (store) =>
+      store.add(this.prepare(store, data, 'add', options))
+    );
+  }
+
+  get<T extends ExplicitValue<S> = InferFromSchema, N extends Scope = Scope>(storeName: N, key: StoreKey<S, N>): Promise<ResolveValue<T, S, N> | undefined> {
+    this.requireNoCodec(storeName, 'get');
+    return this.run(storeName, { operation: 'get', action: 'get record', key }, (store) => store.get(key));
+  }
+
+  put<T extends ExplicitValue<S> = InferFromSchema, N extends Scope = Scope>(
+    storeName: N,
+    data: ResolveValue<T, S, N>,
+    options?: WriteOptions
+  ): Promise<StoreKey<S, N>> {
+    this.requireNoCodec(storeName, 'put');
+    return this.run(storeName, { operation: 'put', action: 'put record', value: data, change: 'put' }, (store) =>
+      store.put(this.prepare(store, data, 'put', options))
+    );
+  }
+
+  delete<N extends Scope>(storeName: N, key: StoreKey<S, N>): Promise<void> {
+    return this.run(storeName, { operation: 'delete', action: 'delete record', key, change: 'delete' }, (store) => store.delete(key));
+  }
+
+  clear(storeName: Scope): Promise<void> {
+    return this.run(storeName, { operation: 'clear', action: 'clear store', change: 'clear' }, (store) => store.clear());
+  }
+
+  getAll<T extends ExplicitValue<S> = InferFromSchema, N extends Scope = Scope>(storeName: N, options?: QueryOptions): Promise<ResolveValue<T, S, N>[]> {
+    this.requireNoCodec(storeName, 'getAll');
+    const query = toKeyRange(options?.range, this.driver);
+    if (!needsCursor(options)) {
+      return this.run(storeName, { operation: 'getAll', action: 'get all records' }, (store) => store.getAll(query, options?.limit));
+    }
+    return new Promise((resolve, reject) => {
+      const request = this.objectStore(storeName).openCursor(query, options?.direction);
+      const results: ResolveValue<T, S, N>[] = [];
+      walkCursor(request, options, (cursor) => results.push(cursor.value), () => resolve(results));
+      request.onerror = () => reject(toSimpleIDBError(request.error, 'Failed to get all records', { operation: 'getAll', storeName }));
+    });
+  }
+
+  count(storeName: Scope, range?: KeyQuery): Promise<number> {
+    return this.run(storeName, { operation: 'count', action: 'count records' }, (store) => store.count(toKeyRange(range, this.driver)));
+  }
+
+  abort(): void {
+    if (this.finished) {
+      return;
+    }
+    try {
+      this.raw.abort();
+    } catch {
+      // Already committing; there is nothing left to roll back.
+    }
+  }
+
+  objectStore(storeName: string): IDBObjectStore {
+    if (this.finished) {
+      throw inactiveTransactionError();
+    }
+    if (!this.raw.objectStoreNames.contains(storeName)) {
+      throw new NotFoundError(`Object store "${storeName}" is not part of this transaction. Add it to the store names passed to transaction().`, {
+        storeName
+      });
+    }
+    return this.raw.objectStore(storeName);
+  }
+
+  /**
+   * A codec may be async, and a transaction commits as soon as it has no pending requests, so records of
+   * stores with a codec or serialize hooks cannot be read or written here.
+   */
+  private requireNoCodec(storeName: string, operation: string): void {
+    if (this.hooks.hasCodec?.(storeName)) {
+      throw new SimpleIDBError(
+        `Cannot ${operation} records of object store "${storeName}" inside transaction(), since the store has a codec or serialize hooks. Use the methods of SimpleIDB instead.`,
+        { operation, storeName }
+      );
+    }
+  }
+
+  private prepare(store: IDBObjectStore, value: unknown, operation: string, options: WriteOptions | undefined): unknown {
+    this.hooks.validate?.(store, value, operation);
+    return prepareRecord(store, value, operation, options?.ttl);
+  }
+
+  private run<R>(storeName: string, context: RequestContext, makeRequest: (store: IDBObjectStore) => IDBRequest): Promise<R> {
+    return new Promise((resolve, reject) => {
+      let store: IDBObjectStore;
+      let request: IDBRequest;
+      try {
+        store = this.objectStore(storeName);
+        request = makeRequest(store);
+      } catch (error) {
+        const cause = (error as DOMException).name === 'TransactionInactiveError' ? inactiveTransactionError(error) : error;
+        reject(toSimpleIDBError(cause, `Failed to ${context.action}`, { operation: context.operation, storeName, key: context.key }));
+        return;
+      }
+      request.onerror = () => reject(failedRequest(request.error, store, context));
+      request.onsuccess = () => {
+        const change = describeWrite(store, context, request.result);
+        if (change) {
+          this.hooks.onChange?.(change);
+        }
+        resolve(request.result as R);
+      };
+    });
+  }
+}
+
+function inactiveTransactionError(cause?: unknown): TransactionInactiveError {
+  return new TransactionInactiveError(
+    'Transaction is no longer active. IndexedDB commits a transaction as soon as it has no pending requests, ' +
+    'so awaiting non-IndexedDB work (fetch, timers) inside a transaction callback ends it early.',
+    { cause }
+  );
+}
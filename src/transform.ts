@@ -0,0 +1,77 @@
+import { CodecContext, ValueCodec, copyFields } from './codec';
+import { DataError } from './errors';
+
+export type SerializeHook = (value: any, context: CodecContext) => unknown | Promise<unknown>;
+export type DeserializeHook = (stored: any, context: CodecContext) => unknown | Promise<unknown>;
+
+export interface StoreTransforms {
+  /**
+   * Transforms every record before it is written, e.g. dropping transient fields and then compressing it.
+   * An array runs as a pipeline, each hook receiving the result of the previous one.
+   */
+  serialize?: SerializeHook | SerializeHook[];
+  /** Transforms every record after it is read. List a pipeline in the order it runs, the reverse of `serialize`. */
+  deserialize?: DeserializeHook | DeserializeHook[];
+}
+
+function hooksOf<H>(hooks: H | H[] | undefined): H[] {
+  return hooks === undefined ? [] : Array.isArray(hooks) ? hooks : [hooks];
+}
+
+export function hasTransforms(transforms: StoreTransforms | undefined): boolean {
+  return hooksOf(transforms?.serialize).length > 0 || hooksOf(transforms?.deserialize).length > 0;
+}
+
+export function validateTransforms(transforms: StoreTransforms | undefined, details: { operation: string; storeName: string }): void {
+  for (const name of ['serialize', 'deserialize'] as const) {
+    if (hooksOf<unknown>(transforms?.[name]).some((hook) => typeof hook !== 'function')) {
+      throw new DataError(`Invalid ${name} option for object store "${details.storeName}": expected a function or an array of functions.`, details);
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Runs a store's serialize and deserialize hooks as a codec. The key, index and hidden fields of a record
+ * are copied onto the serialized record, so the store can still key and index it whatever the hooks return.
+ */
+export function transformCodec(transforms: StoreTransforms): ValueCodec {
+  const serialize = hooksOf(transforms.serialize);
+  const deserialize = hooksOf(transforms.deserialize);
+  return {
+    async encode(value: unknown, context: CodecContext): Promise<unknown> {
+      let stored = value;
+      for (const hook of serialize) {
+        stored = await hook(stored, context);
+      }
+      const kept = [...context.preserve, ...context.indexed];
+      if (stored === value || !isRecord(value) || kept.every((path) => !(path.split('.')[0] in value))) {
+        return stored;
+      }
+      if (!isRecord(stored)) {
+        throw new DataError(`The serialize hooks of object store "${context.storeName}" must return an object, so that its key and index fields can be kept.`, {
+          storeName: context.storeName
+        });
+      }
+      // Copied into a fresh object, so a hook returning part of its input does not have that changed.
+      const record = { ...stored };
+      copyFields(value, record, kept);
+      return record;
+    },
+
+    async decode(stored: unknown, context: CodecContext): Promise<unknown> {
+      let value = stored;
+      for (const hook of deserialize) {
+        value = await hook(value, context);
+      }
+      // Keys generated by autoIncrement are only set on the stored record.
+      if (value !== stored && isRecord(value)) {
+        copyFields(stored, value, context.preserve);
+      }
+      return value;
+    }
+  };
+}
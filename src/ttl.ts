@@ -0,0 +1,91 @@
+import { DataError, SimpleIDBError } from './errors';
+
+export interface WriteOptions {
+  /** Lifetime of the written records in milliseconds, overriding the store's default TTL. */
+  ttl?: number;
+}
+
+/** Records in stores with a TTL carry their expiry time, in milliseconds since the epoch, in this property. */
+export const EXPIRES_AT = '_expiresAt';
+
+const TTL_INDEX_PREFIX = '_ttl:';
+
+/**
+ * Stores with a TTL have an index on EXPIRES_AT. Its name carries the store's default TTL (`_ttl:60000`),
+ * so the default survives across sessions without a separate metadata store.
+ */
+export function ttlIndexName(ttl: number): string {
+  return `${TTL_INDEX_PREFIX}${ttl}`;
+}
+
+export function isTTLIndexName(indexName: string): boolean {
+  return indexName.startsWith(TTL_INDEX_PREFIX);
+}
+
+export function validateTTL(ttl: number, details: { operation: string; storeName?: string }): void {
+  if (typeof ttl !== 'number' || Number.isNaN(ttl) || ttl < 0) {
+    throw new SimpleIDBError(`Invalid ttl ${String(ttl)}: expected a number of milliseconds, or Infinity.`, details);
+  }
+}
+
+function findTTLIndexName(store: IDBObjectStore): string | undefined {
+  return Array.from(store.indexNames).find(isTTLIndexName);
+}
+
+export function ttlIndex(store: IDBObjectStore): IDBIndex | null {
+  const indexName = findTTLIndexName(store);
+  return indexName === undefined ? null : store.index(indexName);
+}
+
+/** The store's default TTL, or null when the store has none. */
+export function storeTTL(store: IDBObjectStore): number | null {
+  const indexName = findTTLIndexName(store);
+  return indexName === undefined ? null : Number(indexName.slice(TTL_INDEX_PREFIX.length));
+}
+
+export function noTTLError(storeName: string, operation: string): SimpleIDBError {
+  return new SimpleIDBError(`Object store "${storeName}" has no TTL. Set ttl in its createStore() options to expire records.`, {
+    operation,
+    storeName
+  });
+}
+
+/** Stamps `value` with its expiry time when the store has a TTL. Returns a copy; the caller's object is not changed. */
+export function withExpiry<T>(store: IDBObjectStore, value: T, operation: string, ttl?: number): T {
+  const defaultTTL = storeTTL(store);
+  if (defaultTTL === null) {
+    if (ttl !== undefined) {
+      throw noTTLError(store.name, operation);
+    }
+    return value;
+  }
+  if (ttl !== undefined) {
+    validateTTL(ttl, { operation, storeName: store.name });
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new DataError(`Records in object store "${store.name}" must be objects, since the store has a TTL.`, {
+      operation,
+      storeName: store.name
+    });
+  }
+  const lifetime = ttl ?? defaultTTL;
+  const { [EXPIRES_AT]: _previous, ...record } = value as Record<string, unknown>;
+  return (Number.isFinite(lifetime) ? { ...record, [EXPIRES_AT]: Date.now() + lifetime } : record) as T;
+}
+
+export function isExpired(value: unknown, now = Date.now()): boolean {
+  const expiresAt = typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[EXPIRES_AT] : undefined;
+  return typeof expiresAt === 'number' && expiresAt <= now;
+}
+
+/**
+ * Whether the record under `cursor` is still live. Records only expire in stores with a TTL; elsewhere
+ * EXPIRES_AT is ordinary data, so the store is only looked up for records that carry a past expiry time.
+ */
+export function isLiveCursor(cursor: IDBCursorWithValue): boolean {
+  if (!isExpired(cursor.value)) {
+    return true;
+  }
+  const source = cursor.source as IDBObjectStore | IDBIndex;
+  return findTTLIndexName('objectStore' in source ? source.objectStore : source) === undefined;
+}
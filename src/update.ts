@@ -0,0 +1,38 @@
+/** Return this from an update() callback to delete the record instead of writing it. */
+export const DELETE_RECORD: unique symbol = Symbol('simple-idb.deleteRecord');
+
+export type Updater<T> = (current: T) => T | typeof DELETE_RECORD;
+
+export interface PatchOptions {
+  /** Merge nested plain objects instead of replacing them (default: `false`). Arrays are always replaced. */
+  deep?: boolean;
+}
+
+export type DeepPartial<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+    ? { [P in keyof T]?: DeepPartial<T[P]> }
+    : T;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Merges `partial` into a copy of `current`. Nested plain objects are merged too with `deep`; anything else
+ * in `partial` (arrays, dates, primitives) replaces the current value.
+ */
+export function mergePatch<T>(current: T, partial: unknown, deep: boolean): T {
+  if (!isPlainObject(current) || !isPlainObject(partial)) {
+    return partial as T;
+  }
+  const merged: Record<string, unknown> = { ...current };
+  for (const [property, value] of Object.entries(partial)) {
+    merged[property] = deep && isPlainObject(merged[property]) ? mergePatch(merged[property], value, true) : value;
+  }
+  return merged as T;
+}
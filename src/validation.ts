@@ -0,0 +1,212 @@
+import { DataError, ValidationError, ValidationIssue } from './errors';
+import { SEARCH_TOKENS } from './search';
+import { EXPIRES_AT } from './ttl';
+
+type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/** The subset of JSON Schema checked by the built-in validator. */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  /** Passes when the value matches at least one of the schemas. */
+  anyOf?: JSONSchema[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  /** `false` rejects properties not listed in `properties`; a schema checks them. Unlisted properties pass by default. */
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  /** A regular expression the string must match somewhere, as in JSON Schema. */
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+}
+
+type StandardPathSegment = PropertyKey | { readonly key: PropertyKey };
+
+type StandardResult =
+  | { readonly value: unknown; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<{ readonly message: string; readonly path?: ReadonlyArray<StandardPathSegment> }> };
+
+/** The Standard Schema interface (https://standardschema.dev), implemented by zod, valibot and others. */
+export interface StandardSchemaV1 {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardResult | Promise<StandardResult>;
+  };
+}
+
+/** A predicate, a JSON Schema or a Standard Schema object. */
+export type Validator = ((value: any) => boolean) | JSONSchema | StandardSchemaV1;
+
+export interface StoreValidation {
+  /** Checks every record written to the store; records it rejects fail with a ValidationError. */
+  validate?: Validator;
+  /** Checks records read from the store too (default: `false`). */
+  validateOnRead?: boolean;
+}
+
+function isStandardSchema(validator: Validator): validator is StandardSchemaV1 {
+  return typeof validator === 'object' && validator !== null && '~standard' in validator;
+}
+
+export function validateValidator(validation: StoreValidation | undefined, details: { operation: string; storeName: string }): void {
+  const validator = validation?.validate;
+  if (validator !== undefined && typeof validator !== 'function' && (typeof validator !== 'object' || validator === null || Array.isArray(validator))) {
+    throw new DataError(`Invalid validate option for object store "${details.storeName}": expected a function, a JSON Schema or a Standard Schema.`, details);
+  }
+}
+
+function typeOf(value: unknown): JSONSchemaType | 'other' {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  if (typeof value === 'string' || typeof value === 'boolean') {
+    return typeof value as 'string' | 'boolean';
+  }
+  return typeof value === 'object' ? 'object' : 'other';
+}
+
+function joinPath(path: string, segment: string | number): string {
+  return path === '' ? String(segment) : `${path}.${segment}`;
+}
+
+function count(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? '' : 's'}`;
+}
+
+function sameJSON(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Checks `value` against `schema` and returns one issue per failed keyword, with the dotted path it failed at. */
+export function checkJSONSchema(schema: JSONSchema, value: unknown, path = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const fail = (message: string) => issues.push({ path, message });
+  const type = typeOf(value);
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((expected) => expected === type || (expected === 'number' && type === 'integer'))) {
+      fail(`expected ${types.join(' or ')}, got ${type === 'other' ? typeof value : type}`);
+      return issues;
+    }
+  }
+  if (schema.enum !== undefined && !schema.enum.some((option) => sameJSON(option, value))) {
+    fail(`expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && !sameJSON(schema.const, value)) {
+    fail(`expected ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.anyOf !== undefined && !schema.anyOf.some((option) => checkJSONSchema(option, value, path).length === 0)) {
+    fail('matches none of the allowed schemas');
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`expected at least ${count(schema.minLength, 'character')}`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`expected at most ${count(schema.maxLength, 'character')}`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      fail(`expected to match /${schema.pattern}/`);
+    }
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`expected >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`expected <= ${schema.maximum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      fail(`expected > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      fail(`expected < ${schema.exclusiveMaximum}`);
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`expected at least ${count(schema.minItems, 'item')}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`expected at most ${count(schema.maxItems, 'item')}`);
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, i) => issues.push(...checkJSONSchema(schema.items!, item, joinPath(path, i))));
+    }
+  }
+  if (type === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const property of schema.required ?? []) {
+      if (record[property] === undefined) {
+        issues.push({ path: joinPath(path, property), message: 'is required' });
+      }
+    }
+    for (const [property, field] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[property];
+      if (field === undefined) {
+        continue;
+      }
+      if (propertySchema !== undefined) {
+        issues.push(...checkJSONSchema(propertySchema, field, joinPath(path, property)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, property), message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...checkJSONSchema(schema.additionalProperties, field, joinPath(path, property)));
+      }
+    }
+  }
+  return issues;
+}
+
+function standardPath(path: ReadonlyArray<StandardPathSegment> | undefined): string {
+  return (path ?? []).map((segment) => String(typeof segment === 'object' ? segment.key : segment)).join('.');
+}
+
+/** The record as the application sees it: without the expiry time and search tokens the store adds. */
+function withoutHiddenFields(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || !(EXPIRES_AT in value || SEARCH_TOKENS in value)) {
+    return value;
+  }
+  const { [EXPIRES_AT]: _expiresAt, [SEARCH_TOKENS]: _search, ...rest } = value as Record<string, unknown>;
+  return rest;
+}
+
+/**
+ * Runs `validator` on a record, leaving out the properties the store adds. Only Standard Schemas with
+ * async refinements return a promise.
+ */
+export function runValidator(validator: Validator, record: unknown): ValidationIssue[] | Promise<ValidationIssue[]> {
+  const value = withoutHiddenFields(record);
+  if (typeof validator === 'function') {
+    return validator(value) ? [] : [{ path: '', message: 'rejected by the validator' }];
+  }
+  if (!isStandardSchema(validator)) {
+    return checkJSONSchema(validator, value);
+  }
+  const toIssues = (result: StandardResult): ValidationIssue[] =>
+    (result.issues ?? []).map((issue) => ({ path: standardPath(issue.path), message: issue.message }));
+  const result = validator['~standard'].validate(value);
+  return result instanceof Promise ? result.then(toIssues) : toIssues(result);
+}
+
+export function validationError(issues: ValidationIssue[], details: { operation: string; storeName: string; key?: IDBValidKey }): ValidationError {
+  const listed = issues.map((issue) => `${issue.path === '' ? '(record)' : issue.path}: ${issue.message}`).join('; ');
+  return new ValidationError(`Invalid record for object store "${details.storeName}": ${listed}`, issues, details);
+}